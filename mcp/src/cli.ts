@@ -5,12 +5,14 @@
  *   agentation-mcp server [--port 4747]
  *   agentation-mcp init
  *   agentation-mcp doctor
+ *   agentation-mcp create-key --email <email>
  */
 
 import * as readline from "readline";
 import * as fs from "fs";
 import * as path from "path";
 import { spawn } from "child_process";
+import type { RateLimitConfig } from "./server/rate-limit.js";
 
 const command = process.argv[2];
 const DEFAULT_PORT = 4747;
@@ -421,6 +423,57 @@ async function runDoctor() {
   rl.close();
 }
 
+// ============================================================================
+// CREATE-KEY COMMAND - Issue an API key for local auth mode
+// ============================================================================
+
+async function runCreateKey(args: string[]) {
+  let email: string | undefined;
+  let orgName = "default";
+  let keyName = "default";
+  let expiresAt: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--email" && args[i + 1]) {
+      email = args[++i];
+    } else if (args[i] === "--org" && args[i + 1]) {
+      orgName = args[++i];
+    } else if (args[i] === "--name" && args[i + 1]) {
+      keyName = args[++i];
+    } else if (args[i] === "--expires-in-days" && args[i + 1]) {
+      const days = parseInt(args[++i], 10);
+      if (!isNaN(days) && days > 0) {
+        expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+      }
+    }
+  }
+
+  if (!email) {
+    console.error("Usage: agentation-mcp create-key --email <email> [--org <name>] [--name <label>] [--expires-in-days <n>]");
+    process.exit(1);
+  }
+
+  const { getTenantStore } = await import("./server/tenant-store.js");
+  const store = getTenantStore();
+
+  // Reuse the existing user (and their org) if the email is already known
+  let user = store.getUserByEmail(email);
+  if (!user) {
+    const org = store.createOrganization(orgName);
+    user = store.createUser(email, org.id, "owner");
+    console.log(`✓ Created user ${email} in organization "${orgName}"`);
+  }
+
+  const { apiKey, rawKey } = store.createApiKey(user.id, keyName, expiresAt);
+  console.log(`✓ Created API key "${apiKey.name}" (${apiKey.keyPrefix}...)`);
+  console.log();
+  console.log(`  ${rawKey}`);
+  console.log();
+  console.log(`This key is shown only once. Send it as "x-api-key" or "Authorization: Bearer"`);
+  console.log(`to a server started with --require-auth.`);
+  store.close();
+}
+
 // ============================================================================
 // COMMAND ROUTER
 // ============================================================================
@@ -435,14 +488,29 @@ if (command === "init") {
     console.error("Doctor failed:", err);
     process.exit(1);
   });
+} else if (command === "create-key") {
+  runCreateKey(process.argv.slice(3)).catch((err) => {
+    console.error("Create key failed:", err);
+    process.exit(1);
+  });
 } else if (command === "server") {
   // Dynamic import to avoid loading server code for other commands
-  import("./server/index.js").then(({ startHttpServer, startMcpServer, setApiKey }) => {
+  import("./server/index.js").then(({ startHttpServer, startMcpServer, setApiKey, parseRateLimits }) => {
     const args = process.argv.slice(3);
     let port = 4747;
     let mcpOnly = false;
     let httpUrl = "http://localhost:4747";
     let apiKeyArg: string | undefined;
+    let localKeyArg: string | undefined;
+    let requireAuth: boolean | undefined;
+    let host: string | undefined;
+    let allowedOrigins: string[] | undefined;
+    let maxBodyBytes: number | undefined;
+    let tls = false;
+    let tlsCert: string | undefined;
+    let tlsKey: string | undefined;
+    let rateLimits: RateLimitConfig | undefined;
+    let hybrid: boolean | undefined;
 
     for (let i = 0; i < args.length; i++) {
       if (args[i] === "--port" && args[i + 1]) {
@@ -466,16 +534,89 @@ if (command === "init") {
         apiKeyArg = args[i + 1];
         i++;
       }
+      if (args[i] === "--local-key" && args[i + 1]) {
+        localKeyArg = args[i + 1];
+        i++;
+      }
+      if (args[i] === "--require-auth") {
+        requireAuth = true;
+      }
+      if (args[i] === "--host" && args[i + 1]) {
+        host = args[i + 1];
+        i++;
+      }
+      if (args[i] === "--allowed-origins" && args[i + 1]) {
+        allowedOrigins = args[i + 1].split(",").map((o) => o.trim()).filter(Boolean);
+        i++;
+      }
+      if (args[i] === "--max-body-size" && args[i + 1]) {
+        const parsed = parseInt(args[i + 1], 10);
+        if (!isNaN(parsed) && parsed > 0) {
+          maxBodyBytes = parsed;
+        }
+        i++;
+      }
+      if (args[i] === "--tls") {
+        tls = true;
+      }
+      if (args[i] === "--tls-cert" && args[i + 1]) {
+        tlsCert = args[i + 1];
+        i++;
+      }
+      if (args[i] === "--tls-key" && args[i + 1]) {
+        tlsKey = args[i + 1];
+        i++;
+      }
+      if (args[i] === "--rate-limits" && args[i + 1]) {
+        try {
+          rateLimits = parseRateLimits(args[i + 1]);
+        } catch (err) {
+          console.error((err as Error).message);
+          process.exit(1);
+        }
+        i++;
+      }
+      if (args[i] === "--hybrid") {
+        hybrid = true;
+      }
+    }
+
+    if ((tlsCert === undefined) !== (tlsKey === undefined)) {
+      console.error("--tls-cert and --tls-key must be given together");
+      process.exit(1);
+    }
+
+    // Bound to one address, localhost may not reach the server. Plain HTTP
+    // is still served to this machine when TLS is on.
+    if (host && host !== "0.0.0.0" && host !== "::" && !args.includes("--http-url")) {
+      httpUrl = `http://${host.includes(":") ? `[${host}]` : host}:${port}`;
     }
 
     // API key from flag or environment variable
     const apiKey = apiKeyArg || process.env.AGENTATION_API_KEY;
-    if (apiKey) {
-      setApiKey(apiKey);
+
+    // The MCP tools call the HTTP server like any other client, so with
+    // --require-auth they need a local key of their own
+    const localKey = localKeyArg || process.env.AGENTATION_LOCAL_KEY;
+    const clientKey = localKey || apiKey;
+    if (clientKey) {
+      setApiKey(clientKey);
+    }
+    const authRequired = requireAuth ?? process.env.AGENTATION_REQUIRE_AUTH === "true";
+    if (authRequired && !localKey) {
+      console.error("[MCP] --require-auth is on but no --local-key was given; stdio MCP tools will get 401");
     }
 
     if (!mcpOnly) {
-      startHttpServer(port, apiKey);
+      startHttpServer(port, apiKey, {
+        requireAuth,
+        host,
+        allowedOrigins,
+        maxBodyBytes,
+        tls: tlsCert && tlsKey ? { certPath: tlsCert, keyPath: tlsKey } : tls ? "self-signed" : undefined,
+        rateLimits,
+        hybrid,
+      });
     }
     startMcpServer(httpUrl).catch((err) => {
       console.error("MCP server error:", err);
@@ -490,6 +631,7 @@ Usage:
   agentation-mcp init                    Interactive setup wizard
   agentation-mcp server [options]        Start the annotation server
   agentation-mcp doctor                  Check your setup and diagnose issues
+  agentation-mcp create-key [options]    Issue an API key for --require-auth
   agentation-mcp help                    Show this help message
 
 Server Options:
@@ -497,6 +639,30 @@ Server Options:
   --mcp-only         Skip HTTP server, only run MCP on stdio
   --http-url <url>   HTTP server URL for MCP to fetch from
   --api-key <key>    API key for cloud storage (or set AGENTATION_API_KEY env var)
+  --hybrid           With --api-key, store locally and sync with the cloud in the
+                     background, so capture works offline
+  --require-auth     Require an API key on local routes and scope data per user
+                     (or set AGENTATION_REQUIRE_AUTH=true)
+  --local-key <key>  API key (from create-key) the MCP tools send to a server
+                     started with --require-auth (or set AGENTATION_LOCAL_KEY)
+  --host <address>   Address to listen on (default: all interfaces)
+  --allowed-origins <list>
+                     Comma-separated browser origins allowed to call the server
+                     (default: any)
+  --max-body-size <bytes>
+                     Largest accepted request body (default: 10485760)
+  --tls              Serve HTTPS with a generated self-signed certificate
+  --tls-cert <path>  Serve HTTPS with this PEM certificate (requires --tls-key)
+  --tls-key <path>   PEM private key for --tls-cert
+  --rate-limits <spec>
+                     Per-client write limits over the defaults, e.g.
+                     "session=10/60,thread=off" (requests/seconds), or "off"
+
+Create-Key Options:
+  --email <email>          User the key belongs to (created if new)
+  --org <name>             Organization for a new user (default: "default")
+  --name <label>           Label for the key (default: "default")
+  --expires-in-days <n>    Expire the key after n days
 
 Commands:
   init      Guided setup that configures Claude Code or Codex to use the MCP server.
@@ -523,6 +689,16 @@ Examples:
 
   # Or using environment variable
   AGENTATION_API_KEY=ag_xxx agentation-mcp server
+
+  # Capture offline, sync to the cloud workspace when back online
+  agentation-mcp server --api-key ag_xxx --hybrid
+
+  # Share one local server across a team, each with private feedback
+  agentation-mcp create-key --email dev@example.com
+  agentation-mcp server --require-auth --local-key sk_live_xxx
+
+  # Annotate from phones and tablets on the LAN
+  agentation-mcp server --tls --allowed-origins https://192.168.1.20:3000
 `);
 } else {
   console.error(`Unknown command: ${command}`);
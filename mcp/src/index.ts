@@ -7,6 +7,7 @@
 
 // Re-export server functions
 export { startHttpServer, startMcpServer } from "./server/index.js";
+export type { HttpServerOptions } from "./server/index.js";
 
 // Re-export store functions
 export {
@@ -16,21 +17,72 @@ export {
   getSession,
   getSessionWithAnnotations,
   updateSessionStatus,
+  updateSession,
+  deleteSession,
   listSessions,
+  querySessions,
   addAnnotation,
   getAnnotation,
   updateAnnotation,
   updateAnnotationStatus,
   addThreadMessage,
   getPendingAnnotations,
+  queryPendingAnnotations,
+  searchAnnotations,
+  bulkUpdateAnnotations,
   getSessionAnnotations,
+  countAnnotations,
   deleteAnnotation,
+  addAttachment,
+  getAttachment,
+  listAttachments,
   getEventsSince,
+  getEventsSinceGlobal,
+  listWebhookDeliveries,
+  getWebhookDelivery,
+  listWebhookSubscriptions,
   clearAll,
 } from "./server/store.js";
 
+// Re-export webhook helpers
+export {
+  signWebhookPayload,
+  redeliverWebhook,
+  startWebhookDispatcher,
+} from "./server/webhooks.js";
+
+// Re-export export/import helpers
+export { exportSession, importSessions, parseArchive, EXPORT_FORMATS } from "./server/export.js";
+export type { ExportFormat, SessionArchive, ImportResult } from "./server/export.js";
+
+// Re-export optimistic concurrency helpers
+export { VersionConflictError, INITIAL_VERSION } from "./server/versioning.js";
+
+// Re-export attachment limits
+export { MAX_ATTACHMENT_BYTES } from "./server/attachments.js";
+
+// Re-export hybrid mode replication
+export { getReplicationStatus } from "./server/replication.js";
+export type { ReplicationStatus } from "./server/replication.js";
+
+// Re-export annotation history
+export { buildAnnotationHistory, diffAnnotation } from "./server/history.js";
+export type { AnnotationHistory, AnnotationHistoryEntry, HistoryActor } from "./server/history.js";
+
+// Re-export project matching and routing
+export { matchProject, routeAnnotation } from "./server/projects.js";
+
+// Re-export content and rate limits
+export { MAX_COMMENT_LENGTH, MAX_THREAD_MESSAGES, ContentLimitError } from "./server/limits.js";
+export { DEFAULT_RATE_LIMITS, parseRateLimits } from "./server/rate-limit.js";
+export type { RateLimit, RateLimitConfig, RateLimitedRoute } from "./server/rate-limit.js";
+
+// Re-export output formatting
+export { generateOutput, generateSessionsOutput, OUTPUT_DETAIL_LEVELS } from "./server/output.js";
+export type { OutputDetailLevel, OutputEnvironment } from "./server/output.js";
+
 // Re-export event bus
-export { eventBus, userEventBus } from "./server/events.js";
+export { eventBus, userEventBus, AFS_EVENT_TYPES } from "./server/events.js";
 
 // Re-export tenant store
 export {
@@ -38,6 +90,8 @@ export {
   resetTenantStore,
   hashApiKey,
   isValidApiKeyFormat,
+  authenticateApiKey,
+  getUserStore,
   createUserContext,
   createOrganization,
   getOrganization,
@@ -56,6 +110,7 @@ export {
   getSessionWithAnnotationsForUser,
   getPendingAnnotationsForUser,
   getAllPendingForUser,
+  getAnnotationForUser,
 } from "./server/tenant-store.js";
 export type { TenantStore } from "./server/tenant-store.js";
 
@@ -72,7 +127,30 @@ export type {
   AFSEventType,
   ActionRequest,
   AFSEvent,
+  ThreadMessageEvent,
+  FieldChange,
+  EventActor,
   AFSStore,
+  SessionQuery,
+  SessionSort,
+  AnnotationQuery,
+  AnnotationSort,
+  Page,
+  SearchOptions,
+  SearchHit,
+  AnnotationCount,
+  WriteOptions,
+  Attachment,
+  AttachmentInput,
+  BulkOperation,
+  BulkOperationResult,
+  BulkResult,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+  Project,
+  RoutingRule,
+  ReplicationState,
   // Multi-tenant types
   Organization,
   User,
@@ -0,0 +1,105 @@
+/**
+ * Attachment file storage.
+ *
+ * Files uploaded for an annotation (element screenshots, JSON, HAR captures)
+ * are kept on disk under ~/.agentation/attachments, one file per attachment
+ * named by its ID. Metadata lives in the store, which owns the lifecycle.
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, unlinkSync, writeFileSync } from "fs";
+import { basename, join } from "path";
+import { homedir } from "os";
+import type { Attachment } from "../types.js";
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Raster images are safe to render inline; anything else (including SVG,
+// which can carry script) is served as a download.
+const INLINE_CONTENT_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+const ID_PATTERN = /^[a-z0-9-]+$/;
+
+function getAttachmentDir(): string {
+  const dir = join(homedir(), ".agentation", "attachments");
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+function attachmentPath(id: string): string {
+  if (!ID_PATTERN.test(id)) {
+    throw new Error(`Invalid attachment ID: ${id}`);
+  }
+  return join(getAttachmentDir(), id);
+}
+
+export function writeAttachmentFile(id: string, content: Uint8Array): void {
+  writeFileSync(attachmentPath(id), content);
+}
+
+export function readAttachmentFile(id: string): Buffer | undefined {
+  try {
+    return readFileSync(attachmentPath(id));
+  } catch {
+    return undefined;
+  }
+}
+
+export function removeAttachmentFile(id: string): void {
+  try {
+    unlinkSync(attachmentPath(id));
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Delete files whose attachment no longer exists (e.g. removed inside a
+ * transaction, where files are left until the next start).
+ */
+export function pruneAttachmentFiles(exists: (id: string) => boolean): number {
+  let pruned = 0;
+  for (const id of readdirSync(getAttachmentDir())) {
+    if (ID_PATTERN.test(id) && !exists(id)) {
+      removeAttachmentFile(id);
+      pruned++;
+    }
+  }
+  return pruned;
+}
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+/**
+ * Reduce a client-supplied filename to a safe display name.
+ */
+export function normalizeFilename(name: string | undefined, fallback = "attachment"): string {
+  // eslint-disable-next-line no-control-regex
+  const cleaned = basename(name ?? "").replace(/[\x00-\x1f"\\]/g, "").trim().slice(0, 255);
+  return cleaned || fallback;
+}
+
+/**
+ * Return the bare MIME type (parameters dropped), or undefined if malformed.
+ */
+export function normalizeContentType(value: string | undefined): string | undefined {
+  const type = (value ?? "application/octet-stream").split(";")[0].trim().toLowerCase();
+  return /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*$/.test(type) ? type : undefined;
+}
+
+export function isRasterImage(contentType: string): boolean {
+  return INLINE_CONTENT_TYPES.includes(contentType);
+}
+
+/**
+ * Content-Disposition for serving an attachment: inline for raster images,
+ * a download otherwise. Non-ASCII filenames go in the RFC 5987 parameter.
+ */
+export function contentDisposition(attachment: Attachment): string {
+  const type = isRasterImage(attachment.contentType) ? "inline" : "attachment";
+  const ascii = attachment.filename.replace(/[^\x20-\x7e]/g, "_");
+  return `${type}; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`;
+}
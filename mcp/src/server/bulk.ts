@@ -0,0 +1,178 @@
+/**
+ * Bulk annotation operations.
+ *
+ * Applies a list of status changes, updates, replies and deletes through
+ * the regular store methods inside one transaction. Each operation runs in
+ * its own nested transaction (a SQLite savepoint), so in non-atomic mode a
+ * failed item is undone on its own while the rest commit. In atomic mode the
+ * first failure rolls back the whole batch. Events are delivered only after
+ * the batch commits.
+ */
+
+import { withDeferredEvents } from "./events.js";
+import type {
+  AFSStore,
+  Annotation,
+  AnnotationIntent,
+  AnnotationSeverity,
+  AnnotationStatus,
+  BulkOperation,
+  BulkOperationResult,
+  BulkResult,
+} from "../types.js";
+
+export const MAX_BULK_OPERATIONS = 500;
+
+/**
+ * Runs `fn` in a transaction: commits if it returns, rolls back if it throws.
+ * Must support nesting.
+ */
+export type Transaction = <T>(fn: () => T) => T;
+
+const STATUSES: AnnotationStatus[] = ["pending", "acknowledged", "awaiting_human", "resolved", "dismissed"];
+const SEVERITIES: AnnotationSeverity[] = ["blocking", "important", "suggestion"];
+const INTENTS: AnnotationIntent[] = ["fix", "change", "question", "approve"];
+const ROLES = ["human", "agent"];
+
+// Thrown to unwind an atomic batch after recording the failing item
+class BatchAborted extends Error {}
+
+/**
+ * Validate a request's operations array.
+ * Returns an error message, or undefined if valid.
+ */
+export function validateBulkOperations(operations: unknown): string | undefined {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return "operations must be a non-empty array";
+  }
+  if (operations.length > MAX_BULK_OPERATIONS) {
+    return `At most ${MAX_BULK_OPERATIONS} operations per request`;
+  }
+
+  for (const [index, operation] of operations.entries()) {
+    const { op, id, ...fields } = (operation ?? {}) as Record<string, unknown>;
+    const where = `operations[${index}]`;
+
+    if (typeof id !== "string" || !id) {
+      return `${where}.id is required`;
+    }
+
+    switch (op) {
+      case "status":
+        if (!STATUSES.includes(fields.status as AnnotationStatus)) {
+          return `${where}.status must be one of ${STATUSES.join(", ")}`;
+        }
+        if (fields.resolvedBy !== undefined && !ROLES.includes(fields.resolvedBy as string)) {
+          return `${where}.resolvedBy must be human or agent`;
+        }
+        break;
+      case "update":
+        if (fields.severity === undefined && fields.intent === undefined && !("assigneeId" in fields)) {
+          return `${where} must set severity, intent and/or assigneeId`;
+        }
+        if (fields.severity !== undefined && !SEVERITIES.includes(fields.severity as AnnotationSeverity)) {
+          return `${where}.severity must be one of ${SEVERITIES.join(", ")}`;
+        }
+        if (fields.intent !== undefined && !INTENTS.includes(fields.intent as AnnotationIntent)) {
+          return `${where}.intent must be one of ${INTENTS.join(", ")}`;
+        }
+        if ("assigneeId" in fields && fields.assigneeId !== null && typeof fields.assigneeId !== "string") {
+          return `${where}.assigneeId must be a string or null`;
+        }
+        break;
+      case "reply":
+        if (!ROLES.includes(fields.role as string)) {
+          return `${where}.role must be human or agent`;
+        }
+        if (typeof fields.content !== "string" || !fields.content) {
+          return `${where}.content is required`;
+        }
+        break;
+      case "delete":
+        break;
+      default:
+        return `${where}.op must be status, update, reply, or delete`;
+    }
+  }
+
+  return undefined;
+}
+
+function applyOperation(store: AFSStore, operation: BulkOperation): Annotation {
+  let annotation: Annotation | undefined;
+  switch (operation.op) {
+    case "status":
+      annotation = store.updateAnnotationStatus(operation.id, operation.status, operation.resolvedBy);
+      break;
+    case "update": {
+      const data: Partial<Annotation> = {};
+      if (operation.severity !== undefined) data.severity = operation.severity;
+      if (operation.intent !== undefined) data.intent = operation.intent;
+      if ("assigneeId" in operation) data.assigneeId = operation.assigneeId || undefined;
+      annotation = store.updateAnnotation(operation.id, data);
+      break;
+    }
+    case "reply":
+      annotation = store.addThreadMessage(operation.id, operation.role, operation.content);
+      break;
+    case "delete":
+      annotation = store.deleteAnnotation(operation.id);
+      break;
+  }
+
+  if (!annotation) {
+    throw new Error(`Annotation not found: ${operation.id}`);
+  }
+  return annotation;
+}
+
+/**
+ * Apply validated operations against `store` using its `transaction`.
+ */
+export function runBulkOperations(
+  store: AFSStore,
+  operations: BulkOperation[],
+  atomic: boolean,
+  transaction: Transaction
+): BulkResult {
+  const results: BulkOperationResult[] = [];
+  let committed = true;
+
+  try {
+    withDeferredEvents(() =>
+      transaction(() => {
+        for (const [index, operation] of operations.entries()) {
+          const base = { index, op: operation.op, id: operation.id };
+          try {
+            const annotation = withDeferredEvents(() => transaction(() => applyOperation(store, operation)));
+            results.push({ ...base, ok: true, annotation });
+          } catch (err) {
+            results.push({ ...base, ok: false, error: (err as Error).message });
+            if (atomic) throw new BatchAborted();
+          }
+        }
+      })
+    );
+  } catch (err) {
+    if (!(err instanceof BatchAborted)) throw err;
+    committed = false;
+  }
+
+  if (!committed) {
+    // Report what the rollback undid and what never ran
+    for (const result of results) {
+      if (result.ok) {
+        result.ok = false;
+        result.annotation = undefined;
+        result.error = "Rolled back";
+      }
+    }
+    for (let index = results.length; index < operations.length; index++) {
+      const { op, id } = operations[index];
+      results.push({ index, op, id, ok: false, error: "Skipped: batch rolled back" });
+    }
+  }
+
+  const applied = results.filter((result) => result.ok).length;
+  return { atomic, committed, applied, failed: results.length - applied, results };
+}
@@ -3,13 +3,117 @@
  * Coordinates SSE streams, MCP notifications, and future webhooks.
  */
 
-import type { AFSEvent, AFSEventType, Annotation, Session, ThreadMessage, ActionRequest } from "../types.js";
+import { AsyncLocalStorage } from "async_hooks";
+import type { AFSEvent, AFSEventType, EventActor, FieldChange } from "../types.js";
 
 type EventHandler = (event: AFSEvent) => void;
+type UserEventHandler = (userId: string, event: AFSEvent) => void;
+
+/**
+ * All event types, for validating user-supplied filters.
+ */
+export const AFS_EVENT_TYPES: readonly AFSEventType[] = [
+  "annotation.created",
+  "annotation.updated",
+  "annotation.deleted",
+  "session.created",
+  "session.updated",
+  "session.closed",
+  "thread.message",
+  "action.requested",
+];
 
 // Global sequence counter for event ordering
 let globalSequence = 0;
 
+// Origin stamped on events emitted inside withEventOrigin
+const originContext = new AsyncLocalStorage<string>();
+
+// Actor stamped on events emitted inside withEventActor
+const actorContext = new AsyncLocalStorage<EventActor>();
+
+/**
+ * Prefix of the origin the MCP server sends with its writes, which marks
+ * changes made by an agent.
+ */
+export const MCP_ORIGIN_PREFIX = "mcp-";
+
+// Notifications held back by withDeferredEvents, innermost scope last
+const deferredScopes: Array<Array<() => void>> = [];
+
+function deliver(notify: () => void): void {
+  const scope = deferredScopes[deferredScopes.length - 1];
+  if (scope) {
+    scope.push(notify);
+  } else {
+    notify();
+  }
+}
+
+/**
+ * Run `fn` with subscriber notifications held back until it returns.
+ * If `fn` throws, the held notifications are dropped, so subscribers never
+ * see changes from a rolled-back transaction. Scopes nest: an inner scope
+ * that succeeds hands its notifications to the outer one.
+ *
+ * Events are still created (and sequenced) at emit time; only delivery
+ * is deferred. `fn` must be synchronous.
+ */
+export function withDeferredEvents<T>(fn: () => T): T {
+  const scope: Array<() => void> = [];
+  deferredScopes.push(scope);
+  let result: T;
+  try {
+    result = fn();
+  } finally {
+    deferredScopes.pop();
+  }
+
+  const parent = deferredScopes[deferredScopes.length - 1];
+  if (parent) {
+    parent.push(...scope);
+  } else {
+    for (const notify of scope) notify();
+  }
+  return result;
+}
+
+/**
+ * Run `fn` with every event it emits (including after awaits) tagged with
+ * `origin`, so subscribers can skip echoes of a client's own writes.
+ */
+export function withEventOrigin<T>(origin: string | undefined, fn: () => T): T {
+  return origin ? originContext.run(origin, fn) : fn();
+}
+
+/**
+ * Run `fn` with every event it emits attributed to `actor`, the
+ * authenticated user making the request.
+ */
+export function withEventActor<T>(actor: EventActor | undefined, fn: () => T): T {
+  return actor ? actorContext.run(actor, fn) : fn();
+}
+
+function createEvent(
+  type: AFSEventType,
+  sessionId: string,
+  payload: AFSEvent["payload"],
+  changes?: FieldChange[]
+): AFSEvent {
+  const origin = originContext.getStore();
+  const actor = actorContext.getStore();
+  return {
+    type,
+    timestamp: new Date().toISOString(),
+    sessionId,
+    sequence: ++globalSequence,
+    payload,
+    ...(origin ? { origin } : {}),
+    ...(changes ? { changes } : {}),
+    ...(actor ? { actor } : {}),
+  };
+}
+
 /**
  * Simple pub/sub event bus for AFS events.
  */
@@ -46,21 +150,17 @@ class EventBus {
   }
 
   /**
-   * Emit an event to all subscribers.
+   * Emit an event to all subscribers. Updates pass the fields they
+   * changed (see diffAnnotation).
    */
-  emit(
-    type: AFSEventType,
-    sessionId: string,
-    payload: Annotation | Session | ThreadMessage | ActionRequest
-  ): AFSEvent {
-    const event: AFSEvent = {
-      type,
-      timestamp: new Date().toISOString(),
-      sessionId,
-      sequence: ++globalSequence,
-      payload,
-    };
+  emit(type: AFSEventType, sessionId: string, payload: AFSEvent["payload"], changes?: FieldChange[]): AFSEvent {
+    const event = createEvent(type, sessionId, payload, changes);
 
+    deliver(() => this.notify(event));
+    return event;
+  }
+
+  private notify(event: AFSEvent): void {
     // Notify global subscribers
     for (const handler of this.handlers) {
       try {
@@ -71,7 +171,7 @@ class EventBus {
     }
 
     // Notify session-specific subscribers
-    const sessionHandlers = this.sessionHandlers.get(sessionId);
+    const sessionHandlers = this.sessionHandlers.get(event.sessionId);
     if (sessionHandlers) {
       for (const handler of sessionHandlers) {
         try {
@@ -81,8 +181,6 @@ class EventBus {
         }
       }
     }
-
-    return event;
   }
 
   /**
@@ -114,6 +212,16 @@ export const eventBus = new EventBus();
 class UserEventBus {
   private userHandlers = new Map<string, Set<EventHandler>>();
   private userSessionHandlers = new Map<string, Map<string, Set<EventHandler>>>();
+  private allUserHandlers = new Set<UserEventHandler>();
+
+  /**
+   * Subscribe to every user's events (for server-side consumers like webhooks).
+   * Never expose this to clients.
+   */
+  subscribeAllUsers(handler: UserEventHandler): () => void {
+    this.allUserHandlers.add(handler);
+    return () => this.allUserHandlers.delete(handler);
+  }
 
   /**
    * Subscribe to all events for a specific user.
@@ -178,15 +286,24 @@ class UserEventBus {
     userId: string,
     type: AFSEventType,
     sessionId: string,
-    payload: Annotation | Session | ThreadMessage | ActionRequest
+    payload: AFSEvent["payload"],
+    changes?: FieldChange[]
   ): AFSEvent {
-    const event: AFSEvent = {
-      type,
-      timestamp: new Date().toISOString(),
-      sessionId,
-      sequence: ++globalSequence,
-      payload,
-    };
+    const event = createEvent(type, sessionId, payload, changes);
+
+    deliver(() => this.notify(userId, event));
+    return event;
+  }
+
+  private notify(userId: string, event: AFSEvent): void {
+    // Notify server-side subscribers
+    for (const handler of this.allUserHandlers) {
+      try {
+        handler(userId, event);
+      } catch (err) {
+        console.error("[UserEventBus] Handler error:", err);
+      }
+    }
 
     // Notify user-specific global subscribers
     const userHandlers = this.userHandlers.get(userId);
@@ -203,7 +320,7 @@ class UserEventBus {
     // Notify user-specific session subscribers
     const userSessions = this.userSessionHandlers.get(userId);
     if (userSessions) {
-      const sessionHandlers = userSessions.get(sessionId);
+      const sessionHandlers = userSessions.get(event.sessionId);
       if (sessionHandlers) {
         for (const handler of sessionHandlers) {
           try {
@@ -214,8 +331,6 @@ class UserEventBus {
         }
       }
     }
-
-    return event;
   }
 
   /**
@@ -0,0 +1,412 @@
+/**
+ * Session export and import.
+ *
+ * Exports a session with its annotations and threads as JSON (the archive
+ * format accepted by import), Markdown, CSV or SARIF 2.1.0. Import recreates
+ * sessions from a JSON archive, keeping original IDs and timestamps unless
+ * asked to remap them, or merges them into existing sessions (used by
+ * hybrid-mode replication).
+ */
+
+import type {
+  AFSStore,
+  Annotation,
+  AnnotationIntent,
+  AnnotationSeverity,
+  AnnotationStatus,
+  SessionStatus,
+  SessionWithAnnotations,
+} from "../types.js";
+import { assertAnnotationLimits } from "./limits.js";
+
+export const EXPORT_FORMATS = ["json", "markdown", "csv", "sarif"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const ARCHIVE_VERSION = 1;
+
+export type SessionArchive = {
+  version: number;
+  exportedAt: string;
+  sessions: SessionWithAnnotations[];
+};
+
+export type ExportedFile = {
+  contentType: string;
+  extension: string;
+  body: string;
+};
+
+// -----------------------------------------------------------------------------
+// Export
+// -----------------------------------------------------------------------------
+
+/**
+ * Drop the owning user (present on tenant rows), which means nothing on
+ * another server.
+ */
+function withoutOwner(session: SessionWithAnnotations): SessionWithAnnotations {
+  const { userId: _userId, ...rest } = session as SessionWithAnnotations & { userId?: string };
+  return rest;
+}
+
+/**
+ * Render a session in the requested format.
+ */
+export function exportSession(session: SessionWithAnnotations, format: ExportFormat): ExportedFile {
+  switch (format) {
+    case "json": {
+      const archive: SessionArchive = {
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        sessions: [withoutOwner(session)],
+      };
+      return { contentType: "application/json", extension: "json", body: JSON.stringify(archive, null, 2) };
+    }
+    case "markdown":
+      return { contentType: "text/markdown; charset=utf-8", extension: "md", body: toMarkdown(session) };
+    case "csv":
+      return { contentType: "text/csv; charset=utf-8", extension: "csv", body: toCsv(session) };
+    case "sarif":
+      return {
+        contentType: "application/sarif+json",
+        extension: "sarif",
+        body: JSON.stringify(toSarif(session), null, 2),
+      };
+  }
+}
+
+function toMarkdown(session: SessionWithAnnotations): string {
+  const lines = [
+    `# Agentation Session ${session.id}`,
+    "",
+    `- **URL:** ${session.url}`,
+    `- **Status:** ${session.status}`,
+    `- **Created:** ${session.createdAt}`,
+  ];
+  if (session.updatedAt) lines.push(`- **Updated:** ${session.updatedAt}`);
+  if (session.projectId) lines.push(`- **Project:** ${session.projectId}`);
+  lines.push(`- **Annotations:** ${session.annotations.length}`, "");
+
+  session.annotations.forEach((annotation, i) => {
+    lines.push(`## ${i + 1}. ${annotation.element}`, "");
+    lines.push(`**Location:** \`${annotation.elementPath}\``);
+    const labels = [annotation.status, annotation.intent, annotation.severity].filter(Boolean);
+    if (labels.length > 0) lines.push(`**Labels:** ${labels.join(", ")}`);
+    if (annotation.reactComponents) lines.push(`**React:** ${annotation.reactComponents}`);
+    if (annotation.selectedText) lines.push(`**Selected text:** "${annotation.selectedText}"`);
+    if (annotation.createdAt) lines.push(`**Created:** ${annotation.createdAt}`);
+    if (annotation.resolvedAt) {
+      lines.push(`**Resolved:** ${annotation.resolvedAt}${annotation.resolvedBy ? ` by ${annotation.resolvedBy}` : ""}`);
+    }
+    lines.push("", `**Feedback:** ${annotation.comment}`, "");
+
+    if (annotation.thread?.length) {
+      lines.push("**Thread:**", "");
+      for (const message of annotation.thread) {
+        lines.push(`- _${message.role}_ (${new Date(message.timestamp).toISOString()}): ${message.content}`);
+      }
+      lines.push("");
+    }
+  });
+
+  return lines.join("\n");
+}
+
+const CSV_COLUMNS: Array<[string, (a: Annotation, s: SessionWithAnnotations) => unknown]> = [
+  ["id", (a) => a.id],
+  ["sessionId", (_a, s) => s.id],
+  ["url", (a, s) => a.url ?? s.url],
+  ["status", (a) => a.status],
+  ["intent", (a) => a.intent],
+  ["severity", (a) => a.severity],
+  ["element", (a) => a.element],
+  ["elementPath", (a) => a.elementPath],
+  ["reactComponents", (a) => a.reactComponents],
+  ["comment", (a) => a.comment],
+  ["selectedText", (a) => a.selectedText],
+  ["threadMessages", (a) => a.thread?.length ?? 0],
+  ["createdAt", (a) => a.createdAt],
+  ["updatedAt", (a) => a.updatedAt],
+  ["resolvedAt", (a) => a.resolvedAt],
+  ["resolvedBy", (a) => a.resolvedBy],
+];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(session: SessionWithAnnotations): string {
+  const rows = [CSV_COLUMNS.map(([name]) => name).join(",")];
+  for (const annotation of session.annotations) {
+    rows.push(CSV_COLUMNS.map(([, get]) => csvCell(get(annotation, session))).join(","));
+  }
+  return rows.join("\r\n") + "\r\n";
+}
+
+const SARIF_LEVELS: Record<AnnotationSeverity, "error" | "warning" | "note"> = {
+  blocking: "error",
+  important: "warning",
+  suggestion: "note",
+};
+
+// Rules are the annotation intents, plus a catch-all for annotations without one
+const SARIF_RULE_IDS = ["fix", "change", "question", "approve", "feedback"];
+
+function toSarifResult(annotation: Annotation, session: SessionWithAnnotations): Record<string, unknown> {
+  const ruleId = annotation.intent ?? "feedback";
+  // Closed feedback stays in the log as a pass; SARIF requires level "none" then
+  const open = annotation.status !== "resolved" && annotation.status !== "dismissed";
+
+  return {
+    ruleId,
+    ruleIndex: SARIF_RULE_IDS.indexOf(ruleId),
+    kind: open ? "fail" : "pass",
+    level: !open ? "none" : annotation.severity ? SARIF_LEVELS[annotation.severity] : "warning",
+    message: { text: annotation.comment },
+    fingerprints: { "agentation/annotationId/v1": annotation.id },
+    locations: [
+      {
+        physicalLocation: { artifactLocation: { uri: annotation.url ?? session.url } },
+        logicalLocations: [
+          { name: annotation.element, fullyQualifiedName: annotation.elementPath, kind: "element" },
+        ],
+      },
+    ],
+    properties: {
+      sessionId: session.id,
+      status: annotation.status,
+      severity: annotation.severity,
+      reactComponents: annotation.reactComponents,
+      selectedText: annotation.selectedText,
+      createdAt: annotation.createdAt,
+      resolvedAt: annotation.resolvedAt,
+      resolvedBy: annotation.resolvedBy,
+      thread: annotation.thread,
+    },
+  };
+}
+
+/**
+ * Build a SARIF 2.1.0 log with one result per annotation. Annotations carry
+ * no source file, so the artifact is the page URL and the element path is a
+ * logical location.
+ */
+function toSarif(session: SessionWithAnnotations): Record<string, unknown> {
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "agentation",
+            informationUri: "https://github.com/benjitaylor/agentation",
+            rules: SARIF_RULE_IDS.map((id) => ({ id, shortDescription: { text: `Agentation ${id} annotation` } })),
+          },
+        },
+        automationDetails: { id: `agentation/${session.id}` },
+        results: session.annotations.map((annotation) => toSarifResult(annotation, session)),
+      },
+    ],
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Import
+// -----------------------------------------------------------------------------
+
+export type ImportResult = {
+  imported: Array<{ sourceId: string; id: string; annotations: number }>;
+  skipped: Array<{ sourceId: string; reason: string }>;
+};
+
+function generateId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const SESSION_STATUSES: SessionStatus[] = ["active", "approved", "closed"];
+const ANNOTATION_STATUSES: AnnotationStatus[] = ["pending", "acknowledged", "awaiting_human", "resolved", "dismissed"];
+const INTENTS: AnnotationIntent[] = ["fix", "change", "question", "approve"];
+const SEVERITIES: AnnotationSeverity[] = ["blocking", "important", "suggestion"];
+const ROLES = ["human", "agent"];
+
+// Imported IDs end up in URL paths, so they are held to the characters our
+// own IDs (and UUIDs) use
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+const isId = (value: unknown) => typeof value === "string" && ID_PATTERN.test(value);
+const isNumber = (value: unknown) => typeof value === "number" && Number.isFinite(value);
+// Exports from the SQLite store carry null for unset columns
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value == null || check(value);
+const isOneOf = (values: readonly string[]) => (value: unknown) => values.includes(value as string);
+const isString = (value: unknown) => typeof value === "string";
+
+/**
+ * Check one imported annotation. Returns an error message, or undefined if
+ * valid.
+ */
+function validateImportedAnnotation(annotation: Annotation, where: string): string | undefined {
+  if (!isId(annotation?.id)) {
+    return `${where}.id must be 1-128 letters, digits, _ or -`;
+  }
+  if (!isString(annotation.comment) || !isString(annotation.element) || !isString(annotation.elementPath)) {
+    return `${where} must have comment, element and elementPath`;
+  }
+  if (!isNumber(annotation.x) || !isNumber(annotation.y) || !isNumber(annotation.timestamp)) {
+    return `${where} must have numeric x, y and timestamp`;
+  }
+  if (!isOptional(annotation.status, isOneOf(ANNOTATION_STATUSES))) {
+    return `${where}.status must be one of ${ANNOTATION_STATUSES.join(", ")}`;
+  }
+  if (!isOptional(annotation.intent, isOneOf(INTENTS))) {
+    return `${where}.intent must be one of ${INTENTS.join(", ")}`;
+  }
+  if (!isOptional(annotation.severity, isOneOf(SEVERITIES))) {
+    return `${where}.severity must be one of ${SEVERITIES.join(", ")}`;
+  }
+  if (!isOptional(annotation.resolvedBy, isOneOf(ROLES))) {
+    return `${where}.resolvedBy must be human or agent`;
+  }
+  if (!isOptional(annotation.version, (v) => Number.isInteger(v) && (v as number) >= 1)) {
+    return `${where}.version must be a positive integer`;
+  }
+  for (const field of ["createdAt", "updatedAt", "resolvedAt", "assigneeId", "authorId"] as const) {
+    if (!isOptional(annotation[field], isString)) {
+      return `${where}.${field} must be a string`;
+    }
+  }
+
+  if (annotation.thread != null) {
+    if (!Array.isArray(annotation.thread)) {
+      return `${where}.thread must be an array`;
+    }
+    for (const [k, message] of annotation.thread.entries()) {
+      if (
+        !isString(message?.id) ||
+        !ROLES.includes(message.role) ||
+        !isString(message.content) ||
+        !isNumber(message.timestamp)
+      ) {
+        return `${where}.thread[${k}] must have id, role (human or agent), content and a numeric timestamp`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract sessions from an import body: a full archive, or a single
+ * exported session. Returns an error message if the shape is wrong.
+ */
+export function parseArchive(body: unknown): SessionWithAnnotations[] | string {
+  const record = (body ?? {}) as Partial<SessionArchive> & Partial<SessionWithAnnotations>;
+  const sessions = Array.isArray(record.sessions) ? record.sessions : record.id ? [record as SessionWithAnnotations] : undefined;
+  if (!sessions || sessions.length === 0) {
+    return "Body must be an export archive with a sessions array";
+  }
+  if (record.version !== undefined && record.version > ARCHIVE_VERSION) {
+    return `Unsupported archive version ${record.version}`;
+  }
+
+  for (const [i, session] of sessions.entries()) {
+    if (!isString(session?.id) || !isString(session.url) || !Array.isArray(session.annotations)) {
+      return `sessions[${i}] must have id, url and annotations`;
+    }
+    if (!isId(session.id)) {
+      return `sessions[${i}].id must be 1-128 letters, digits, _ or -`;
+    }
+    if (!isOptional(session.status, isOneOf(SESSION_STATUSES))) {
+      return `sessions[${i}].status must be one of ${SESSION_STATUSES.join(", ")}`;
+    }
+    for (const field of ["createdAt", "updatedAt", "projectId"] as const) {
+      if (!isOptional(session[field], isString)) {
+        return `sessions[${i}].${field} must be a string`;
+      }
+    }
+    if (!isOptional(session.metadata, (value) => typeof value === "object" && !Array.isArray(value))) {
+      return `sessions[${i}].metadata must be an object`;
+    }
+
+    for (const [j, annotation] of session.annotations.entries()) {
+      const error = validateImportedAnnotation(annotation, `sessions[${i}].annotations[${j}]`);
+      if (error) return error;
+    }
+  }
+  return sessions;
+}
+
+/**
+ * Give a session and its annotations fresh IDs, keeping everything else.
+ */
+function remapIds(session: SessionWithAnnotations): SessionWithAnnotations {
+  const id = generateId();
+  return {
+    ...session,
+    id,
+    annotations: session.annotations.map((annotation) => ({
+      ...annotation,
+      id: generateId(),
+      sessionId: id,
+    })),
+  };
+}
+
+/**
+ * Import sessions into the store. Without `remap`, a session whose ID (or
+ * any annotation ID) already exists is skipped rather than overwritten.
+ * With `merge`, existing sessions and annotations are updated instead,
+ * keeping whichever copy is newer.
+ *
+ * The store may be scoped to one user: an ID taken by a record the caller
+ * can't see gets a fresh one rather than a conflict that would give it
+ * away, and a project ID that isn't the caller's is dropped.
+ */
+export function importSessions(
+  store: AFSStore,
+  sessions: SessionWithAnnotations[],
+  options: { remap?: boolean; merge?: boolean } = {}
+): ImportResult {
+  const result: ImportResult = { imported: [], skipped: [] };
+
+  // The stores check these too; checking up front means an archive over
+  // the caps imports nothing rather than the sessions before the bad one
+  for (const source of sessions) {
+    source.annotations.forEach(assertAnnotationLimits);
+  }
+
+  for (const source of sessions) {
+    const session = withoutOwner(options.remap ? remapIds(source) : source);
+    const data: SessionWithAnnotations = {
+      ...session,
+      status: session.status ?? "active",
+      createdAt: session.createdAt ?? new Date().toISOString(),
+      projectId: session.projectId && store.getProject(session.projectId) ? session.projectId : undefined,
+      annotations: session.annotations.map((annotation) => ({ ...annotation, sessionId: session.id })),
+    };
+
+    if (!options.merge && hasVisibleConflict(store, data)) {
+      result.skipped.push({ sourceId: source.id, reason: "Session or annotation ID already exists" });
+      continue;
+    }
+    const created =
+      (options.merge ? store.mergeSession(data) : store.importSession(data)) ?? store.importSession(remapIds(data));
+
+    if (created) {
+      result.imported.push({ sourceId: source.id, id: created.id, annotations: session.annotations.length });
+    } else {
+      result.skipped.push({ sourceId: source.id, reason: "Session or annotation ID already exists" });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether the session or one of its annotations already exists where the
+ * store's user can see it.
+ */
+function hasVisibleConflict(store: AFSStore, session: SessionWithAnnotations): boolean {
+  return !!store.getSession(session.id) || session.annotations.some((annotation) => store.getAnnotation(annotation.id));
+}
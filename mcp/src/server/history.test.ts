@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import type { AFSEvent, Annotation } from "../types.js";
+import { buildAnnotationHistory, diffAnnotation } from "./history.js";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const base: Annotation = {
+  id: "a1",
+  sessionId: "s1",
+  x: 10,
+  y: 20,
+  comment: "Fix the padding",
+  element: "button",
+  elementPath: "body > button",
+  timestamp: 1_700_000_000_000,
+  status: "pending",
+  version: 1,
+};
+
+let sequence = 0;
+
+function event(type: AFSEvent["type"], payload: AFSEvent["payload"], extra: Partial<AFSEvent> = {}): AFSEvent {
+  sequence += 1;
+  return { type, timestamp: new Date(sequence * 1000).toISOString(), sessionId: "s1", sequence, payload, ...extra };
+}
+
+// =============================================================================
+// diffAnnotation
+// =============================================================================
+
+describe("diffAnnotation", () => {
+  it("lists changed fields with their old and new values", () => {
+    const after = { ...base, comment: "Fix the margin", severity: "blocking" as const };
+
+    expect(diffAnnotation(base, after)).toEqual([
+      { field: "comment", from: "Fix the padding", to: "Fix the margin" },
+      { field: "severity", to: "blocking" },
+    ]);
+  });
+
+  it("omits `to` for a cleared field", () => {
+    const before = { ...base, assigneeId: "alice" };
+
+    expect(diffAnnotation(before, { ...base, assigneeId: undefined })).toEqual([{ field: "assigneeId", from: "alice" }]);
+  });
+
+  it("ignores bookkeeping fields and the thread", () => {
+    const after = {
+      ...base,
+      version: 2,
+      updatedAt: new Date().toISOString(),
+      thread: [{ id: "m1", role: "agent" as const, content: "On it", timestamp: 1 }],
+    };
+
+    expect(diffAnnotation(base, after)).toEqual([]);
+  });
+});
+
+// =============================================================================
+// buildAnnotationHistory
+// =============================================================================
+
+describe("buildAnnotationHistory", () => {
+  it("turns each event into an entry, oldest first", () => {
+    const resolved = { ...base, status: "resolved" as const, resolvedBy: "agent" as const, version: 3 };
+    const events = [
+      event("annotation.created", base, { actor: { userId: "u1" } }),
+      event("annotation.updated", { ...base, severity: "blocking", version: 2 }, {
+        changes: [{ field: "severity", to: "blocking" }],
+        origin: "tab-1",
+      }),
+      event("thread.message", { annotationId: "a1", id: "m1", role: "human", content: "Please", timestamp: 1 }),
+      event("annotation.updated", resolved, {
+        changes: [{ field: "status", from: "pending", to: "resolved" }],
+        origin: "mcp-1234",
+      }),
+      event("annotation.deleted", resolved),
+    ];
+
+    const history = buildAnnotationHistory("a1", events, undefined);
+
+    expect(history.complete).toBe(true);
+    expect(history.annotation).toBeUndefined();
+    expect(history.entries.map((entry) => entry.action)).toEqual([
+      "created",
+      "updated",
+      "replied",
+      "status_changed",
+      "deleted",
+    ]);
+    expect(history.entries[0]).toMatchObject({ by: { userId: "u1" }, annotation: base });
+    expect(history.entries[1]).toMatchObject({ by: { origin: "tab-1" }, changes: [{ field: "severity", to: "blocking" }] });
+    expect(history.entries[2]).toMatchObject({ by: { role: "human" }, message: { id: "m1", content: "Please" } });
+    expect(history.entries[3].by).toEqual({ origin: "mcp-1234", role: "agent" });
+  });
+
+  it("diffs updates that predate recorded changes against the previous snapshot", () => {
+    const events = [
+      event("annotation.created", base),
+      event("annotation.updated", { ...base, comment: "Fix the margin", version: 2 }),
+      // A write that only touched bookkeeping fields leaves no entry
+      event("annotation.updated", { ...base, comment: "Fix the margin", version: 3 }),
+    ];
+
+    const history = buildAnnotationHistory("a1", events, { ...base, comment: "Fix the margin", version: 3 });
+
+    expect(history.entries.map((entry) => entry.action)).toEqual(["created", "updated"]);
+    expect(history.entries[1].changes).toEqual([{ field: "comment", from: "Fix the padding", to: "Fix the margin" }]);
+    expect(history.annotation?.version).toBe(3);
+  });
+
+  it("is incomplete when retention pruned the creation", () => {
+    const updated = { ...base, comment: "Fix the margin", version: 2 };
+
+    const history = buildAnnotationHistory("a1", [event("annotation.updated", updated)], updated);
+
+    expect(history.complete).toBe(false);
+    // Nothing earlier to diff against, so the entry carries the snapshot
+    expect(history.entries).toEqual([expect.objectContaining({ action: "updated", annotation: updated })]);
+  });
+});
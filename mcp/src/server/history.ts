@@ -0,0 +1,147 @@
+/**
+ * Annotation audit history, reconstructed from the event log.
+ *
+ * Updates record the fields they changed on the event (see diffAnnotation).
+ * Events written before that, and merges from another replica, carry only
+ * the annotation snapshot; for those the change is worked out against the
+ * previous snapshot in the log, when there is one.
+ */
+
+import type {
+  AFSEvent,
+  Annotation,
+  EventActor,
+  FieldChange,
+  ThreadMessage,
+  ThreadMessageEvent,
+} from "../types.js";
+import { MCP_ORIGIN_PREFIX } from "./events.js";
+
+// Bookkeeping fields that change on every write; thread messages have their own entries
+const UNTRACKED_FIELDS = new Set(["updatedAt", "version", "thread"]);
+
+export type AnnotationHistoryAction = "created" | "updated" | "status_changed" | "replied" | "deleted";
+
+/**
+ * Who made a change, as far as the log can tell.
+ */
+export type HistoryActor = Partial<EventActor> & {
+  role?: "human" | "agent";
+  authorId?: string; // Annotation author, on creation
+  origin?: string; // Client that made the change (X-Agentation-Origin)
+};
+
+export type AnnotationHistoryEntry = {
+  sequence: number;
+  timestamp: string;
+  action: AnnotationHistoryAction;
+  by: HistoryActor;
+  changes?: FieldChange[]; // updated, status_changed
+  message?: ThreadMessage; // replied
+  annotation?: Annotation; // created (as first submitted), deleted (final state), or an update with no earlier snapshot
+};
+
+export type AnnotationHistory = {
+  annotationId: string;
+  annotation?: Annotation; // Current state; absent once deleted
+  complete: boolean; // False if retention pruned the start of the timeline
+  entries: AnnotationHistoryEntry[];
+};
+
+/**
+ * Fields that differ between two versions of an annotation.
+ */
+export function diffAnnotation(before: Annotation, after: Annotation): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const field of fields) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+    // The SQLite store reads unset columns back as null
+    const from = before[field as keyof Annotation] ?? undefined;
+    const to = after[field as keyof Annotation] ?? undefined;
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+    changes.push({
+      field,
+      ...(from !== undefined ? { from } : {}),
+      ...(to !== undefined ? { to } : {}),
+    });
+  }
+  return changes;
+}
+
+/**
+ * The annotation whose history an event belongs to, if any.
+ */
+export function eventAnnotationId(event: AFSEvent): string | undefined {
+  if (event.type === "thread.message") return (event.payload as ThreadMessageEvent).annotationId;
+  return event.type.startsWith("annotation.") ? (event.payload as Annotation).id : undefined;
+}
+
+/**
+ * Whether an event belongs to the annotation's history.
+ */
+export function isAnnotationEvent(event: AFSEvent, annotationId: string): boolean {
+  return eventAnnotationId(event) === annotationId;
+}
+
+function describeActor(event: AFSEvent, role?: "human" | "agent"): HistoryActor {
+  const actor: HistoryActor = { ...event.actor };
+  if (event.origin) actor.origin = event.origin;
+  const inferred = role ?? (event.origin?.startsWith(MCP_ORIGIN_PREFIX) ? "agent" : undefined);
+  if (inferred) actor.role = inferred;
+  return actor;
+}
+
+/**
+ * Build an annotation's timeline from its events (oldest first).
+ */
+export function buildAnnotationHistory(
+  annotationId: string,
+  events: AFSEvent[],
+  current: Annotation | undefined
+): AnnotationHistory {
+  const entries: AnnotationHistoryEntry[] = [];
+  let previous: Annotation | undefined;
+
+  for (const event of events) {
+    const base = { sequence: event.sequence, timestamp: event.timestamp };
+
+    if (event.type === "thread.message") {
+      const { annotationId: _, ...message } = event.payload as ThreadMessageEvent;
+      entries.push({ ...base, action: "replied", by: describeActor(event, message.role), message });
+      continue;
+    }
+
+    const annotation = event.payload as Annotation;
+    if (event.type === "annotation.created") {
+      const by = describeActor(event);
+      if (annotation.authorId) by.authorId = annotation.authorId;
+      entries.push({ ...base, action: "created", by, annotation });
+    } else if (event.type === "annotation.deleted") {
+      entries.push({ ...base, action: "deleted", by: describeActor(event), annotation });
+    } else {
+      const changes = event.changes ?? (previous ? diffAnnotation(previous, annotation) : undefined);
+      if (!changes) {
+        entries.push({ ...base, action: "updated", by: describeActor(event), annotation });
+      } else if (changes.length > 0) {
+        const statusChange = changes.find((change) => change.field === "status");
+        // Resolving and dismissing record who did it
+        const closed = statusChange?.to === "resolved" || statusChange?.to === "dismissed";
+        entries.push({
+          ...base,
+          action: statusChange ? "status_changed" : "updated",
+          by: describeActor(event, closed ? annotation.resolvedBy : undefined),
+          changes,
+        });
+      }
+    }
+    previous = annotation;
+  }
+
+  return {
+    annotationId,
+    ...(current ? { annotation: current } : {}),
+    complete: events[0]?.type === "annotation.created",
+    entries,
+  };
+}
@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { once } from "events";
+import { mkdtempSync, rmSync } from "fs";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { startHttpServer } from "./http.js";
+import { createTenantStore } from "./sqlite.js";
+import { getStore } from "./store.js";
+import {
+  createApiKey,
+  createOrganization,
+  createUser,
+  resetTenantStore,
+  setTenantStore,
+} from "./tenant-store.js";
+
+// Webhook subscriptions and projects live in the global store
+process.env.AGENTATION_STORE = "memory";
+
+const ALLOWED_ORIGIN = "http://localhost:3000";
+
+let server: Server;
+let baseUrl: string;
+let dir: string;
+let aliceKey: string;
+let bobKey: string;
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), "agentation-auth-"));
+  setTenantStore(createTenantStore(join(dir, "store.db")));
+  const org = createOrganization("Acme");
+  aliceKey = createApiKey(createUser("alice@example.com", org.id).id, "laptop").rawKey;
+  bobKey = createApiKey(createUser("bob@example.com", org.id).id, "laptop").rawKey;
+
+  // Without TLS options this is a plain HTTP server
+  server = startHttpServer(0, undefined, { requireAuth: true, allowedOrigins: [ALLOWED_ORIGIN] }) as Server;
+  await once(server, "listening");
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  server.close();
+  await once(server, "close");
+  resetTenantStore();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function request(
+  method: string,
+  path: string,
+  key: string | undefined,
+  body?: unknown,
+  headers: Record<string, string> = {}
+) {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", ...(key ? { "x-api-key": key } : {}), ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+// =============================================================================
+// CORS
+// =============================================================================
+
+describe("CORS allow-list", () => {
+  it("allows the operator's origins", async () => {
+    const res = await request("GET", "/sessions", aliceKey, undefined, { Origin: ALLOWED_ORIGIN });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("access-control-allow-origin")).toBe(ALLOWED_ORIGIN);
+  });
+
+  it("is not widened by a tenant's project origins", async () => {
+    const created = await request("POST", "/projects", bobKey, {
+      name: "Bob's",
+      urlPatterns: ["https://evil.example/*"],
+      allowedOrigins: ["https://evil.example"],
+    });
+    expect(created.status).toBe(201);
+
+    const res = await request("GET", "/sessions", aliceKey, undefined, { Origin: "https://evil.example" });
+
+    expect(res.status).toBe(403);
+    expect(res.headers.get("access-control-allow-origin")).toBeNull();
+  });
+
+  it("is widened by a project created without a key", async () => {
+    getStore().createProject({
+      name: "Shared",
+      urlPatterns: ["https://lan.example/*"],
+      allowedOrigins: ["https://lan.example"],
+    });
+    // Pick up a project written outside the HTTP API
+    await request("POST", "/projects", aliceKey, { name: "Alice's", urlPatterns: ["http://localhost:4000/*"] });
+
+    const res = await request("GET", "/sessions", aliceKey, undefined, { Origin: "https://lan.example" });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("access-control-allow-origin")).toBe("https://lan.example");
+  });
+});
+
+// =============================================================================
+// Import
+// =============================================================================
+
+describe("import across users", () => {
+  async function aliceSession() {
+    const project = await (
+      await request("POST", "/projects", aliceKey, { name: "Alice's app", urlPatterns: ["http://localhost:5000/*"] })
+    ).json();
+    const session = await (await request("POST", "/sessions", aliceKey, { url: "http://localhost:5000/" })).json();
+    await request("POST", `/sessions/${session.id}/annotations`, aliceKey, {
+      x: 10,
+      y: 20,
+      comment: "Alice's note",
+      element: "button",
+      elementPath: "body > button",
+      timestamp: Date.now(),
+    });
+    const archive = await (await request("GET", `/sessions/${session.id}/export`, aliceKey)).json();
+    return { project, session, archive };
+  }
+
+  it.each([
+    ["a plain import", ""],
+    ["a merge", "?merge=true"],
+  ])("gives another user's IDs fresh ones on %s", async (_name, query) => {
+    const { session, archive } = await aliceSession();
+    const sourceAnnotationId = archive.sessions[0].annotations[0].id;
+
+    const res = await request("POST", `/import${query}`, bobKey, archive);
+    const result = await res.json();
+
+    expect(res.status).toBe(query ? 200 : 201);
+    expect(result.skipped).toEqual([]);
+    expect(result.imported).toHaveLength(1);
+    expect(result.imported[0].sourceId).toBe(session.id);
+    expect(result.imported[0].id).not.toBe(session.id);
+
+    const imported = await (await request("GET", `/sessions/${result.imported[0].id}`, bobKey)).json();
+    expect(imported.annotations.map((a: { comment: string }) => a.comment)).toEqual(["Alice's note"]);
+    expect(imported.annotations[0].id).not.toBe(sourceAnnotationId);
+
+    // Alice's copy is untouched and still hers alone
+    expect((await request("GET", `/sessions/${session.id}`, aliceKey)).status).toBe(200);
+    expect((await request("GET", `/sessions/${session.id}`, bobKey)).status).toBe(404);
+  });
+
+  it("still reports a conflict with the caller's own IDs", async () => {
+    const { session, archive } = await aliceSession();
+
+    const res = await request("POST", "/import", aliceKey, archive);
+
+    expect(res.status).toBe(409);
+    expect((await res.json()).skipped).toEqual([
+      { sourceId: session.id, reason: "Session or annotation ID already exists" },
+    ]);
+  });
+
+  it("drops a project ID that isn't the caller's", async () => {
+    const { project, archive } = await aliceSession();
+    archive.sessions[0].projectId = project.id;
+
+    const result = await (await request("POST", "/import?remap=true", bobKey, archive)).json();
+    const imported = await (await request("GET", `/sessions/${result.imported[0].id}`, bobKey)).json();
+
+    expect(imported.projectId).toBeFalsy();
+  });
+});
+
+// =============================================================================
+// Status and metrics
+// =============================================================================
+
+describe("status and metrics", () => {
+  it("only count the caller's own annotations and events", async () => {
+    const carolKey = createApiKey(createUser("carol@example.com", createOrganization("Carol's").id).id, "laptop").rawKey;
+    const sequenceBefore = (await (await request("GET", "/status", carolKey)).json()).eventSequence;
+
+    const session = await (await request("POST", "/sessions", aliceKey, { url: "http://localhost:3000/" })).json();
+    await request("POST", `/sessions/${session.id}/annotations`, aliceKey, {
+      x: 10,
+      y: 20,
+      comment: "Alice's note",
+      element: "button",
+      elementPath: "body > button",
+      timestamp: Date.now(),
+    });
+
+    expect((await (await request("GET", "/status", carolKey)).json()).eventSequence).toBe(sequenceBefore);
+    expect((await (await request("GET", "/status", aliceKey)).json()).eventSequence).toBeGreaterThan(sequenceBefore);
+
+    const carolMetrics = await (await request("GET", "/metrics", carolKey)).text();
+    const aliceMetrics = await (await request("GET", "/metrics", aliceKey)).text();
+    expect(carolMetrics).not.toMatch(/^agentation_annotations\{/m);
+    expect(aliceMetrics).toMatch(/^agentation_annotations\{status="pending",severity="none"\} [1-9]/m);
+  });
+});
+
+// =============================================================================
+// Rate limits
+// =============================================================================
+
+describe("rate limits", () => {
+  // Each API key has its own buckets, so every test starts with a fresh one
+  function freshKey(): string {
+    return createApiKey(createUser(`${Math.random().toString(36).slice(2)}@example.com`, createOrganization("Org").id).id, "laptop").rawKey;
+  }
+
+  async function createSessions(key: string, count: number): Promise<number[]> {
+    const statuses: number[] = [];
+    for (let i = 0; i < count; i++) {
+      statuses.push((await request("POST", "/sessions", key, { url: "http://localhost:3000/" })).status);
+    }
+    return statuses;
+  }
+
+  it("answers 429 with Retry-After once a key uses up its budget", async () => {
+    const key = freshKey();
+
+    expect(new Set(await createSessions(key, 30))).toEqual(new Set([201]));
+    const res = await request("POST", "/sessions", key, { url: "http://localhost:3000/" });
+
+    expect(res.status).toBe(429);
+    const retryAfter = Number(res.headers.get("retry-after"));
+    expect(retryAfter).toBeGreaterThanOrEqual(1);
+    expect(retryAfter).toBeLessThanOrEqual(60);
+    expect(await res.json()).toEqual({ error: "Too many requests", retryAfter });
+  });
+
+  it("keeps each key's budget separate", async () => {
+    const spent = freshKey();
+    await createSessions(spent, 31);
+
+    expect(await createSessions(freshKey(), 1)).toEqual([201]);
+  });
+
+  it("leaves reads unlimited", async () => {
+    const key = freshKey();
+    await createSessions(key, 31);
+
+    expect((await request("GET", "/sessions", key)).status).toBe(200);
+  });
+
+  it("charges each reply in a bulk request against the thread budget", async () => {
+    const key = freshKey();
+    const session = await (await request("POST", "/sessions", key, { url: "http://localhost:3000/" })).json();
+    const annotation = await (
+      await request("POST", `/sessions/${session.id}/annotations`, key, {
+        x: 10,
+        y: 20,
+        comment: "Fix it",
+        element: "button",
+        elementPath: "body > button",
+        timestamp: Date.now(),
+      })
+    ).json();
+    const replies = (count: number) =>
+      Array.from({ length: count }, () => ({ op: "reply", id: annotation.id, role: "agent", content: "On it" }));
+
+    expect((await request("POST", "/annotations/bulk", key, { operations: replies(120) })).status).toBe(200);
+    const res = await request("POST", `/annotations/${annotation.id}/thread`, key, { role: "agent", content: "Again" });
+
+    expect(res.status).toBe(429);
+  });
+});
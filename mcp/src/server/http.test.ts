@@ -0,0 +1,618 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { once } from "events";
+import { mkdtempSync, rmSync } from "fs";
+import { request as httpRequest, type Server } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { startHttpServer } from "./http.js";
+import { eventBus } from "./events.js";
+import { createSQLiteStore } from "./sqlite.js";
+import { clearAll, setStore } from "./store.js";
+
+process.env.AGENTATION_STORE = "memory";
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  // Without TLS options this is a plain HTTP server
+  server = startHttpServer(0, undefined, {
+    maxBodyBytes: MAX_BODY_BYTES,
+    // Rate limits are covered in http-auth.test.ts, where each test can use a fresh key
+    rateLimits: { session: false, annotation: false, thread: false, action: false },
+  }) as Server;
+  await once(server, "listening");
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  server.close();
+  await once(server, "close");
+});
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function request(method: string, path: string, body?: unknown, headers: Record<string, string> = {}) {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+async function createAnnotation(comment = "Fix the padding") {
+  const session = await (await request("POST", "/sessions", { url: "http://localhost:3000/" })).json();
+  const res = await request("POST", `/sessions/${session.id}/annotations`, {
+    x: 10,
+    y: 20,
+    comment,
+    element: "button",
+    elementPath: "body > button",
+    timestamp: Date.now(),
+  });
+  return { session, annotation: await res.json() };
+}
+
+/**
+ * Send a body in chunks without a Content-Length, so only the server's
+ * running count can catch an oversized one.
+ */
+function postChunked(path: string, body: string): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = httpRequest(`${baseUrl}${path}`, { method: "POST", headers: { "Content-Type": "application/json" } });
+    req.on("response", (res) => {
+      let data = "";
+      res.on("data", (chunk) => (data += chunk));
+      res.on("end", () => resolve({ status: res.statusCode!, body: data }));
+    });
+    req.on("error", reject);
+    for (let i = 0; i < body.length; i += 1024) req.write(body.slice(i, i + 1024));
+    req.end();
+  });
+}
+
+type SSEFrame = { event?: string; id?: string; data?: string };
+
+/**
+ * Open an SSE stream. readUntil() collects frames (comments excluded) until
+ * the predicate holds, failing after five seconds.
+ */
+async function openStream(path: string, headers: Record<string, string> = {}) {
+  const controller = new AbortController();
+  const res = await fetch(`${baseUrl}${path}`, { headers, signal: controller.signal });
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  const frames: SSEFrame[] = [];
+  let buffer = "";
+
+  async function readUntil(done: (frames: SSEFrame[]) => boolean): Promise<SSEFrame[]> {
+    const timeout = setTimeout(() => controller.abort(), 5000);
+    try {
+      while (!done(frames)) {
+        const { value, done: ended } = await reader.read();
+        if (ended) break;
+        buffer += value;
+        let end: number;
+        while ((end = buffer.indexOf("\n\n")) !== -1) {
+          const frame: SSEFrame = {};
+          for (const line of buffer.slice(0, end).split("\n")) {
+            const [field, ...rest] = line.split(": ");
+            if (field === "event" || field === "id" || field === "data") frame[field] = rest.join(": ");
+          }
+          buffer = buffer.slice(end + 2);
+          if (frame.event || frame.data) frames.push(frame);
+        }
+      }
+      return frames;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  return { res, readUntil, close: () => controller.abort() };
+}
+
+const hasId = (sequence: number) => (frames: SSEFrame[]) => frames.some((f) => f.id === String(sequence));
+const hasEvent = (type: string) => (frames: SSEFrame[]) => frames.some((f) => f.event === type);
+
+// =============================================================================
+// If-Match
+// =============================================================================
+
+describe("If-Match", () => {
+  it("returns the version as a strong ETag", async () => {
+    const { annotation } = await createAnnotation();
+
+    const res = await request("GET", `/annotations/${annotation.id}`);
+
+    expect(res.headers.get("etag")).toBe('"1"');
+  });
+
+  it("applies an update whose If-Match is current", async () => {
+    const { annotation } = await createAnnotation();
+
+    const res = await request("PATCH", `/annotations/${annotation.id}`, { comment: "Fix the margin" }, { "If-Match": '"1"' });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("etag")).toBe('"2"');
+    expect(await res.json()).toMatchObject({ comment: "Fix the margin", version: 2 });
+  });
+
+  it("responds 412 with the current annotation when If-Match is stale", async () => {
+    const { annotation } = await createAnnotation();
+    await request("PATCH", `/annotations/${annotation.id}`, { comment: "Fix the margin" });
+
+    const res = await request("PATCH", `/annotations/${annotation.id}`, { comment: "Fix the border" }, { "If-Match": '"1"' });
+
+    expect(res.status).toBe(412);
+    expect(res.headers.get("etag")).toBe('"2"');
+    const body = await res.json();
+    expect(body.currentVersion).toBe(2);
+    expect(body.annotation).toMatchObject({ id: annotation.id, comment: "Fix the margin", version: 2 });
+
+    const current = await (await request("GET", `/annotations/${annotation.id}`)).json();
+    expect(current.comment).toBe("Fix the margin");
+  });
+
+  it("responds 412 to a tag that is not a version", async () => {
+    const { annotation } = await createAnnotation();
+
+    const res = await request("PATCH", `/annotations/${annotation.id}`, { comment: "Fix the margin" }, { "If-Match": '"abc"' });
+
+    expect(res.status).toBe(412);
+  });
+
+  it("accepts any version for If-Match: *", async () => {
+    const { annotation } = await createAnnotation();
+    await request("PATCH", `/annotations/${annotation.id}`, { comment: "Fix the margin" });
+
+    const res = await request("PATCH", `/annotations/${annotation.id}`, { comment: "Fix the border" }, { "If-Match": "*" });
+
+    expect(res.status).toBe(200);
+  });
+
+  it("responds 412 to a reply whose If-Match is stale", async () => {
+    const { annotation } = await createAnnotation();
+    await request("PATCH", `/annotations/${annotation.id}`, { comment: "Fix the margin" });
+
+    const res = await request(
+      "POST",
+      `/annotations/${annotation.id}/thread`,
+      { role: "agent", content: "On it" },
+      { "If-Match": '"1"' }
+    );
+
+    expect(res.status).toBe(412);
+    const current = await (await request("GET", `/annotations/${annotation.id}`)).json();
+    expect(current.thread ?? []).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Last-Event-ID
+// =============================================================================
+
+describe("Last-Event-ID", () => {
+  it("replays the global events after the given ID", async () => {
+    const { annotation } = await createAnnotation();
+    const start = eventBus.getSequence();
+    await request("PATCH", `/annotations/${annotation.id}`, { severity: "blocking" });
+    await request("POST", `/annotations/${annotation.id}/thread`, { role: "agent", content: "On it" });
+    const last = eventBus.getSequence();
+
+    const stream = await openStream("/events", { "Last-Event-ID": String(start) });
+    const frames = await stream.readUntil(hasId(last));
+    stream.close();
+
+    expect(frames.map((f) => Number(f.id))).toEqual([start + 1, start + 2]);
+    expect(frames.map((f) => f.event)).toEqual(["annotation.updated", "thread.message"]);
+    expect(JSON.parse(frames[0].data!).payload.severity).toBe("blocking");
+  });
+
+  it("replays only the session's events on a session stream", async () => {
+    const start = eventBus.getSequence();
+    const { session } = await createAnnotation("Mine");
+    await createAnnotation("Someone else's");
+    await request("PATCH", `/sessions/${session.id}`, { metadata: { branch: "main" } });
+    const last = eventBus.getSequence();
+
+    const stream = await openStream(`/sessions/${session.id}/events`, { "Last-Event-ID": String(start) });
+    const frames = await stream.readUntil(hasId(last));
+    stream.close();
+
+    expect(frames.map((f) => f.event)).toEqual(["session.created", "annotation.created", "session.updated"]);
+    expect(frames.every((f) => JSON.parse(f.data!).sessionId === session.id)).toBe(true);
+  });
+
+  it("skips the agent's initial sync after a replay", async () => {
+    await createAnnotation();
+    const start = eventBus.getSequence();
+
+    const stream = await openStream("/events?agent=true", { "Last-Event-ID": String(start) });
+    const marker = (await (await request("POST", "/sessions", { url: "http://localhost:3000/" })).json()).id;
+    const frames = await stream.readUntil((frames) => frames.some((f) => f.data?.includes(marker)));
+    stream.close();
+
+    expect(frames.map((f) => f.event)).toEqual(["session.created"]);
+  });
+
+  it("sends reset carrying the current sequence for an ID this server never issued", async () => {
+    await createAnnotation();
+    const current = eventBus.getSequence();
+
+    const stream = await openStream("/events", { "Last-Event-ID": String(current + 100) });
+    const [reset] = await stream.readUntil(hasEvent("reset"));
+    stream.close();
+
+    expect(reset.event).toBe("reset");
+    expect(reset.id).toBe(String(current));
+    expect(JSON.parse(reset.data!)).toMatchObject({ reason: "unknown", lastEventId: current + 100, sequence: current });
+  });
+
+  it("follows a reset with the agent's initial sync", async () => {
+    const { annotation } = await createAnnotation();
+
+    const stream = await openStream("/events?agent=true", { "Last-Event-ID": String(eventBus.getSequence() + 1) });
+    const frames = await stream.readUntil(hasEvent("sync.complete"));
+    stream.close();
+
+    expect(frames[0].event).toBe("reset");
+    const synced = frames.filter((f) => f.event === "annotation.created").map((f) => JSON.parse(f.data!).payload.id);
+    expect(synced).toContain(annotation.id);
+  });
+
+  it("ignores a Last-Event-ID that is not a number", async () => {
+    await createAnnotation();
+
+    const stream = await openStream("/events", { "Last-Event-ID": "latest" });
+    const marker = (await (await request("POST", "/sessions", { url: "http://localhost:3000/" })).json()).id;
+    const frames = await stream.readUntil((frames) => frames.some((f) => f.data?.includes(marker)));
+    stream.close();
+
+    expect(frames.map((f) => f.event)).toEqual(["session.created"]);
+  });
+
+  describe("with a pruned event log", () => {
+    let dir: string;
+
+    afterEach(() => {
+      clearAll();
+      delete process.env.AGENTATION_EVENT_RETENTION_DAYS;
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("sends reset for an ID older than the log", async () => {
+      dir = mkdtempSync(join(tmpdir(), "agentation-http-"));
+      const dbPath = join(dir, "store.db");
+
+      // Write some events, then reopen with a retention that prunes them all
+      const first = createSQLiteStore(dbPath);
+      const start = eventBus.getSequence();
+      const session = first.createSession("http://localhost:3000/");
+      first.updateSession(session.id, { metadata: { branch: "main" } });
+      first.close();
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      process.env.AGENTATION_EVENT_RETENTION_DAYS = "0";
+      setStore(createSQLiteStore(dbPath));
+      const pruned = eventBus.getSequence();
+      expect(pruned).toBe(start + 2);
+
+      const stream = await openStream("/events", { "Last-Event-ID": String(start + 1) });
+      const [reset] = await stream.readUntil(hasEvent("reset"));
+      stream.close();
+
+      expect(reset.id).toBe(String(pruned));
+      expect(JSON.parse(reset.data!)).toMatchObject({ reason: "pruned", lastEventId: start + 1, sequence: pruned });
+
+      // Resuming from the reset's ID replays normally
+      const resumed = await openStream(`/sessions/${session.id}/events`, { "Last-Event-ID": String(pruned) });
+      await request("PATCH", `/sessions/${session.id}`, { status: "closed" });
+      const frames = await resumed.readUntil(hasId(pruned + 1));
+      resumed.close();
+
+      expect(frames.map((f) => f.event)).toEqual(["session.closed"]);
+    });
+  });
+});
+
+// =============================================================================
+// Body limit
+// =============================================================================
+
+describe("body limit", () => {
+  const oversized = JSON.stringify({ url: "http://localhost:3000/", padding: "x".repeat(MAX_BODY_BYTES) });
+
+  it("responds 413 to a declared length over the limit", async () => {
+    const res = await request("POST", "/sessions", JSON.parse(oversized));
+
+    expect(res.status).toBe(413);
+  });
+
+  it("responds 413 to a chunked body that grows past the limit", async () => {
+    const res = await postChunked("/sessions", oversized);
+
+    expect(res.status).toBe(413);
+    expect(JSON.parse(res.body).error).toBe(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  });
+
+  it("responds 413 to a chunked MCP request that grows past the limit", async () => {
+    const res = await postChunked("/mcp", oversized);
+
+    expect(res.status).toBe(413);
+  });
+
+  it("still answers malformed JSON with 400", async () => {
+    const res = await postChunked("/sessions", "{not json");
+
+    expect(res.status).toBe(400);
+  });
+});
+
+// =============================================================================
+// Import
+// =============================================================================
+
+describe("import", () => {
+  async function exportSession(sessionId: string) {
+    return (await request("GET", `/sessions/${sessionId}/export`)).json();
+  }
+
+  function withAnnotation(archive: { sessions: { annotations: Record<string, unknown>[] }[] }, fields: Record<string, unknown>) {
+    archive.sessions[0].annotations[0] = { ...archive.sessions[0].annotations[0], ...fields };
+    return archive;
+  }
+
+  it("recreates an exported session with its IDs, thread and statuses", async () => {
+    const { session, annotation } = await createAnnotation();
+    await request("POST", `/annotations/${annotation.id}/thread`, { role: "agent", content: "On it" });
+    await request("PATCH", `/annotations/${annotation.id}`, { status: "resolved", severity: "blocking" });
+    const archive = await exportSession(session.id);
+    await request("DELETE", `/sessions/${session.id}`);
+
+    const res = await request("POST", "/import", archive);
+
+    expect(res.status).toBe(201);
+    expect((await res.json()).imported).toEqual([{ sourceId: session.id, id: session.id, annotations: 1 }]);
+    const restored = await (await request("GET", `/sessions/${session.id}`)).json();
+    expect(restored.annotations[0]).toMatchObject({
+      id: annotation.id,
+      status: "resolved",
+      severity: "blocking",
+      thread: [expect.objectContaining({ role: "agent", content: "On it" })],
+    });
+  });
+
+  it("imports under fresh IDs with remap", async () => {
+    const { session, annotation } = await createAnnotation();
+
+    const res = await request("POST", "/import?remap=true", await exportSession(session.id));
+
+    expect(res.status).toBe(201);
+    const [imported] = (await res.json()).imported;
+    expect(imported.sourceId).toBe(session.id);
+    expect(imported.id).not.toBe(session.id);
+    const copy = await (await request("GET", `/sessions/${imported.id}`)).json();
+    expect(copy.annotations).toHaveLength(1);
+    expect(copy.annotations[0].id).not.toBe(annotation.id);
+    expect(copy.annotations[0].comment).toBe(annotation.comment);
+  });
+
+  it("skips a session whose ID already exists", async () => {
+    const { session } = await createAnnotation();
+
+    const res = await request("POST", "/import", await exportSession(session.id));
+
+    expect(res.status).toBe(409);
+    expect((await res.json()).skipped).toEqual([
+      { sourceId: session.id, reason: "Session or annotation ID already exists" },
+    ]);
+  });
+
+  it.each([
+    [{ status: "bogus" }, "status must be one of"],
+    [{ severity: "mega" }, "severity must be one of"],
+    [{ intent: "shout" }, "intent must be one of"],
+    [{ thread: [{ id: "m1", role: "agent", content: 5, timestamp: 1 }] }, "thread[0] must have"],
+    [{ thread: [{ id: "m1", role: "robot", content: "Hi", timestamp: 1 }] }, "thread[0] must have"],
+    [{ x: "10" }, "numeric x, y and timestamp"],
+    [{ timestamp: null }, "numeric x, y and timestamp"],
+    [{ id: 'we"ird\\x' }, "id must be 1-128 letters"],
+  ])("rejects an annotation with %j", async (fields, error) => {
+    const { session } = await createAnnotation();
+    const archive = withAnnotation(await exportSession(session.id), fields);
+
+    const res = await request("POST", "/import?remap=true", archive);
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain(error);
+  });
+
+  it("rejects a session ID outside the ID charset and imports nothing", async () => {
+    const { session } = await createAnnotation();
+    const archive = await exportSession(session.id);
+    archive.sessions[0].id = 'we"ird\\x';
+    const before = (await (await request("GET", "/sessions")).json()).length;
+
+    const res = await request("POST", "/import", archive);
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("sessions[0].id must be 1-128 letters, digits, _ or -");
+    expect(await (await request("GET", "/sessions")).json()).toHaveLength(before);
+  });
+});
+
+// =============================================================================
+// Event origin
+// =============================================================================
+
+describe("event origin", () => {
+  const tooLong = "x".repeat(129);
+
+  it("names the header in the length error when sent as X-Agentation-Origin", async () => {
+    const res = await request("POST", "/sessions", { url: "http://localhost:3000/" }, { "X-Agentation-Origin": tooLong });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("X-Agentation-Origin must be at most 128 characters");
+  });
+
+  it("names the query parameter in the length error when sent as ?origin=", async () => {
+    const res = await request("POST", `/sessions?origin=${tooLong}`, { url: "http://localhost:3000/" });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("origin must be at most 128 characters");
+  });
+});
+
+// =============================================================================
+// Event stream filters
+// =============================================================================
+
+describe("event stream filters", () => {
+  async function addAnnotation(sessionId: string, comment: string, extra: Record<string, unknown> = {}) {
+    const res = await request("POST", `/sessions/${sessionId}/annotations`, {
+      x: 10,
+      y: 20,
+      comment,
+      element: "button",
+      elementPath: "body > button",
+      timestamp: Date.now(),
+      ...extra,
+    });
+    return res.json();
+  }
+
+  const hasData = (text: string) => (frames: SSEFrame[]) => frames.some((f) => f.data?.includes(text));
+
+  it("passes only the listed event types", async () => {
+    const { session, annotation } = await createAnnotation();
+    const stream = await openStream(`/sessions/${session.id}/events?types=thread.message`);
+
+    await request("PATCH", `/annotations/${annotation.id}`, { severity: "blocking" });
+    await request("POST", `/annotations/${annotation.id}/thread`, { role: "agent", content: "types-marker" });
+    const frames = await stream.readUntil(hasData("types-marker"));
+    stream.close();
+
+    expect(frames.map((f) => f.event)).toEqual(["thread.message"]);
+  });
+
+  it("skips events caused with the excluded origin, sent either way", async () => {
+    const { session, annotation } = await createAnnotation();
+    const stream = await openStream(`/sessions/${session.id}/events?excludeOrigin=tab-1`);
+
+    await request("PATCH", `/annotations/${annotation.id}`, { severity: "blocking" }, { "X-Agentation-Origin": "tab-1" });
+    await request("POST", `/annotations/${annotation.id}/thread?origin=tab-1`, { role: "human", content: "Mine" });
+    await request("POST", `/annotations/${annotation.id}/thread`, { role: "agent", content: "origin-marker" }, {
+      "X-Agentation-Origin": "agent-1",
+    });
+    const frames = await stream.readUntil(hasData("origin-marker"));
+    stream.close();
+
+    const origins = frames.map((f) => JSON.parse(f.data!).origin);
+    expect(origins.length).toBeGreaterThan(0);
+    expect(origins.every((origin) => origin === "agent-1")).toBe(true);
+    expect(frames.some((f) => f.data!.includes('"Mine"'))).toBe(false);
+  });
+
+  it("passes only annotation events for the listed assignees", async () => {
+    const { session } = await createAnnotation();
+    const stream = await openStream(`/sessions/${session.id}/events?assignee=alice`);
+
+    const theirs = await addAnnotation(session.id, "Theirs", { assigneeId: "bob" });
+    const mine = await addAnnotation(session.id, "Mine", { assigneeId: "alice" });
+    await request("POST", `/annotations/${mine.id}/thread`, { role: "human", content: "Any news?" });
+    await request("PATCH", `/annotations/${theirs.id}`, { comment: "Still theirs" });
+    await request("PATCH", `/annotations/${mine.id}`, { comment: "assignee-marker" });
+    const frames = await stream.readUntil(hasData("assignee-marker"));
+    stream.close();
+
+    expect(frames.every((f) => f.event!.startsWith("annotation."))).toBe(true);
+    expect(new Set(frames.map((f) => JSON.parse(f.data!).payload.id))).toEqual(new Set([mine.id]));
+    expect(frames[0].event).toBe("annotation.created");
+  });
+});
+
+// =============================================================================
+// Projects
+// =============================================================================
+
+describe("projects", () => {
+  let app: { id: string };
+  let admin: { id: string };
+
+  beforeAll(async () => {
+    app = await (await request("POST", "/projects", { name: "App", urlPatterns: ["http://localhost:3100/*"] })).json();
+    admin = await (
+      await request("POST", "/projects", {
+        name: "Admin",
+        urlPatterns: ["http://localhost:3100/admin/*"],
+        defaultSeverity: "important",
+        routing: [
+          { components: "*Checkout*", assignee: "payments" },
+          { elementPath: "nav *", severity: ["blocking"], assignee: "nav" },
+          { fallback: true, assignee: "triage" },
+        ],
+      })
+    ).json();
+  });
+
+  async function sessionOn(url: string) {
+    return (await request("POST", "/sessions", { url })).json();
+  }
+
+  async function annotate(sessionId: string, extra: Record<string, unknown> = {}) {
+    const res = await request("POST", `/sessions/${sessionId}/annotations`, {
+      x: 10,
+      y: 20,
+      comment: "Fix it",
+      element: "button",
+      elementPath: "body > button",
+      timestamp: Date.now(),
+      ...extra,
+    });
+    return res.json();
+  }
+
+  it("puts a session in the project with the most specific matching pattern", async () => {
+    expect((await sessionOn("http://localhost:3100/admin/users")).projectId).toBe(admin.id);
+    expect((await sessionOn("http://localhost:3100/home")).projectId).toBe(app.id);
+    expect((await sessionOn("http://localhost:3200/")).projectId).toBeUndefined();
+  });
+
+  it("fills in the default severity and routes by the first matching rule", async () => {
+    const session = await sessionOn("http://localhost:3100/admin/orders");
+
+    expect(await annotate(session.id, { reactComponents: "App > CheckoutForm" })).toMatchObject({
+      severity: "important",
+      assigneeId: "payments",
+    });
+    expect(await annotate(session.id, { elementPath: "nav a", severity: "blocking" })).toMatchObject({
+      severity: "blocking",
+      assigneeId: "nav",
+    });
+    // Routing sees the defaulted severity, which the nav rule doesn't take
+    expect((await annotate(session.id, { elementPath: "nav a" })).assigneeId).toBe("triage");
+    expect((await annotate(session.id, { assigneeId: "alice" })).assigneeId).toBe("alice");
+  });
+
+  it("leaves annotations outside any project alone", async () => {
+    const session = await sessionOn("http://localhost:3200/");
+    const annotation = await annotate(session.id, { reactComponents: "CheckoutForm" });
+
+    expect(annotation.severity).toBeUndefined();
+    expect(annotation.assigneeId).toBeUndefined();
+  });
+
+  it.each([
+    ["a misspelled condition", [{ reactComponents: "*Checkout*", assignee: "payments" }]],
+    ["a rule without conditions", [{ assignee: "payments" }]],
+  ])("rejects routing with %s", async (_name, routing) => {
+    const res = await request("POST", "/projects", { name: "Bad", urlPatterns: ["http://localhost:3300/*"], routing });
+
+    expect(res.status).toBe(400);
+  });
+});
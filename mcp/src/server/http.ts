@@ -3,33 +3,94 @@
  * Uses native Node.js http module - no frameworks.
  */
 
-import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { createServer, type IncomingMessage, type RequestListener, type ServerResponse } from "http";
+import { createServer as createHttpsServer } from "https";
+import { createServer as createNetServer, type Server as NetServer } from "net";
+import type { TLSSocket } from "tls";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { TOOLS, handleTool, error as toolError } from "./mcp.js";
+import { TOOLS, handleTool, registerPrompts, registerResources, withApiKey, error as toolError } from "./mcp.js";
+import { getDatabaseSize, getStore, getStoreBackend } from "./store.js";
+import { authenticateApiKey, getUserStore } from "./tenant-store.js";
+import { eventBus, userEventBus, withEventActor, withEventOrigin } from "./events.js";
 import {
-  createSession,
-  getSession,
-  getSessionWithAnnotations,
-  addAnnotation,
-  updateAnnotation,
-  getAnnotation,
-  deleteAnnotation,
-  listSessions,
-  getPendingAnnotations,
-  addThreadMessage,
-  getEventsSince,
-} from "./store.js";
-import { eventBus } from "./events.js";
-import type { Annotation, AFSEvent, ActionRequest } from "../types.js";
+  getWebhookUrls,
+  sendWebhooks,
+  redeliverWebhook,
+  resumePendingWebhooks,
+  startWebhookDispatcher,
+  validateSubscriptionInput,
+} from "./webhooks.js";
+import { validateBulkOperations } from "./bulk.js";
+import { EXPORT_FORMATS, exportSession, importSessions, parseArchive, type ExportFormat } from "./export.js";
+import {
+  QueryError,
+  matchesEventFilter,
+  parseAnnotationQuery,
+  parseEventFilter,
+  parseSessionQuery,
+} from "./query.js";
+import { INITIAL_VERSION, VersionConflictError } from "./versioning.js";
+import { METRICS_CONTENT_TYPE, recordHttpRequest, renderMetrics, startMetricsCollector } from "./metrics.js";
+import { VERSION } from "./version.js";
+import { REPLICATION_CAPABILITIES, getReplicationStatus, startReplicator } from "./replication.js";
+import { validateProjectInput } from "./projects.js";
+import { buildAnnotationHistory } from "./history.js";
+import {
+  RATE_LIMITED_ROUTES,
+  createRateLimiters,
+  parseRateLimits,
+  type RateLimitConfig,
+  type RateLimitedRoute,
+  type RateLimiter,
+} from "./rate-limit.js";
+import {
+  getSelfSignedCredentials,
+  loadTlsCredentials,
+  localServerNames,
+  type TlsCredentials,
+} from "./tls.js";
+import {
+  MAX_ATTACHMENT_BYTES,
+  contentDisposition,
+  normalizeContentType,
+  normalizeFilename,
+} from "./attachments.js";
+import {
+  OUTPUT_DETAIL_LEVELS,
+  generateOutput,
+  generateSessionsOutput,
+  pageLabel,
+  type OutputDetailLevel,
+} from "./output.js";
+import type {
+  Annotation,
+  AFSEvent,
+  AFSEventType,
+  AFSStore,
+  ActionRequest,
+  BulkOperation,
+  Project,
+  Session,
+  SessionStatus,
+  UserContext,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+} from "../types.js";
 
 // Cloud API configuration
 let cloudApiKey: string | undefined;
-const CLOUD_API_URL = "https://agentation-mcp-cloud.vercel.app/api";
+const CLOUD_API_URL = process.env.AGENTATION_CLOUD_URL || "https://agentation-mcp-cloud.vercel.app/api";
+
+// Largest accepted request body unless configured (same as the attachment limit)
+const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// Longest accepted X-Agentation-Origin header or ?origin= (a client-chosen ID)
+const MAX_ORIGIN_LENGTH = 128;
 
 /**
  * Set the API key for cloud storage mode.
@@ -46,6 +107,67 @@ function isCloudMode(): boolean {
   return !!cloudApiKey;
 }
 
+// Hybrid mode: serve from the local store and replicate with the cloud
+let hybridMode = false;
+
+function serverMode(): "cloud" | "hybrid" | "local" {
+  return isCloudMode() ? "cloud" : hybridMode ? "hybrid" : "local";
+}
+
+// Local API-key auth (opt-in). When enabled, every route except /health
+// requires a key, and data and MCP sessions are scoped to its user.
+let authRequired = false;
+
+// Browser origins allowed to call the server; undefined allows any
+let allowedOrigins: string[] | undefined;
+
+// Origins the operator's projects add to the allow-list; built on first use
+// and dropped whenever a project is written
+let projectOrigins: Set<string> | undefined;
+
+let maxBodyBytes = DEFAULT_MAX_BODY_BYTES;
+
+// When serving HTTPS, plain HTTP is only accepted from this machine
+let tlsEnabled = false;
+
+// Token buckets for write routes (see rate-limit.ts)
+let rateLimiters: Partial<Record<RateLimitedRoute, RateLimiter>> = {};
+
+/**
+ * Options for startHttpServer.
+ */
+export type HttpServerOptions = {
+  /** Require an API key on local routes and scope data per user (default: AGENTATION_REQUIRE_AUTH) */
+  requireAuth?: boolean;
+  /** Address to listen on (default: AGENTATION_HOST, else all interfaces) */
+  host?: string;
+  /**
+   * Browser origins allowed to call the server, e.g. "http://localhost:3000";
+   * "*" allows any (default: comma-separated AGENTATION_ALLOWED_ORIGINS, else any).
+   * Requests without an Origin header (agents, curl) are always allowed.
+   */
+  allowedOrigins?: string[];
+  /** Largest accepted request body in bytes (default: AGENTATION_MAX_BODY_BYTES, else 10 MB) */
+  maxBodyBytes?: number;
+  /**
+   * Serve HTTPS with these PEM files, or with a generated self-signed
+   * certificate (default: AGENTATION_TLS_CERT and AGENTATION_TLS_KEY, or
+   * AGENTATION_TLS=self-signed). Plain HTTP is still accepted from this machine.
+   */
+  tls?: { certPath: string; keyPath: string } | "self-signed";
+  /**
+   * Per-client limits on session, annotation, thread and action writes,
+   * over the defaults (default: AGENTATION_RATE_LIMITS, e.g. "session=10/60,thread=off").
+   */
+  rateLimits?: RateLimitConfig;
+  /**
+   * With an API key, keep serving from the local store and replicate it
+   * with the cloud in the background instead of proxying every request, so
+   * capture works offline (default: AGENTATION_HYBRID).
+   */
+  hybrid?: boolean;
+};
+
 // Track active SSE connections for cleanup
 const sseConnections = new Set<ServerResponse>();
 // Track agent SSE connections separately (for accurate delivery status)
@@ -58,6 +180,17 @@ const agentConnections = new Set<ServerResponse>();
 
 // Store transports by session ID for stateful sessions
 const mcpTransports = new Map<string, StreamableHTTPServerTransport>();
+// With auth, the user who opened each session; other users can't use it
+const mcpSessionOwners = new Map<string, string>();
+
+/**
+ * Look up an MCP session's transport, if it exists and belongs to `user`.
+ */
+function getMcpTransport(sessionId: string | undefined, user?: UserContext): StreamableHTTPServerTransport | undefined {
+  if (!sessionId) return undefined;
+  if (mcpSessionOwners.get(sessionId) !== user?.userId) return undefined;
+  return mcpTransports.get(sessionId);
+}
 
 /**
  * Initialize a new MCP server with HTTP transport for a session.
@@ -69,7 +202,7 @@ function createMcpSession(): { server: Server; transport: StreamableHTTPServerTr
 
   const server = new Server(
     { name: "agentation", version: "0.0.1" },
-    { capabilities: { tools: {} } }
+    { capabilities: { tools: {}, resources: { subscribe: true }, prompts: {} } }
   );
 
   server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
@@ -81,100 +214,48 @@ function createMcpSession(): { server: Server; transport: StreamableHTTPServerTr
       return toolError(message);
     }
   });
+  registerResources(server);
+  registerPrompts(server);
 
   server.connect(transport);
   return { server, transport };
 }
 
 // -----------------------------------------------------------------------------
-// Webhook Support
+// Request Helpers
 // -----------------------------------------------------------------------------
 
-/**
- * Get configured webhook URLs from environment variables.
- *
- * Supports:
- * - AGENTATION_WEBHOOK_URL: Single webhook URL
- * - AGENTATION_WEBHOOKS: Comma-separated list of webhook URLs
- */
-function getWebhookUrls(): string[] {
-  const urls: string[] = [];
-
-  // Single webhook URL
-  const singleUrl = process.env.AGENTATION_WEBHOOK_URL;
-  if (singleUrl) {
-    urls.push(singleUrl.trim());
-  }
-
-  // Multiple webhook URLs (comma-separated)
-  const multipleUrls = process.env.AGENTATION_WEBHOOKS;
-  if (multipleUrls) {
-    const parsed = multipleUrls
-      .split(",")
-      .map((url) => url.trim())
-      .filter((url) => url.length > 0);
-    urls.push(...parsed);
-  }
-
-  return urls;
-}
+// Thrown by parseBody for a body over maxBodyBytes; handlers respond 413
+class PayloadTooLargeError extends Error {}
 
 /**
- * Send webhook notification for an action request.
- * Fire-and-forget: doesn't wait for response, logs errors but doesn't throw.
+ * Parse JSON body from request.
  */
-function sendWebhooks(actionRequest: ActionRequest): void {
-  const webhookUrls = getWebhookUrls();
-
-  if (webhookUrls.length === 0) {
-    return;
+async function parseBody<T>(req: IncomingMessage): Promise<T> {
+  const raw = await readRawBody(req, maxBodyBytes);
+  if (!raw) {
+    throw new PayloadTooLargeError(`Request body exceeds ${maxBodyBytes} bytes`);
   }
-
-  const payload = JSON.stringify(actionRequest);
-
-  for (const url of webhookUrls) {
-    // Fire and forget - use .then().catch() instead of await
-    fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "User-Agent": "Agentation-Webhook/1.0",
-      },
-      body: payload,
-    })
-      .then((res) => {
-        console.log(
-          `[Webhook] POST ${url} -> ${res.status} ${res.statusText}`
-        );
-      })
-      .catch((err) => {
-        console.error(`[Webhook] POST ${url} failed:`, (err as Error).message);
-      });
+  try {
+    return raw.length > 0 ? JSON.parse(raw.toString("utf-8")) : ({} as T);
+  } catch {
+    throw new Error("Invalid JSON");
   }
-
-  console.log(
-    `[Webhook] Fired ${webhookUrls.length} webhook(s) for session ${actionRequest.sessionId}`
-  );
 }
 
-// -----------------------------------------------------------------------------
-// Request Helpers
-// -----------------------------------------------------------------------------
-
 /**
- * Parse JSON body from request.
+ * Read a raw (binary) request body. Resolves undefined if it grows past
+ * `maxBytes`; the rest of the upload is discarded.
  */
-async function parseBody<T>(req: IncomingMessage): Promise<T> {
+async function readRawBody(req: IncomingMessage, maxBytes: number): Promise<Buffer | undefined> {
   return new Promise((resolve, reject) => {
-    let body = "";
-    req.on("data", (chunk) => (body += chunk));
-    req.on("end", () => {
-      try {
-        resolve(body ? JSON.parse(body) : {});
-      } catch {
-        reject(new Error("Invalid JSON"));
-      }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= maxBytes) chunks.push(chunk);
     });
+    req.on("end", () => resolve(size <= maxBytes ? Buffer.concat(chunks) : undefined));
     req.on("error", reject);
   });
 }
@@ -182,16 +263,35 @@ async function parseBody<T>(req: IncomingMessage): Promise<T> {
 /**
  * Send JSON response.
  */
-function sendJson(res: ServerResponse, status: number, data: unknown): void {
+function sendJson(res: ServerResponse, status: number, data: unknown, headers: Record<string, string> = {}): void {
   res.writeHead(status, {
     "Content-Type": "application/json",
-    "Access-Control-Allow-Origin": "*",
     "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, x-api-key, If-Match, X-Agentation-Origin",
+    "Access-Control-Expose-Headers": "ETag, Retry-After, X-Next-Cursor, X-Total-Count",
+    ...headers,
   });
   res.end(JSON.stringify(data));
 }
 
+/**
+ * Send a non-JSON response body (exports, rendered markdown, attachments).
+ */
+function sendText(
+  res: ServerResponse,
+  status: number,
+  contentType: string,
+  body: string | Uint8Array,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, {
+    "Content-Type": contentType,
+    "Access-Control-Expose-Headers": "Content-Disposition, X-Next-Cursor, X-Total-Count",
+    ...headers,
+  });
+  res.end(body);
+}
+
 /**
  * Send error response.
  */
@@ -199,20 +299,170 @@ function sendError(res: ServerResponse, status: number, message: string): void {
   sendJson(res, status, { error: message });
 }
 
+/**
+ * Send the error a handler caught while reading or applying a request
+ * body: 413 if the body was too large, otherwise 400.
+ */
+function sendRequestError(res: ServerResponse, err: unknown): void {
+  sendError(res, err instanceof PayloadTooLargeError ? 413 : 400, (err as Error).message);
+}
+
+/**
+ * Check the request's Origin against the allow-list (and the origins the
+ * operator's projects allow) and set Access-Control-Allow-Origin. Returns
+ * false if the origin isn't allowed.
+ */
+function applyCorsOrigin(req: IncomingMessage, res: ServerResponse): boolean {
+  if (!allowedOrigins) {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    return true;
+  }
+  res.setHeader("Vary", "Origin");
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  if (!allowedOrigins.includes(origin) && !isProjectOrigin(origin)) return false;
+  res.setHeader("Access-Control-Allow-Origin", origin);
+  return true;
+}
+
+/**
+ * Whether a project created without an API key (so by the operator, not a
+ * tenant) lists `origin` among its allowed origins. Tenants' projects never
+ * widen the allow-list: it applies to every caller. Cloud mode has no local
+ * projects.
+ */
+function isProjectOrigin(origin: string): boolean {
+  if (isCloudMode()) return false;
+  projectOrigins ??= new Set(
+    getStore()
+      .listProjects()
+      .filter((project) => !project.userId)
+      .flatMap((project) => project.allowedOrigins ?? [])
+  );
+  return projectOrigins.has(origin);
+}
+
+/**
+ * Parse an origin allow-list, normalizing entries to scheme://host[:port].
+ * Returns undefined (allow any) if an entry is "*".
+ */
+function parseAllowedOrigins(entries: string[]): string[] | undefined {
+  if (entries.includes("*")) return undefined;
+  return entries.map((entry) => {
+    try {
+      return new URL(entry).origin;
+    } catch {
+      throw new Error(`Invalid allowed origin: ${entry}`);
+    }
+  });
+}
+
+/**
+ * Whether a request comes from this machine (loopback, or one of our own
+ * addresses connecting to itself).
+ */
+function isLocalRequest(req: IncomingMessage): boolean {
+  const { remoteAddress, localAddress } = req.socket;
+  if (!remoteAddress) return false;
+  return (
+    remoteAddress === localAddress ||
+    remoteAddress === "::1" ||
+    remoteAddress.startsWith("127.") ||
+    remoteAddress.startsWith("::ffff:127.")
+  );
+}
+
 /**
  * Handle CORS preflight.
  */
 function handleCors(res: ServerResponse): void {
   res.writeHead(204, {
-    "Access-Control-Allow-Origin": "*",
     "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type, Accept, Mcp-Session-Id",
+    "Access-Control-Allow-Headers": "Content-Type, Accept, Authorization, x-api-key, If-Match, X-Agentation-Origin, Mcp-Session-Id",
     "Access-Control-Expose-Headers": "Mcp-Session-Id",
     "Access-Control-Max-Age": "86400",
   });
   res.end();
 }
 
+// -----------------------------------------------------------------------------
+// Auth & Scoping
+// -----------------------------------------------------------------------------
+
+/**
+ * Extract a raw API key from the request.
+ *
+ * Checks x-api-key, then Authorization: Bearer, then the api_key query
+ * parameter (EventSource can't send custom headers).
+ */
+function extractApiKey(req: IncomingMessage, url: URL): string | undefined {
+  const header = req.headers["x-api-key"];
+  if (typeof header === "string" && header) {
+    return header.trim();
+  }
+
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice(7).trim();
+  }
+
+  return url.searchParams.get("api_key") ?? undefined;
+}
+
+/**
+ * Get the store for a request: the user's scoped view when authenticated,
+ * otherwise the global store.
+ */
+function getScopedStore(user: UserContext | undefined): AFSStore {
+  return user ? getUserStore(user.userId) : getStore();
+}
+
+/**
+ * The latest event sequence as `user` may see it: their own latest event,
+ * so one tenant can't gauge another's activity. Still a valid cursor to
+ * resume their streams from.
+ */
+function visibleSequence(user: UserContext | undefined): number {
+  return user && !isCloudMode() ? getScopedStore(user).getLastSequence() : eventBus.getSequence();
+}
+
+/**
+ * Subscribe to all events visible to the requester.
+ */
+function subscribeEvents(
+  user: UserContext | undefined,
+  handler: (event: AFSEvent) => void
+): () => void {
+  return user ? userEventBus.subscribeForUser(user.userId, handler) : eventBus.subscribe(handler);
+}
+
+/**
+ * Subscribe to one session's events visible to the requester.
+ */
+function subscribeSessionEvents(
+  user: UserContext | undefined,
+  sessionId: string,
+  handler: (event: AFSEvent) => void
+): () => void {
+  return user
+    ? userEventBus.subscribeToSessionForUser(user.userId, sessionId, handler)
+    : eventBus.subscribeToSession(sessionId, handler);
+}
+
+/**
+ * Emit an event to the requester's subscribers only.
+ */
+function emitEvent(
+  user: UserContext | undefined,
+  type: AFSEventType,
+  sessionId: string,
+  payload: ActionRequest
+): AFSEvent {
+  return user
+    ? userEventBus.emitForUser(user.userId, type, sessionId, payload)
+    : eventBus.emit(type, sessionId, payload);
+}
+
 // -----------------------------------------------------------------------------
 // Cloud Proxy
 // -----------------------------------------------------------------------------
@@ -236,13 +486,20 @@ async function proxyToCloud(
   if (req.headers["content-type"]) {
     headers["Content-Type"] = req.headers["content-type"];
   }
+  if (req.headers["if-match"]) {
+    headers["If-Match"] = req.headers["if-match"];
+  }
+  if (typeof req.headers["x-agentation-origin"] === "string") {
+    headers["X-Agentation-Origin"] = req.headers["x-agentation-origin"];
+  }
 
-  let body: string | undefined;
+  // Buffers rather than strings, so binary uploads (attachments) survive
+  let body: Uint8Array<ArrayBuffer> | undefined;
   if (method !== "GET" && method !== "HEAD") {
-    body = await new Promise<string>((resolve, reject) => {
-      let data = "";
-      req.on("data", (chunk) => (data += chunk));
-      req.on("end", () => resolve(data));
+    body = await new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => resolve(new Uint8Array(Buffer.concat(chunks))));
       req.on("error", reject);
     });
   }
@@ -260,7 +517,6 @@ async function proxyToCloud(
         "Content-Type": "text/event-stream",
         "Cache-Control": "no-cache",
         Connection: "keep-alive",
-        "Access-Control-Allow-Origin": "*",
       });
 
       const reader = cloudRes.body?.getReader();
@@ -282,13 +538,17 @@ async function proxyToCloud(
       return;
     }
 
-    // Handle regular JSON responses
-    const data = await cloudRes.text();
+    // Handle regular responses (JSON, or binary attachment downloads)
+    const data = Buffer.from(await cloudRes.arrayBuffer());
+    const etag = cloudRes.headers.get("etag");
+    const disposition = cloudRes.headers.get("content-disposition");
     res.writeHead(cloudRes.status, {
       "Content-Type": cloudRes.headers.get("content-type") || "application/json",
-      "Access-Control-Allow-Origin": "*",
+      ...(disposition ? { "Content-Disposition": disposition } : {}),
       "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
+      "Access-Control-Allow-Headers": "Content-Type, If-Match, X-Agentation-Origin",
+      "Access-Control-Expose-Headers": "ETag",
+      ...(etag ? { ETag: etag } : {}),
     });
     res.end(data);
   } catch (err) {
@@ -304,13 +564,17 @@ async function proxyToCloud(
 type RouteHandler = (
   req: IncomingMessage,
   res: ServerResponse,
-  params: Record<string, string>
+  params: Record<string, string>,
+  user: UserContext | undefined
 ) => Promise<void>;
 
 /**
  * POST /sessions - Create a new session.
+ *
+ * Without a projectId, the session joins the project whose URL patterns
+ * match its URL, if any.
  */
-const createSessionHandler: RouteHandler = async (req, res) => {
+const createSessionHandler: RouteHandler = async (req, res, _params, user) => {
   try {
     const body = await parseBody<{ url: string; projectId?: string }>(req);
 
@@ -318,26 +582,86 @@ const createSessionHandler: RouteHandler = async (req, res) => {
       return sendError(res, 400, "url is required");
     }
 
-    const session = createSession(body.url, body.projectId);
+    const session = getScopedStore(user).createSession(body.url, body.projectId);
     sendJson(res, 201, session);
   } catch (err) {
-    sendError(res, 400, (err as Error).message);
+    sendRequestError(res, err);
   }
 };
 
 /**
- * GET /sessions - List all sessions.
+ * Parse filter/sort/pagination query parameters, sending a 400 if malformed.
+ */
+function parseQuery<T>(req: IncomingMessage, res: ServerResponse, parse: (params: URLSearchParams) => T): T | undefined {
+  const url = new URL(req.url || "/", "http://localhost");
+  try {
+    return parse(url.searchParams);
+  } catch (err) {
+    if (err instanceof QueryError) {
+      sendError(res, 400, err.message);
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+/**
+ * ETag for an annotation: its version, as a strong validator.
+ */
+function annotationEtag(annotation: Annotation): string {
+  return `"${annotation.version ?? INITIAL_VERSION}"`;
+}
+
+/**
+ * Read the annotation version required by an If-Match header.
+ * Returns undefined if the header is absent or "*" (any version). A tag that
+ * is not a version we issued parses to NaN, which never matches.
+ */
+function parseIfMatch(req: IncomingMessage): number | undefined {
+  const header = req.headers["if-match"]?.trim();
+  if (!header || header === "*") return undefined;
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header);
+  return match ? Number(match[1]) : NaN;
+}
+
+/**
+ * Respond 412 with the annotation's current state, so the client can
+ * merge and retry with the new ETag.
+ */
+function sendVersionConflict(res: ServerResponse, store: AFSStore, err: VersionConflictError): void {
+  const current = store.getAnnotation(err.annotationId);
+  sendJson(
+    res,
+    412,
+    { error: "Annotation was modified by someone else", currentVersion: err.currentVersion, annotation: current },
+    current ? { ETag: annotationEtag(current) } : {}
+  );
+}
+
+/**
+ * GET /sessions - List sessions, newest first.
+ *
+ * Supports status, projectId, url, domain, since, until, sort, cursor and
+ * limit query parameters. The body stays a plain array; the next page's
+ * cursor is returned in the X-Next-Cursor header.
  */
-const listSessionsHandler: RouteHandler = async (_req, res) => {
-  const sessions = listSessions();
-  sendJson(res, 200, sessions);
+const listSessionsHandler: RouteHandler = async (req, res, _params, user) => {
+  const query = parseQuery(req, res, parseSessionQuery);
+  if (!query) return;
+
+  const page = getScopedStore(user).querySessions(query);
+  res.setHeader("X-Total-Count", String(page.total));
+  if (page.nextCursor) {
+    res.setHeader("X-Next-Cursor", page.nextCursor);
+  }
+  sendJson(res, 200, page.items);
 };
 
 /**
  * GET /sessions/:id - Get a session with annotations.
  */
-const getSessionHandler: RouteHandler = async (_req, res, params) => {
-  const session = getSessionWithAnnotations(params.id);
+const getSessionHandler: RouteHandler = async (_req, res, params, user) => {
+  const session = getScopedStore(user).getSessionWithAnnotations(params.id);
 
   if (!session) {
     return sendError(res, 404, "Session not found");
@@ -346,10 +670,157 @@ const getSessionHandler: RouteHandler = async (_req, res, params) => {
   sendJson(res, 200, session);
 };
 
+/**
+ * GET /sessions/:id/export?format=json|markdown|csv|sarif - Download a
+ * session with its annotations and threads. Defaults to JSON, which is
+ * the archive format POST /import accepts.
+ */
+const exportSessionHandler: RouteHandler = async (req, res, params, user) => {
+  const url = new URL(req.url || "/", "http://localhost");
+  const format = (url.searchParams.get("format") || "json") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return sendError(res, 400, `format must be one of ${EXPORT_FORMATS.join(", ")}`);
+  }
+
+  const session = getScopedStore(user).getSessionWithAnnotations(params.id);
+  if (!session) {
+    return sendError(res, 404, "Session not found");
+  }
+
+  const file = exportSession(session, format);
+  sendText(res, 200, file.contentType, file.body, {
+    "Content-Disposition": `attachment; filename="agentation-${session.id}.${file.extension}"`,
+  });
+};
+
+/**
+ * Read the ?detail= output level, sending a 400 if it is unknown.
+ */
+function parseDetail(req: IncomingMessage, res: ServerResponse): OutputDetailLevel | undefined {
+  const url = new URL(req.url || "/", "http://localhost");
+  const detail = (url.searchParams.get("detail") || "standard") as OutputDetailLevel;
+  if (!OUTPUT_DETAIL_LEVELS.includes(detail)) {
+    sendError(res, 400, `detail must be one of ${OUTPUT_DETAIL_LEVELS.join(", ")}`);
+    return undefined;
+  }
+  return detail;
+}
+
+/**
+ * GET /sessions/:id/output?detail=compact|standard|detailed|forensic -
+ * Render the session's annotations as the same markdown the toolbar
+ * copies. Defaults to standard.
+ */
+const sessionOutputHandler: RouteHandler = async (req, res, params, user) => {
+  const detail = parseDetail(req, res);
+  if (!detail) return;
+
+  const session = getScopedStore(user).getSessionWithAnnotations(params.id);
+  if (!session) {
+    return sendError(res, 404, "Session not found");
+  }
+
+  const output = generateOutput(session.annotations, pageLabel(session.url), detail, { url: session.url });
+  sendText(res, 200, "text/markdown; charset=utf-8", output);
+};
+
+/**
+ * POST /import - Recreate sessions from a JSON export archive.
+ *
+ * Keeps original IDs and timestamps; sessions whose IDs already exist are
+ * skipped. Pass ?remap=true to import under fresh IDs instead, or
+ * ?merge=true to update existing sessions and annotations where the
+ * imported copy is newer (by updatedAt).
+ */
+const importHandler: RouteHandler = async (req, res, _params, user) => {
+  try {
+    const body = await parseBody<unknown>(req);
+    const sessions = parseArchive(body);
+    if (typeof sessions === "string") {
+      return sendError(res, 400, sessions);
+    }
+
+    const url = new URL(req.url || "/", "http://localhost");
+    const remap = url.searchParams.get("remap") === "true";
+    const merge = url.searchParams.get("merge") === "true";
+    if (remap && merge) {
+      return sendError(res, 400, "remap and merge can't be combined");
+    }
+
+    // Charge every imported item, as if created one by one
+    const annotations = sessions.flatMap((session) => session.annotations);
+    const charged = takeRateLimits(req, res, {
+      session: sessions.length,
+      annotation: annotations.length,
+      thread: annotations.reduce((count, annotation) => count + (annotation.thread?.length ?? 0), 0),
+    });
+    if (!charged) return;
+
+    const result = importSessions(getScopedStore(user), sessions, { remap, merge });
+    if (merge) {
+      return sendJson(res, 200, result);
+    }
+    sendJson(res, result.imported.length > 0 ? 201 : 409, result);
+  } catch (err) {
+    sendRequestError(res, err);
+  }
+};
+
+/**
+ * PATCH /sessions/:id - Update a session's status and/or metadata.
+ *
+ * Metadata is replaced, not merged; send null to clear it.
+ */
+const updateSessionHandler: RouteHandler = async (req, res, params, user) => {
+  try {
+    const body = await parseBody<{ status?: SessionStatus; metadata?: Record<string, unknown> | null }>(req);
+
+    if (body.status === undefined && body.metadata === undefined) {
+      return sendError(res, 400, "status or metadata is required");
+    }
+    if (body.status !== undefined && !["active", "approved", "closed"].includes(body.status)) {
+      return sendError(res, 400, "status must be active, approved, or closed");
+    }
+    if (
+      body.metadata !== undefined &&
+      body.metadata !== null &&
+      (typeof body.metadata !== "object" || Array.isArray(body.metadata))
+    ) {
+      return sendError(res, 400, "metadata must be an object or null");
+    }
+
+    const session = getScopedStore(user).updateSession(params.id, {
+      status: body.status,
+      metadata: body.metadata as Session["metadata"],
+    });
+
+    if (!session) {
+      return sendError(res, 404, "Session not found");
+    }
+
+    sendJson(res, 200, session);
+  } catch (err) {
+    sendRequestError(res, err);
+  }
+};
+
+/**
+ * DELETE /sessions/:id - Delete a session with its annotations and events.
+ */
+const deleteSessionHandler: RouteHandler = async (_req, res, params, user) => {
+  const session = getScopedStore(user).deleteSession(params.id);
+
+  if (!session) {
+    return sendError(res, 404, "Session not found");
+  }
+
+  sendJson(res, 200, { deleted: true, sessionId: params.id });
+};
+
 /**
  * POST /sessions/:id/annotations - Add annotation to session.
  */
-const addAnnotationHandler: RouteHandler = async (req, res, params) => {
+const addAnnotationHandler: RouteHandler = async (req, res, params, user) => {
   try {
     const body = await parseBody<Omit<Annotation, "id" | "sessionId" | "status" | "createdAt">>(req);
 
@@ -357,7 +828,7 @@ const addAnnotationHandler: RouteHandler = async (req, res, params) => {
       return sendError(res, 400, "comment, element, and elementPath are required");
     }
 
-    const annotation = addAnnotation(params.id, body);
+    const annotation = getScopedStore(user).addAnnotation(params.id, body);
 
     if (!annotation) {
       return sendError(res, 404, "Session not found");
@@ -365,152 +836,693 @@ const addAnnotationHandler: RouteHandler = async (req, res, params) => {
 
     sendJson(res, 201, annotation);
   } catch (err) {
-    sendError(res, 400, (err as Error).message);
+    sendRequestError(res, err);
   }
 };
 
 /**
  * PATCH /annotations/:id - Update an annotation.
+ *
+ * Send If-Match with the ETag from a previous read to update only if
+ * nobody has changed the annotation since; otherwise responds 412.
+ * An assigneeId of null (or "") unassigns.
  */
-const updateAnnotationHandler: RouteHandler = async (req, res, params) => {
+const updateAnnotationHandler: RouteHandler = async (req, res, params, user) => {
+  const store = getScopedStore(user);
   try {
     const body = await parseBody<Partial<Annotation>>(req);
 
+    if ("assigneeId" in body) {
+      if ((body.assigneeId as unknown) !== null && typeof body.assigneeId !== "string") {
+        return sendError(res, 400, "assigneeId must be a string or null");
+      }
+      body.assigneeId = body.assigneeId || undefined;
+    }
+
     // Check if annotation exists
-    const existing = getAnnotation(params.id);
+    const existing = store.getAnnotation(params.id);
     if (!existing) {
       return sendError(res, 404, "Annotation not found");
     }
 
-    const annotation = updateAnnotation(params.id, body);
-    sendJson(res, 200, annotation);
+    const annotation = store.updateAnnotation(params.id, body, { ifVersion: parseIfMatch(req) });
+    sendJson(res, 200, annotation, annotation ? { ETag: annotationEtag(annotation) } : {});
   } catch (err) {
-    sendError(res, 400, (err as Error).message);
+    if (err instanceof VersionConflictError) {
+      return sendVersionConflict(res, store, err);
+    }
+    sendRequestError(res, err);
+  }
+};
+
+/**
+ * GET /annotations/:id - Get an annotation. The ETag header carries its
+ * version, for use with If-Match on PATCH and thread posts.
+ */
+const getAnnotationHandler: RouteHandler = async (_req, res, params, user) => {
+  const annotation = getScopedStore(user).getAnnotation(params.id);
+
+  if (!annotation) {
+    return sendError(res, 404, "Annotation not found");
   }
+
+  sendJson(res, 200, annotation, { ETag: annotationEtag(annotation) });
 };
 
 /**
- * GET /annotations/:id - Get an annotation.
+ * GET /annotations/:id/history - The annotation's timeline, rebuilt from
+ * the event log: creation, field changes with before/after values, status
+ * transitions, thread messages and deletion, each with who made it.
+ * Still available after the annotation is deleted, until its events
+ * expire.
  */
-const getAnnotationHandler: RouteHandler = async (_req, res, params) => {
-  const annotation = getAnnotation(params.id);
+const getAnnotationHistoryHandler: RouteHandler = async (_req, res, params, user) => {
+  const store = getScopedStore(user);
+  const annotation = store.getAnnotation(params.id);
+  const events = store.getAnnotationEvents(params.id);
+
+  if (!annotation && events.length === 0) {
+    return sendError(res, 404, "Annotation not found");
+  }
+
+  sendJson(res, 200, buildAnnotationHistory(params.id, events, annotation));
+};
+
+/**
+ * DELETE /annotations/:id - Delete an annotation.
+ */
+const deleteAnnotationHandler: RouteHandler = async (_req, res, params, user) => {
+  const annotation = getScopedStore(user).deleteAnnotation(params.id);
+
+  if (!annotation) {
+    return sendError(res, 404, "Annotation not found");
+  }
+
+  sendJson(res, 200, { deleted: true, annotationId: params.id });
+};
+
+/**
+ * Take tokens from the client's rate limit buckets (by API key, else by
+ * address), one per item written. Every bucket is checked before any is
+ * charged. Sends a 429 and returns false if one is short.
+ */
+function takeRateLimits(
+  req: IncomingMessage,
+  res: ServerResponse,
+  costs: Partial<Record<RateLimitedRoute, number>>
+): boolean {
+  const key = authRequired ? extractApiKey(req, new URL(req.url || "/", "http://localhost")) : undefined;
+  const client = key ? `key:${key}` : `ip:${req.socket.remoteAddress}`;
+  const charges = RATE_LIMITED_ROUTES.flatMap((route) => {
+    const limiter = rateLimiters[route];
+    const cost = costs[route] ?? 0;
+    return limiter && cost > 0 ? [{ limiter, cost }] : [];
+  });
+
+  const retryAfter = Math.max(0, ...charges.map(({ limiter, cost }) => limiter.check(client, cost)));
+  if (retryAfter > 0) {
+    sendJson(res, 429, { error: "Too many requests", retryAfter }, { "Retry-After": String(retryAfter) });
+    return false;
+  }
+  for (const { limiter, cost } of charges) {
+    limiter.take(client, cost);
+  }
+  return true;
+}
+
+/**
+ * POST /annotations/bulk - Apply many annotation changes in one transaction.
+ *
+ * Body: { operations: BulkOperation[], atomic?: boolean }. Emits one event
+ * per change once the batch commits. With atomic, any failure rolls back
+ * the whole batch; otherwise failed items are skipped and reported.
+ */
+const bulkAnnotationsHandler: RouteHandler = async (req, res, _params, user) => {
+  try {
+    const body = await parseBody<{ operations?: BulkOperation[]; atomic?: boolean }>(req);
+
+    const validationError = validateBulkOperations(body.operations);
+    if (validationError) {
+      return sendError(res, 400, validationError);
+    }
+
+    // Replies count against the thread limit, as if posted one by one
+    const replies = body.operations!.filter((operation) => operation.op === "reply").length;
+    if (!takeRateLimits(req, res, { thread: replies })) return;
+
+    const result = getScopedStore(user).bulkUpdateAnnotations(body.operations!, {
+      atomic: body.atomic === true,
+    });
+    sendJson(res, 200, result);
+  } catch (err) {
+    sendRequestError(res, err);
+  }
+};
+
+/**
+ * GET /sessions/:id/pending - Get pending annotations for a session.
+ * Accepts the same filter and pagination parameters as GET /pending.
+ */
+const getPendingHandler: RouteHandler = async (req, res, params, user) => {
+  const query = parseQuery(req, res, parseAnnotationQuery);
+  if (!query) return;
+
+  const page = getScopedStore(user).queryPendingAnnotations({ ...query, sessionId: params.id });
+  sendJson(res, 200, {
+    count: page.items.length,
+    total: page.total,
+    annotations: page.items,
+    nextCursor: page.nextCursor,
+  });
+};
+
+/**
+ * GET /pending - Get pending annotations across all sessions.
+ *
+ * Supports status (of the parent session), projectId, url, domain, intent,
+ * severity, since, until, sort, cursor and limit query parameters.
+ * `count` is the number returned in this page; `total` counts every match.
+ */
+const getAllPendingHandler: RouteHandler = async (req, res, _params, user) => {
+  const query = parseQuery(req, res, parseAnnotationQuery);
+  if (!query) return;
+
+  const page = getScopedStore(user).queryPendingAnnotations(query);
+  sendJson(res, 200, {
+    count: page.items.length,
+    total: page.total,
+    annotations: page.items,
+    nextCursor: page.nextCursor,
+  });
+};
+
+/**
+ * GET /pending/output?detail= - Render pending annotations as markdown,
+ * one section per page. Accepts the GET /pending filters; the next page's
+ * cursor is returned in the X-Next-Cursor header.
+ */
+const pendingOutputHandler: RouteHandler = async (req, res, _params, user) => {
+  const detail = parseDetail(req, res);
+  if (!detail) return;
+  const query = parseQuery(req, res, parseAnnotationQuery);
+  if (!query) return;
+
+  const store = getScopedStore(user);
+  const page = store.queryPendingAnnotations(query);
+  const sessions = new Map<string, Session>();
+  for (const annotation of page.items) {
+    const session = annotation.sessionId ? store.getSession(annotation.sessionId) : undefined;
+    if (session) sessions.set(session.id, session);
+  }
+
+  const headers: Record<string, string> = { "X-Total-Count": String(page.total) };
+  if (page.nextCursor) {
+    headers["X-Next-Cursor"] = page.nextCursor;
+  }
+  sendText(res, 200, "text/markdown; charset=utf-8", generateSessionsOutput(page.items, sessions, detail), headers);
+};
+
+/**
+ * GET /search?q= - Full-text search across annotation comments, page
+ * context and thread replies. Optional sessionId and limit (max 100).
+ * Hits are ranked best first, each with a highlighted snippet.
+ */
+const searchHandler: RouteHandler = async (req, res, _params, user) => {
+  const url = new URL(req.url || "/", "http://localhost");
+  const q = url.searchParams.get("q")?.trim();
+  if (!q) {
+    return sendError(res, 400, "q is required");
+  }
+
+  const limit = parseInt(url.searchParams.get("limit") || "20", 10);
+  const results = getScopedStore(user).searchAnnotations(q, {
+    sessionId: url.searchParams.get("sessionId") || undefined,
+    limit: isNaN(limit) || limit < 1 ? 20 : limit,
+  });
+  sendJson(res, 200, { query: q, count: results.length, results });
+};
+
+/**
+ * POST /sessions/:id/action - Request agent action on annotations.
+ *
+ * Emits an action.requested event via SSE with the current annotations
+ * and formatted output. The agent can listen for this event to know
+ * when the user wants action taken. If the body has no `output` (e.g. a
+ * CI job rather than the toolbar), it is rendered server-side at the
+ * requested `detail` level.
+ *
+ * Also sends webhooks to configured URLs (via AGENTATION_WEBHOOK_URL or
+ * AGENTATION_WEBHOOKS environment variables). Subscriptions that list
+ * action.requested receive it through the event bus like any other event.
+ */
+const requestActionHandler: RouteHandler = async (req, res, params, user) => {
+  try {
+    const sessionId = params.id;
+    const body = await parseBody<{ output?: string; detail?: OutputDetailLevel }>(req);
+
+    // Verify session exists
+    const session = getScopedStore(user).getSessionWithAnnotations(sessionId);
+    if (!session) {
+      return sendError(res, 404, "Session not found");
+    }
+
+    const detail = body.detail ?? "standard";
+    if (!OUTPUT_DETAIL_LEVELS.includes(detail)) {
+      return sendError(res, 400, `detail must be one of ${OUTPUT_DETAIL_LEVELS.join(", ")}`);
+    }
+
+    // Build action request payload
+    const actionRequest: ActionRequest = {
+      sessionId,
+      annotations: session.annotations,
+      output:
+        body.output ||
+        generateOutput(session.annotations, pageLabel(session.url), detail, { url: session.url }),
+      timestamp: new Date().toISOString(),
+    };
+
+    // Emit event (will be sent to all SSE subscribers)
+    emitEvent(user, "action.requested", sessionId, actionRequest);
+
+    // Queue signed webhook deliveries (retried in the background)
+    const webhookUrls = getWebhookUrls();
+    sendWebhooks(webhookUrls, "action.requested", sessionId, actionRequest);
+
+    // Return delivery info so client knows if anyone received it
+    // Only count agent connections (with ?agent=true), not browser toolbar connections
+    const agentListeners = agentConnections.size;
+    const webhooks = webhookUrls.length;
+
+    sendJson(res, 200, {
+      success: true,
+      annotationCount: session.annotations.length,
+      delivered: {
+        sseListeners: agentListeners,
+        webhooks: webhooks,
+        total: agentListeners + webhooks,
+      },
+    });
+  } catch (err) {
+    sendRequestError(res, err);
+  }
+};
+
+/**
+ * POST /annotations/:id/thread - Add a thread message. Honors If-Match
+ * like PATCH /annotations/:id. A human reply to an annotation that is
+ * awaiting_human (see agentation_ask) moves it to acknowledged.
+ */
+const addThreadHandler: RouteHandler = async (req, res, params, user) => {
+  const store = getScopedStore(user);
+  try {
+    const body = await parseBody<{ role: "human" | "agent"; content: string }>(req);
+
+    if (!body.role || !body.content) {
+      return sendError(res, 400, "role and content are required");
+    }
+
+    let annotation = store.addThreadMessage(params.id, body.role, body.content, {
+      ifVersion: parseIfMatch(req),
+    });
+
+    if (!annotation) {
+      return sendError(res, 404, "Annotation not found");
+    }
+
+    // The question is answered; the agent that asked picks it back up
+    if (body.role === "human" && annotation.status === "awaiting_human") {
+      annotation = store.updateAnnotationStatus(annotation.id, "acknowledged") ?? annotation;
+    }
+
+    sendJson(res, 201, annotation, { ETag: annotationEtag(annotation) });
+  } catch (err) {
+    if (err instanceof VersionConflictError) {
+      return sendVersionConflict(res, store, err);
+    }
+    sendRequestError(res, err);
+  }
+};
+
+/**
+ * POST /annotations/:id/attachments?filename= - Attach a file, such as an
+ * element screenshot, JSON or a HAR capture. The body is the raw file and
+ * Content-Type its MIME type. Up to 10 MB.
+ */
+const uploadAttachmentHandler: RouteHandler = async (req, res, params, user) => {
+  const store = getScopedStore(user);
+  if (!store.getAnnotation(params.id)) {
+    return sendError(res, 404, "Annotation not found");
+  }
+
+  const contentType = normalizeContentType(req.headers["content-type"]);
+  if (!contentType) {
+    return sendError(res, 400, "Content-Type must be a MIME type");
+  }
+  const limit = Math.min(MAX_ATTACHMENT_BYTES, maxBodyBytes);
+  const tooLarge = `Attachments are limited to ${limit} bytes`;
+  if (Number(req.headers["content-length"]) > limit) {
+    return sendError(res, 413, tooLarge);
+  }
+
+  try {
+    const content = await readRawBody(req, limit);
+    if (!content) {
+      return sendError(res, 413, tooLarge);
+    }
+    if (content.length === 0) {
+      return sendError(res, 400, "Request body is empty");
+    }
+
+    const url = new URL(req.url || "/", "http://localhost");
+    const attachment = store.addAttachment(params.id, {
+      filename: normalizeFilename(url.searchParams.get("filename") ?? undefined),
+      contentType,
+      content,
+    });
+    if (!attachment) {
+      return sendError(res, 404, "Annotation not found");
+    }
+
+    sendJson(res, 201, attachment);
+  } catch (err) {
+    sendRequestError(res, err);
+  }
+};
+
+/**
+ * GET /annotations/:id/attachments - List an annotation's attachments
+ * (metadata only; download each from GET /attachments/:id).
+ */
+const listAttachmentsHandler: RouteHandler = async (_req, res, params, user) => {
+  const store = getScopedStore(user);
+  if (!store.getAnnotation(params.id)) {
+    return sendError(res, 404, "Annotation not found");
+  }
+
+  sendJson(res, 200, store.listAttachments(params.id));
+};
+
+/**
+ * GET /attachments/:id - Download an attachment. Raster images are served
+ * inline; everything else as a download.
+ */
+const getAttachmentHandler: RouteHandler = async (_req, res, params, user) => {
+  const store = getScopedStore(user);
+  const attachment = store.getAttachment(params.id);
+  const content = attachment && store.getAttachmentContent(params.id);
+  if (!attachment || !content) {
+    return sendError(res, 404, "Attachment not found");
+  }
+
+  sendText(res, 200, attachment.contentType, content, {
+    "Content-Length": String(content.byteLength),
+    "Content-Disposition": contentDisposition(attachment),
+    "X-Content-Type-Options": "nosniff",
+  });
+};
+
+/**
+ * DELETE /attachments/:id - Delete an attachment.
+ */
+const deleteAttachmentHandler: RouteHandler = async (_req, res, params, user) => {
+  const attachment = getScopedStore(user).deleteAttachment(params.id);
+
+  if (!attachment) {
+    return sendError(res, 404, "Attachment not found");
+  }
+
+  sendJson(res, 200, { deleted: true, attachmentId: params.id });
+};
+
+/**
+ * GET /webhooks/deliveries - List webhook delivery attempts, newest first.
+ *
+ * Optional query: ?status=pending|succeeded|failed&limit=N
+ */
+const listWebhookDeliveriesHandler: RouteHandler = async (req, res, _params, user) => {
+  const url = new URL(req.url || "/", "http://localhost");
+  const status = url.searchParams.get("status") as WebhookDeliveryStatus | null;
+  const limit = parseInt(url.searchParams.get("limit") || "100", 10);
+
+  if (status && !["pending", "succeeded", "failed"].includes(status)) {
+    return sendError(res, 400, "status must be pending, succeeded, or failed");
+  }
+
+  const deliveries = getScopedStore(user).listWebhookDeliveries({
+    status: status ?? undefined,
+    limit: isNaN(limit) || limit < 1 ? 100 : limit,
+  });
+  sendJson(res, 200, { count: deliveries.length, deliveries });
+};
+
+/**
+ * POST /webhooks/deliveries/:id/redeliver - Resend a delivery.
+ */
+const redeliverWebhookHandler: RouteHandler = async (_req, res, params, user) => {
+  if (!getScopedStore(user).getWebhookDelivery(params.id)) {
+    return sendError(res, 404, "Delivery not found");
+  }
+
+  const delivery = redeliverWebhook(params.id);
+  sendJson(res, 202, delivery);
+};
+
+/**
+ * Strip the signing secret from a subscription before returning it.
+ */
+function toPublicSubscription(
+  subscription: WebhookSubscription
+): Omit<WebhookSubscription, "secret"> & { hasSecret: boolean } {
+  const { secret, ...rest } = subscription;
+  return { ...rest, hasSecret: !!secret };
+}
+
+type SubscriptionInput = Pick<
+  WebhookSubscription,
+  "url" | "events" | "projectId" | "domain" | "severities" | "secret" | "active"
+>;
+
+/**
+ * Pick the writable subscription fields from a request body.
+ */
+function pickSubscriptionInput(body: Partial<SubscriptionInput>): Partial<SubscriptionInput> {
+  const input: Partial<SubscriptionInput> = {};
+  if (body.url !== undefined) input.url = body.url;
+  if (body.events !== undefined) input.events = body.events;
+  if (body.projectId !== undefined) input.projectId = body.projectId || undefined;
+  if (body.domain !== undefined) input.domain = body.domain || undefined;
+  if (body.severities !== undefined) input.severities = body.severities;
+  if (body.secret !== undefined) input.secret = body.secret || undefined;
+  if (body.active !== undefined) input.active = !!body.active;
+  return input;
+}
+
+/**
+ * POST /webhooks - Create a webhook subscription.
+ */
+const createWebhookHandler: RouteHandler = async (req, res, _params, user) => {
+  try {
+    const input = pickSubscriptionInput(await parseBody<Partial<SubscriptionInput>>(req));
+
+    const validationError = validateSubscriptionInput(input);
+    if (validationError) {
+      return sendError(res, 400, validationError);
+    }
+
+    const subscription = getScopedStore(user).createWebhookSubscription({
+      ...input,
+      url: input.url!,
+      events: input.events!,
+      active: input.active ?? true,
+    });
+    sendJson(res, 201, toPublicSubscription(subscription));
+  } catch (err) {
+    sendRequestError(res, err);
+  }
+};
+
+/**
+ * GET /webhooks - List webhook subscriptions.
+ */
+const listWebhooksHandler: RouteHandler = async (_req, res, _params, user) => {
+  const subscriptions = getScopedStore(user).listWebhookSubscriptions();
+  sendJson(res, 200, subscriptions.map(toPublicSubscription));
+};
+
+/**
+ * GET /webhooks/:id - Get a webhook subscription.
+ */
+const getWebhookHandler: RouteHandler = async (_req, res, params, user) => {
+  const subscription = getScopedStore(user).getWebhookSubscription(params.id);
+
+  if (!subscription) {
+    return sendError(res, 404, "Webhook not found");
+  }
+
+  sendJson(res, 200, toPublicSubscription(subscription));
+};
+
+/**
+ * PATCH /webhooks/:id - Update a webhook subscription.
+ */
+const updateWebhookHandler: RouteHandler = async (req, res, params, user) => {
+  try {
+    const input = pickSubscriptionInput(await parseBody<Partial<SubscriptionInput>>(req));
+
+    const validationError = validateSubscriptionInput(input, true);
+    if (validationError) {
+      return sendError(res, 400, validationError);
+    }
+
+    const subscription = getScopedStore(user).updateWebhookSubscription(params.id, input);
+    if (!subscription) {
+      return sendError(res, 404, "Webhook not found");
+    }
 
-  if (!annotation) {
-    return sendError(res, 404, "Annotation not found");
+    sendJson(res, 200, toPublicSubscription(subscription));
+  } catch (err) {
+    sendRequestError(res, err);
   }
-
-  sendJson(res, 200, annotation);
 };
 
 /**
- * DELETE /annotations/:id - Delete an annotation.
+ * DELETE /webhooks/:id - Delete a webhook subscription.
  */
-const deleteAnnotationHandler: RouteHandler = async (_req, res, params) => {
-  const annotation = deleteAnnotation(params.id);
+const deleteWebhookHandler: RouteHandler = async (_req, res, params, user) => {
+  const subscription = getScopedStore(user).deleteWebhookSubscription(params.id);
 
-  if (!annotation) {
-    return sendError(res, 404, "Annotation not found");
+  if (!subscription) {
+    return sendError(res, 404, "Webhook not found");
   }
 
-  sendJson(res, 200, { deleted: true, annotationId: params.id });
+  sendJson(res, 200, { deleted: true, webhookId: params.id });
 };
 
+type ProjectInput = Pick<
+  Project,
+  "name" | "urlPatterns" | "allowedOrigins" | "defaultSeverity" | "routing" | "repoPath"
+>;
+
 /**
- * GET /sessions/:id/pending - Get pending annotations for a session.
+ * Pick the writable project fields from a request body.
  */
-const getPendingHandler: RouteHandler = async (_req, res, params) => {
-  const pending = getPendingAnnotations(params.id);
-  sendJson(res, 200, { count: pending.length, annotations: pending });
-};
+function pickProjectInput(body: Partial<ProjectInput>): Partial<ProjectInput> {
+  const input: Partial<ProjectInput> = {};
+  if (body.name !== undefined) input.name = body.name;
+  if (body.urlPatterns !== undefined) input.urlPatterns = body.urlPatterns;
+  if (body.allowedOrigins !== undefined) input.allowedOrigins = body.allowedOrigins || undefined;
+  if (body.defaultSeverity !== undefined) input.defaultSeverity = body.defaultSeverity || undefined;
+  if (body.routing !== undefined) input.routing = body.routing || undefined;
+  if (body.repoPath !== undefined) input.repoPath = body.repoPath || undefined;
+  return input;
+}
 
 /**
- * GET /pending - Get all pending annotations across all sessions.
+ * A project with the webhook subscriptions scoped to it.
  */
-const getAllPendingHandler: RouteHandler = async (_req, res) => {
-  const sessions = listSessions();
-  const allPending = sessions.flatMap((session) => getPendingAnnotations(session.id));
-  sendJson(res, 200, { count: allPending.length, annotations: allPending });
-};
+function toProjectResponse(
+  project: Project,
+  store: AFSStore
+): Project & { webhooks: ReturnType<typeof toPublicSubscription>[] } {
+  const webhooks = store
+    .listWebhookSubscriptions()
+    .filter((subscription) => subscription.projectId === project.id)
+    .map(toPublicSubscription);
+  return { ...project, webhooks };
+}
 
 /**
- * POST /sessions/:id/action - Request agent action on annotations.
- *
- * Emits an action.requested event via SSE with the current annotations
- * and formatted output. The agent can listen for this event to know
- * when the user wants action taken.
+ * POST /projects - Create a project.
  *
- * Also sends webhooks to configured URLs (via AGENTATION_WEBHOOK_URL or
- * AGENTATION_WEBHOOKS environment variables).
+ * Body may include `webhooks`, an array of subscriptions (as for
+ * POST /webhooks) to create scoped to the new project.
  */
-const requestActionHandler: RouteHandler = async (req, res, params) => {
+const createProjectHandler: RouteHandler = async (req, res, _params, user) => {
   try {
-    const sessionId = params.id;
-    const body = await parseBody<{ output: string }>(req);
+    const body = await parseBody<Partial<ProjectInput> & { webhooks?: Partial<SubscriptionInput>[] }>(req);
+    const input = pickProjectInput(body);
 
-    // Verify session exists
-    const session = getSessionWithAnnotations(sessionId);
-    if (!session) {
-      return sendError(res, 404, "Session not found");
+    const validationError = validateProjectInput(input);
+    if (validationError) {
+      return sendError(res, 400, validationError);
     }
 
-    if (!body.output) {
-      return sendError(res, 400, "output is required");
+    if (body.webhooks !== undefined && !Array.isArray(body.webhooks)) {
+      return sendError(res, 400, "webhooks must be an array of subscriptions");
+    }
+    const webhooks = (body.webhooks ?? []).map(pickSubscriptionInput);
+    for (const webhook of webhooks) {
+      const webhookError = validateSubscriptionInput(webhook);
+      if (webhookError) {
+        return sendError(res, 400, `webhooks: ${webhookError}`);
+      }
     }
 
-    // Build action request payload
-    const actionRequest: ActionRequest = {
-      sessionId,
-      annotations: session.annotations,
-      output: body.output,
-      timestamp: new Date().toISOString(),
-    };
-
-    // Emit event (will be sent to all SSE subscribers)
-    eventBus.emit("action.requested", sessionId, actionRequest);
+    const store = getScopedStore(user);
+    const project = store.createProject({ ...input, name: input.name!, urlPatterns: input.urlPatterns! });
+    projectOrigins = undefined;
+    for (const webhook of webhooks) {
+      store.createWebhookSubscription({
+        ...webhook,
+        url: webhook.url!,
+        events: webhook.events!,
+        projectId: project.id,
+        active: webhook.active ?? true,
+      });
+    }
+    sendJson(res, 201, toProjectResponse(project, store));
+  } catch (err) {
+    sendRequestError(res, err);
+  }
+};
 
-    // Send webhooks (fire and forget, non-blocking)
-    const webhookUrls = getWebhookUrls();
-    sendWebhooks(actionRequest);
+/**
+ * GET /projects - List projects.
+ */
+const listProjectsHandler: RouteHandler = async (_req, res, _params, user) => {
+  const store = getScopedStore(user);
+  sendJson(res, 200, store.listProjects().map((project) => toProjectResponse(project, store)));
+};
 
-    // Return delivery info so client knows if anyone received it
-    // Only count agent connections (with ?agent=true), not browser toolbar connections
-    const agentListeners = agentConnections.size;
-    const webhooks = webhookUrls.length;
+/**
+ * GET /projects/:id - Get a project.
+ */
+const getProjectHandler: RouteHandler = async (_req, res, params, user) => {
+  const store = getScopedStore(user);
+  const project = store.getProject(params.id);
 
-    sendJson(res, 200, {
-      success: true,
-      annotationCount: session.annotations.length,
-      delivered: {
-        sseListeners: agentListeners,
-        webhooks: webhooks,
-        total: agentListeners + webhooks,
-      },
-    });
-  } catch (err) {
-    sendError(res, 400, (err as Error).message);
+  if (!project) {
+    return sendError(res, 404, "Project not found");
   }
+
+  sendJson(res, 200, toProjectResponse(project, store));
 };
 
 /**
- * POST /annotations/:id/thread - Add a thread message.
+ * PATCH /projects/:id - Update a project.
+ *
+ * Sessions keep the project they were assigned when created; changed URL
+ * patterns only affect new sessions.
  */
-const addThreadHandler: RouteHandler = async (req, res, params) => {
+const updateProjectHandler: RouteHandler = async (req, res, params, user) => {
   try {
-    const body = await parseBody<{ role: "human" | "agent"; content: string }>(req);
+    const input = pickProjectInput(await parseBody<Partial<ProjectInput>>(req));
 
-    if (!body.role || !body.content) {
-      return sendError(res, 400, "role and content are required");
+    const validationError = validateProjectInput(input, true);
+    if (validationError) {
+      return sendError(res, 400, validationError);
     }
 
-    const annotation = addThreadMessage(params.id, body.role, body.content);
-
-    if (!annotation) {
-      return sendError(res, 404, "Annotation not found");
+    const store = getScopedStore(user);
+    const project = store.updateProject(params.id, input);
+    if (!project) {
+      return sendError(res, 404, "Project not found");
     }
+    projectOrigins = undefined;
 
-    sendJson(res, 201, annotation);
+    sendJson(res, 200, toProjectResponse(project, store));
   } catch (err) {
-    sendError(res, 400, (err as Error).message);
+    sendRequestError(res, err);
   }
 };
 
@@ -518,15 +1530,21 @@ const addThreadHandler: RouteHandler = async (req, res, params) => {
  * GET /sessions/:id/events - SSE stream of events for a session.
  *
  * Supports reconnection via Last-Event-ID header.
- * Events are streamed in real-time as they occur.
+ * Events are streamed in real-time as they occur, narrowed by the
+ * filter parameters (see parseEventFilter).
  */
-const sseHandler: RouteHandler = async (req, res, params) => {
+const sseHandler: RouteHandler = async (req, res, params, user) => {
   const sessionId = params.id;
   const url = new URL(req.url || "/", "http://localhost");
   const isAgent = url.searchParams.get("agent") === "true";
+  const store = getScopedStore(user);
+
+  const filter = parseQuery(req, res, parseEventFilter);
+  if (!filter) return;
+  const include = (event: AFSEvent) => matchesEventFilter(event, filter, (id) => store.getSession(id));
 
   // Verify session exists
-  const session = getSessionWithAnnotations(sessionId);
+  const session = store.getSessionWithAnnotations(sessionId);
   if (!session) {
     return sendError(res, 404, "Session not found");
   }
@@ -536,7 +1554,6 @@ const sseHandler: RouteHandler = async (req, res, params) => {
     "Content-Type": "text/event-stream",
     "Cache-Control": "no-cache",
     Connection: "keep-alive",
-    "Access-Control-Allow-Origin": "*",
   });
 
   // Track this connection
@@ -548,22 +1565,14 @@ const sseHandler: RouteHandler = async (req, res, params) => {
   // Send initial comment to establish connection
   res.write(": connected\n\n");
 
-  // Check for Last-Event-ID for replay
-  const lastEventId = req.headers["last-event-id"];
-  if (lastEventId) {
-    const lastSequence = parseInt(lastEventId as string, 10);
-    if (!isNaN(lastSequence)) {
-      // Replay missed events
-      const missedEvents = getEventsSince(sessionId, lastSequence);
-      for (const event of missedEvents) {
-        sendSSEEvent(res, event);
-      }
-    }
-  }
+  // Replay missed events (Last-Event-ID)
+  replayMissedEvents(req, res, store, (sequence) => store.getEventsSince(sessionId, sequence), include);
 
   // Subscribe to new events
-  const unsubscribe = eventBus.subscribeToSession(sessionId, (event: AFSEvent) => {
-    sendSSEEvent(res, event);
+  const unsubscribe = subscribeSessionEvents(user, sessionId, (event: AFSEvent) => {
+    if (include(event)) {
+      sendSSEEvent(res, event);
+    }
   });
 
   // Keep connection alive with periodic comments
@@ -589,24 +1598,74 @@ function sendSSEEvent(res: ServerResponse, event: AFSEvent): void {
   res.write(`data: ${JSON.stringify(event)}\n\n`);
 }
 
+/**
+ * Replay events after the client's Last-Event-ID.
+ *
+ * If the log no longer covers that point (pruned by
+ * AGENTATION_EVENT_RETENTION_DAYS, or the ID is ahead of this server's
+ * sequence), sends a `reset` event instead: the client must refetch state.
+ * The reset carries the current sequence as its ID so the next reconnect
+ * resumes from there.
+ *
+ * @returns "none" without a usable Last-Event-ID, otherwise what was sent
+ */
+function replayMissedEvents(
+  req: IncomingMessage,
+  res: ServerResponse,
+  store: AFSStore,
+  readEvents: (sequence: number) => AFSEvent[],
+  include: (event: AFSEvent) => boolean = () => true
+): "none" | "replayed" | "reset" {
+  const header = req.headers["last-event-id"];
+  const lastSequence = typeof header === "string" ? parseInt(header, 10) : NaN;
+  if (isNaN(lastSequence)) return "none";
+
+  const currentSequence = eventBus.getSequence();
+  const prunedSequence = store.getPrunedSequence();
+  if (lastSequence < prunedSequence || lastSequence > currentSequence) {
+    const reason = lastSequence > currentSequence ? "unknown" : "pruned";
+    res.write("event: reset\n");
+    res.write(`id: ${currentSequence}\n`);
+    res.write(
+      `data: ${JSON.stringify({ reason, lastEventId: lastSequence, sequence: currentSequence, timestamp: new Date().toISOString() })}\n\n`
+    );
+    return "reset";
+  }
+
+  for (const event of readEvents(lastSequence)) {
+    if (include(event)) sendSSEEvent(res, event);
+  }
+  return "replayed";
+}
+
 /**
  * GET /events - Global SSE stream.
  *
  * Optionally filter by domain: GET /events?domain=example.com
  * Without domain, streams ALL events across all sessions.
  * Useful for agents that need to track feedback across page navigations.
+ * The other filter parameters (types, status, ...) also apply; see
+ * parseEventFilter.
+ *
+ * Supports reconnection via Last-Event-ID header. Replayed events go through
+ * the same domain filter. When the missed events can't be replayed, a
+ * `reset` event is sent and agents get the initial pending sync again.
  */
-const globalSseHandler: RouteHandler = async (req, res) => {
+const globalSseHandler: RouteHandler = async (req, res, _params, user) => {
   const url = new URL(req.url || "/", "http://localhost");
   const domain = url.searchParams.get("domain");
   const isAgent = url.searchParams.get("agent") === "true";
+  const store = getScopedStore(user);
+
+  const filter = parseQuery(req, res, parseEventFilter);
+  if (!filter) return;
+  const include = (event: AFSEvent) => matchesEventFilter(event, filter, (id) => store.getSession(id));
 
   // Set up SSE headers
   res.writeHead(200, {
     "Content-Type": "text/event-stream",
     "Cache-Control": "no-cache",
     Connection: "keep-alive",
-    "Access-Control-Allow-Origin": "*",
   });
 
   // Track this connection
@@ -618,10 +1677,19 @@ const globalSseHandler: RouteHandler = async (req, res) => {
   // Send initial comment to establish connection
   res.write(`: connected${domain ? ` to domain ${domain}` : ""}\n\n`);
 
+  // Replay missed events (Last-Event-ID); a replaying client already has state
+  const replay = replayMissedEvents(
+    req,
+    res,
+    store,
+    (sequence) => store.getEventsSinceGlobal(sequence),
+    include
+  );
+
   // Send all pending annotations on connect (initial sync for agents)
-  if (isAgent) {
+  if (isAgent && replay !== "replayed") {
     let syncCount = 0;
-    const sessions = listSessions();
+    const sessions = store.listSessions();
     for (const session of sessions) {
       try {
         // If domain is specified, filter by it; otherwise include all sessions
@@ -629,17 +1697,19 @@ const globalSseHandler: RouteHandler = async (req, res) => {
           const sessionHost = new URL(session.url).host;
           if (sessionHost !== domain) continue;
         }
-        const pending = getPendingAnnotations(session.id);
+        const pending = store.getPendingAnnotations(session.id);
         for (const annotation of pending) {
           // Send as annotation.created events so agents see existing annotations
           // Use sequence 0 for initial sync events (they're historical, not new)
-          sendSSEEvent(res, {
+          const event: AFSEvent = {
             type: "annotation.created",
             sessionId: session.id,
             timestamp: annotation.createdAt || new Date().toISOString(),
             sequence: 0,
             payload: annotation,
-          });
+          };
+          if (!include(event)) continue;
+          sendSSEEvent(res, event);
           syncCount++;
         }
       } catch {
@@ -650,23 +1720,10 @@ const globalSseHandler: RouteHandler = async (req, res) => {
     res.write(`event: sync.complete\ndata: ${JSON.stringify({ domain: domain ?? "all", count: syncCount, timestamp: new Date().toISOString() })}\n\n`);
   }
 
-  // Subscribe to all events, optionally filter by domain
-  const unsubscribe = eventBus.subscribe((event: AFSEvent) => {
-    if (!domain) {
-      // No domain filter -- stream all events
+  // Subscribe to all events, dropping those the filter excludes
+  const unsubscribe = subscribeEvents(user, (event: AFSEvent) => {
+    if (include(event)) {
       sendSSEEvent(res, event);
-      return;
-    }
-    const session = getSession(event.sessionId);
-    if (session) {
-      try {
-        const sessionHost = new URL(session.url).host;
-        if (sessionHost === domain) {
-          sendSSEEvent(res, event);
-        }
-      } catch {
-        // Invalid URL, skip
-      }
     }
   });
 
@@ -688,14 +1745,18 @@ const globalSseHandler: RouteHandler = async (req, res) => {
  * Handle MCP protocol requests at /mcp endpoint.
  * Supports POST (requests), GET (SSE stream), and DELETE (session cleanup).
  */
-async function handleMcp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+async function handleMcp(
+  req: IncomingMessage,
+  res: ServerResponse,
+  user?: UserContext,
+  rawKey?: string
+): Promise<void> {
   const method = req.method || "GET";
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
 
-  // Add CORS headers to all responses
-  res.setHeader("Access-Control-Allow-Origin", "*");
+  // Add CORS headers to all responses (Allow-Origin is set per request)
   res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Accept, Mcp-Session-Id");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Accept, Authorization, x-api-key, Mcp-Session-Id");
   res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
 
   // POST: Handle JSON-RPC requests
@@ -703,8 +1764,9 @@ async function handleMcp(req: IncomingMessage, res: ServerResponse): Promise<voi
     let transport: StreamableHTTPServerTransport;
 
     if (sessionId) {
-      // Session ID provided - must exist in our map
-      if (!mcpTransports.has(sessionId)) {
+      // Session ID provided - must exist in our map (and be the caller's)
+      const existing = getMcpTransport(sessionId, user);
+      if (!existing) {
         res.writeHead(404, { "Content-Type": "application/json" });
         res.end(JSON.stringify({
           jsonrpc: "2.0",
@@ -713,7 +1775,7 @@ async function handleMcp(req: IncomingMessage, res: ServerResponse): Promise<voi
         }));
         return;
       }
-      transport = mcpTransports.get(sessionId)!;
+      transport = existing;
     } else {
       // No session ID - this should be an initialize request, create new session
       const { transport: newTransport } = createMcpSession();
@@ -721,23 +1783,25 @@ async function handleMcp(req: IncomingMessage, res: ServerResponse): Promise<voi
     }
 
     try {
-      // Read the request body
-      const body = await new Promise<string>((resolve, reject) => {
-        let data = "";
-        req.on("data", (chunk) => (data += chunk));
-        req.on("end", () => resolve(data));
-        req.on("error", reject);
-      });
+      // Read the request body, held to the same limit as the REST routes
+      const body = await readRawBody(req, maxBodyBytes);
+      if (!body) {
+        res.writeHead(413, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: `Request body exceeds ${maxBodyBytes} bytes` }));
+        return;
+      }
 
-      const parsedBody = body ? JSON.parse(body) : undefined;
+      const parsedBody = body.length > 0 ? JSON.parse(body.toString("utf-8")) : undefined;
 
-      // Handle the request through the transport (it writes directly to res)
-      await transport.handleRequest(req, res, parsedBody);
+      // Handle the request through the transport (it writes directly to res);
+      // tools call back into this server with the caller's key
+      await withApiKey(rawKey, () => transport.handleRequest(req, res, parsedBody));
 
       // Store the transport with its session ID after the request is handled (for new sessions)
       const newSessionId = transport.sessionId;
       if (newSessionId && !mcpTransports.has(newSessionId)) {
         mcpTransports.set(newSessionId, transport);
+        if (user) mcpSessionOwners.set(newSessionId, user.userId);
         console.log(`[MCP HTTP] New session created: ${newSessionId}`);
       }
     } catch (err) {
@@ -752,14 +1816,13 @@ async function handleMcp(req: IncomingMessage, res: ServerResponse): Promise<voi
 
   // GET: SSE stream for notifications
   if (method === "GET") {
-    if (!sessionId || !mcpTransports.has(sessionId)) {
+    const transport = getMcpTransport(sessionId, user);
+    if (!transport) {
       res.writeHead(400, { "Content-Type": "application/json" });
       res.end(JSON.stringify({ error: "Missing or invalid Mcp-Session-Id" }));
       return;
     }
 
-    const transport = mcpTransports.get(sessionId)!;
-
     try {
       // Handle the SSE request (transport writes directly to res)
       await transport.handleRequest(req, res);
@@ -775,10 +1838,11 @@ async function handleMcp(req: IncomingMessage, res: ServerResponse): Promise<voi
 
   // DELETE: Session cleanup
   if (method === "DELETE") {
-    if (sessionId && mcpTransports.has(sessionId)) {
-      const transport = mcpTransports.get(sessionId)!;
+    const transport = getMcpTransport(sessionId, user);
+    if (sessionId && transport) {
       await transport.close();
       mcpTransports.delete(sessionId);
+      mcpSessionOwners.delete(sessionId);
       res.writeHead(204);
       res.end();
     } else {
@@ -802,8 +1866,22 @@ type Route = {
   pattern: RegExp;
   handler: RouteHandler;
   paramNames: string[];
+  /** Token bucket applied per client */
+  rateLimit?: RateLimitedRoute;
 };
 
+/**
+ * Route template for metrics labels, e.g. /^\/sessions\/([^/]+)$/ with
+ * paramNames ["id"] becomes "/sessions/:id".
+ */
+function routeTemplate(route: Route): string {
+  let i = 0;
+  return route.pattern.source
+    .replace(/^\^|\$$/g, "")
+    .replace(/\(\[\^\/\]\+\)/g, () => `:${route.paramNames[i++]}`)
+    .replace(/\\\//g, "/");
+}
+
 const routes: Route[] = [
   {
     method: "GET",
@@ -817,6 +1895,18 @@ const routes: Route[] = [
     handler: getAllPendingHandler,
     paramNames: [],
   },
+  {
+    method: "GET",
+    pattern: /^\/pending\/output$/,
+    handler: pendingOutputHandler,
+    paramNames: [],
+  },
+  {
+    method: "GET",
+    pattern: /^\/search$/,
+    handler: searchHandler,
+    paramNames: [],
+  },
   {
     method: "GET",
     pattern: /^\/sessions$/,
@@ -827,6 +1917,7 @@ const routes: Route[] = [
     method: "POST",
     pattern: /^\/sessions$/,
     handler: createSessionHandler,
+    rateLimit: "session",
     paramNames: [],
   },
   {
@@ -835,6 +1926,36 @@ const routes: Route[] = [
     handler: getSessionHandler,
     paramNames: ["id"],
   },
+  {
+    method: "PATCH",
+    pattern: /^\/sessions\/([^/]+)$/,
+    handler: updateSessionHandler,
+    paramNames: ["id"],
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/sessions\/([^/]+)$/,
+    handler: deleteSessionHandler,
+    paramNames: ["id"],
+  },
+  {
+    method: "GET",
+    pattern: /^\/sessions\/([^/]+)\/export$/,
+    handler: exportSessionHandler,
+    paramNames: ["id"],
+  },
+  {
+    method: "GET",
+    pattern: /^\/sessions\/([^/]+)\/output$/,
+    handler: sessionOutputHandler,
+    paramNames: ["id"],
+  },
+  {
+    method: "POST",
+    pattern: /^\/import$/,
+    handler: importHandler,
+    paramNames: [],
+  },
   {
     method: "GET",
     pattern: /^\/sessions\/([^/]+)\/events$/,
@@ -851,12 +1972,14 @@ const routes: Route[] = [
     method: "POST",
     pattern: /^\/sessions\/([^/]+)\/action$/,
     handler: requestActionHandler,
+    rateLimit: "action",
     paramNames: ["id"],
   },
   {
     method: "POST",
     pattern: /^\/sessions\/([^/]+)\/annotations$/,
     handler: addAnnotationHandler,
+    rateLimit: "annotation",
     paramNames: ["id"],
   },
   {
@@ -865,6 +1988,12 @@ const routes: Route[] = [
     handler: updateAnnotationHandler,
     paramNames: ["id"],
   },
+  {
+    method: "POST",
+    pattern: /^\/annotations\/bulk$/,
+    handler: bulkAnnotationsHandler,
+    paramNames: [],
+  },
   {
     method: "GET",
     pattern: /^\/annotations\/([^/]+)$/,
@@ -877,10 +2006,107 @@ const routes: Route[] = [
     handler: deleteAnnotationHandler,
     paramNames: ["id"],
   },
+  {
+    method: "GET",
+    pattern: /^\/annotations\/([^/]+)\/history$/,
+    handler: getAnnotationHistoryHandler,
+    paramNames: ["id"],
+  },
   {
     method: "POST",
     pattern: /^\/annotations\/([^/]+)\/thread$/,
     handler: addThreadHandler,
+    rateLimit: "thread",
+    paramNames: ["id"],
+  },
+  {
+    method: "POST",
+    pattern: /^\/annotations\/([^/]+)\/attachments$/,
+    handler: uploadAttachmentHandler,
+    paramNames: ["id"],
+  },
+  {
+    method: "GET",
+    pattern: /^\/annotations\/([^/]+)\/attachments$/,
+    handler: listAttachmentsHandler,
+    paramNames: ["id"],
+  },
+  {
+    method: "GET",
+    pattern: /^\/attachments\/([^/]+)$/,
+    handler: getAttachmentHandler,
+    paramNames: ["id"],
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/attachments\/([^/]+)$/,
+    handler: deleteAttachmentHandler,
+    paramNames: ["id"],
+  },
+  {
+    method: "GET",
+    pattern: /^\/webhooks\/deliveries$/,
+    handler: listWebhookDeliveriesHandler,
+    paramNames: [],
+  },
+  {
+    method: "POST",
+    pattern: /^\/webhooks\/deliveries\/([^/]+)\/redeliver$/,
+    handler: redeliverWebhookHandler,
+    paramNames: ["id"],
+  },
+  {
+    method: "GET",
+    pattern: /^\/webhooks$/,
+    handler: listWebhooksHandler,
+    paramNames: [],
+  },
+  {
+    method: "POST",
+    pattern: /^\/webhooks$/,
+    handler: createWebhookHandler,
+    paramNames: [],
+  },
+  {
+    method: "GET",
+    pattern: /^\/webhooks\/([^/]+)$/,
+    handler: getWebhookHandler,
+    paramNames: ["id"],
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/webhooks\/([^/]+)$/,
+    handler: updateWebhookHandler,
+    paramNames: ["id"],
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/webhooks\/([^/]+)$/,
+    handler: deleteWebhookHandler,
+    paramNames: ["id"],
+  },
+  {
+    method: "GET",
+    pattern: /^\/projects$/,
+    handler: listProjectsHandler,
+    paramNames: [],
+  },
+  {
+    method: "POST",
+    pattern: /^\/projects$/,
+    handler: createProjectHandler,
+    paramNames: [],
+  },
+  {
+    method: "GET",
+    pattern: /^\/projects\/([^/]+)$/,
+    handler: getProjectHandler,
+    paramNames: ["id"],
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/projects\/([^/]+)$/,
+    handler: updateProjectHandler,
     paramNames: ["id"],
   },
 ];
@@ -891,7 +2117,12 @@ const routes: Route[] = [
 function matchRoute(
   method: string,
   pathname: string
-): { handler: RouteHandler; params: Record<string, string> } | null {
+): {
+  handler: RouteHandler;
+  params: Record<string, string>;
+  template: string;
+  rateLimit?: RateLimitedRoute;
+} | null {
   for (const route of routes) {
     if (route.method !== method) continue;
 
@@ -901,7 +2132,7 @@ function matchRoute(
       route.paramNames.forEach((name, i) => {
         params[name] = match[i + 1];
       });
-      return { handler: route.handler, params };
+      return { handler: route.handler, params, template: routeTemplate(route), rateLimit: route.rateLimit };
     }
   }
   return null;
@@ -911,78 +2142,263 @@ function matchRoute(
 // Server
 // -----------------------------------------------------------------------------
 
+/**
+ * Resolve the TLS option (or its environment defaults) to credentials.
+ * Undefined means plain HTTP.
+ */
+function resolveTlsCredentials(
+  tls: HttpServerOptions["tls"],
+  host: string | undefined
+): TlsCredentials | undefined {
+  const { AGENTATION_TLS, AGENTATION_TLS_CERT, AGENTATION_TLS_KEY } = process.env;
+  const option =
+    tls ??
+    (AGENTATION_TLS_CERT && AGENTATION_TLS_KEY
+      ? { certPath: AGENTATION_TLS_CERT, keyPath: AGENTATION_TLS_KEY }
+      : AGENTATION_TLS === "self-signed"
+        ? "self-signed"
+        : undefined);
+
+  if (!option) return undefined;
+  if (option === "self-signed") return getSelfSignedCredentials(localServerNames(host));
+  return loadTlsCredentials(option.certPath, option.keyPath);
+}
+
+/**
+ * Serve HTTPS and plain HTTP on one port by sniffing each connection's
+ * first byte (0x16 starts a TLS handshake). Plain HTTP stays available so
+ * local agents and the MCP server don't need to trust the certificate;
+ * the request handler refuses it from other machines.
+ */
+function createDualProtocolServer(handler: RequestListener, credentials: TlsCredentials): NetServer {
+  const httpServer = createServer(handler);
+  const httpsServer = createHttpsServer(credentials, handler);
+
+  return createNetServer((socket) => {
+    socket.on("error", () => socket.destroy());
+    const dispatch = () => {
+      const first: Buffer | null = socket.read(1);
+      if (!first) {
+        socket.once("readable", dispatch);
+        return;
+      }
+      socket.unshift(first);
+      (first[0] === 0x16 ? httpsServer : httpServer).emit("connection", socket);
+    };
+    dispatch();
+  });
+}
+
 /**
  * Create and start the HTTP server.
  * @param port - Port to listen on
  * @param apiKey - Optional API key for cloud storage mode
+ * @param options - Optional server options (e.g. local API-key auth)
+ * @returns The listening server, so callers can close it
  */
-export function startHttpServer(port: number, apiKey?: string): void {
-  // Set cloud mode if API key provided
-  if (apiKey) {
+export function startHttpServer(
+  port: number,
+  apiKey?: string,
+  options: HttpServerOptions = {}
+): NetServer {
+  authRequired = options.requireAuth ?? process.env.AGENTATION_REQUIRE_AUTH === "true";
+  hybridMode = options.hybrid ?? process.env.AGENTATION_HYBRID === "true";
+  if (hybridMode && !apiKey) {
+    throw new Error("Hybrid mode needs a cloud API key");
+  }
+  if (hybridMode && authRequired) {
+    throw new Error("Hybrid mode replicates the shared local store and can't be combined with requireAuth");
+  }
+
+  // Set cloud mode if API key provided (hybrid mode keeps the key for replication)
+  if (apiKey && !hybridMode) {
     setCloudApiKey(apiKey);
   }
 
-  const server = createServer(async (req, res) => {
+  const host = options.host ?? process.env.AGENTATION_HOST;
+  const origins =
+    options.allowedOrigins ?? process.env.AGENTATION_ALLOWED_ORIGINS?.split(",").map((o) => o.trim()).filter(Boolean);
+  allowedOrigins = origins?.length ? parseAllowedOrigins(origins) : undefined;
+  maxBodyBytes = options.maxBodyBytes ?? (parseInt(process.env.AGENTATION_MAX_BODY_BYTES || "", 10) || DEFAULT_MAX_BODY_BYTES);
+  const credentials = resolveTlsCredentials(options.tls, host);
+  tlsEnabled = credentials !== undefined;
+  rateLimiters = createRateLimiters(
+    options.rateLimits ?? (process.env.AGENTATION_RATE_LIMITS ? parseRateLimits(process.env.AGENTATION_RATE_LIMITS) : {})
+  );
+
+  const handleRequest: RequestListener = async (req, res) => {
     const url = new URL(req.url || "/", `http://localhost:${port}`);
     const pathname = url.pathname;
     const method = req.method || "GET";
+    const match = matchRoute(method, pathname);
+
+    // Metrics: label by route template; streams (never finished) get no latency
+    const startedAt = performance.now();
+    let route = match?.template ?? "unmatched";
+    res.once("close", () => {
+      const duration = res.writableFinished ? (performance.now() - startedAt) / 1000 : undefined;
+      recordHttpRequest(method, route, res.statusCode, duration);
+    });
 
     // Log all requests for debugging
     if (method !== "OPTIONS" && pathname !== "/health") {
       console.log(`[HTTP] ${method} ${pathname}`);
     }
 
+    // With TLS on, other machines must use HTTPS
+    if (tlsEnabled && !(req.socket as TLSSocket).encrypted && !isLocalRequest(req)) {
+      return sendError(res, 403, "HTTPS required");
+    }
+
+    if (!applyCorsOrigin(req, res)) {
+      return sendError(res, 403, "Origin not allowed");
+    }
+
     // Handle CORS preflight
     if (method === "OPTIONS") {
+      route = "preflight";
       return handleCors(res);
     }
 
-    // Health check (always local)
+    if (Number(req.headers["content-length"]) > maxBodyBytes) {
+      return sendError(res, 413, `Request body exceeds ${maxBodyBytes} bytes`);
+    }
+
+    if (["/health", "/status", "/metrics", "/mcp"].includes(pathname)) {
+      route = pathname;
+    }
+
+    // Health check (always local, and open to liveness probes)
     if (pathname === "/health" && method === "GET") {
-      return sendJson(res, 200, { status: "ok", mode: isCloudMode() ? "cloud" : "local" });
+      return sendJson(res, 200, { status: "ok", mode: serverMode() });
+    }
+
+    // Resolve the caller when auth is enabled
+    let user: UserContext | undefined;
+    let rawKey: string | undefined;
+    if (authRequired) {
+      rawKey = extractApiKey(req, url);
+      if (!rawKey) {
+        return sendError(res, 401, "API key required");
+      }
+      try {
+        user = authenticateApiKey(rawKey);
+      } catch (err) {
+        console.error("[HTTP] Auth error:", err);
+        return sendError(res, 500, "Auth store unavailable");
+      }
+      if (!user) {
+        return sendError(res, 401, "Invalid or expired API key");
+      }
     }
 
     // Status endpoint (always local)
     if (pathname === "/status" && method === "GET") {
       const webhookUrls = getWebhookUrls();
       return sendJson(res, 200, {
-        mode: isCloudMode() ? "cloud" : "local",
+        mode: serverMode(),
+        authRequired,
         webhooksConfigured: webhookUrls.length > 0,
         webhookCount: webhookUrls.length,
         activeListeners: sseConnections.size,
         agentListeners: agentConnections.size,
+        mcpSessions: mcpTransports.size,
+        storeBackend: isCloudMode() ? "cloud" : getStoreBackend(),
+        dbSizeBytes: !isCloudMode() && getStoreBackend() === "sqlite" ? getDatabaseSize() : null,
+        eventSequence: visibleSequence(user),
+        uptimeSeconds: Math.round(process.uptime()),
+        version: VERSION,
+        replication: getReplicationStatus() ?? null,
+        // What replicas can rely on (see replication.ts); a proxy can't vouch for the cloud
+        capabilities: isCloudMode() ? [] : REPLICATION_CAPABILITIES,
       });
     }
 
+    // Prometheus metrics (always local)
+    if (pathname === "/metrics" && method === "GET") {
+      return sendText(
+        res,
+        200,
+        METRICS_CONTENT_TYPE,
+        renderMetrics({
+          sseConnections: sseConnections.size,
+          agentConnections: agentConnections.size,
+          mcpTransports: mcpTransports.size,
+          eventSequence: visibleSequence(user),
+          uptimeSeconds: process.uptime(),
+          annotations: isCloudMode() ? [] : getScopedStore(user).countAnnotations(),
+        })
+      );
+    }
+
     // MCP protocol endpoint (always local - allows Claude Code to connect)
     if (pathname === "/mcp") {
-      return handleMcp(req, res);
+      return handleMcp(req, res, user, rawKey);
     }
 
     // Cloud mode: proxy all other requests to cloud API
     if (isCloudMode()) {
+      route = "cloud_proxy";
       return proxyToCloud(req, res, pathname + url.search);
     }
 
     // Local mode: use local store
-    const match = matchRoute(method, pathname);
     if (!match) {
       return sendError(res, 404, "Not found");
     }
 
+    // Throttle writes per client
+    if (match.rateLimit && !takeRateLimits(req, res, { [match.rateLimit]: 1 })) {
+      return;
+    }
+
+    // Tag events caused by this request so their author can filter out
+    // echoes. Browsers send it as ?origin=, since a custom header would need
+    // a preflight that servers predating it reject.
+    const originHeader = req.headers["x-agentation-origin"];
+    const origin = typeof originHeader === "string" ? originHeader : url.searchParams.get("origin") ?? undefined;
+    if (origin && origin.length > MAX_ORIGIN_LENGTH) {
+      const source = typeof originHeader === "string" ? "X-Agentation-Origin" : "origin";
+      return sendError(res, 400, `${source} must be at most ${MAX_ORIGIN_LENGTH} characters`);
+    }
+
+    // Attribute events to the API key's user, for annotation history
+    const actor = user && { userId: user.userId, apiKeyId: user.apiKeyId, apiKeyName: user.apiKeyName };
+
     try {
-      await match.handler(req, res, match.params);
+      await withEventOrigin(origin?.trim(), () =>
+        withEventActor(actor, () => match.handler(req, res, match.params, user))
+      );
     } catch (err) {
       console.error("Request error:", err);
       sendError(res, 500, "Internal server error");
     }
-  });
+  };
+  const server = credentials ? createDualProtocolServer(handleRequest, credentials) : createServer(handleRequest);
+
+  // Fan events out to webhook subscriptions and pick up retries
+  // interrupted by a restart (local store only)
+  if (!isCloudMode()) {
+    startWebhookDispatcher();
+    resumePendingWebhooks();
+  }
+  startMetricsCollector();
+  if (hybridMode) {
+    startReplicator({ cloudUrl: CLOUD_API_URL, apiKey: apiKey! });
+  }
 
-  server.listen(port, () => {
+  const displayHost = !host || host === "0.0.0.0" || host === "::" ? "localhost" : host.includes(":") ? `[${host}]` : host;
+  const baseUrl = `${credentials ? "https" : "http"}://${displayHost}:${port}`;
+  server.listen(port, host, () => {
     if (isCloudMode()) {
-      console.log(`[HTTP] Agentation server listening on http://localhost:${port} (cloud mode)`);
+      console.log(`[HTTP] Agentation server listening on ${baseUrl} (cloud mode)`);
+    } else if (hybridMode) {
+      console.log(`[HTTP] Agentation server listening on ${baseUrl} (hybrid mode)`);
+    } else if (authRequired) {
+      console.log(`[HTTP] Agentation server listening on ${baseUrl} (API key required)`);
     } else {
-      console.log(`[HTTP] Agentation server listening on http://localhost:${port}`);
+      console.log(`[HTTP] Agentation server listening on ${baseUrl}`);
     }
   });
+  return server;
 }
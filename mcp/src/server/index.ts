@@ -21,6 +21,8 @@ import { startMcpServer, setApiKey } from "./mcp.js";
 
 // Re-export for programmatic use
 export { startHttpServer, setCloudApiKey } from "./http.js";
+export type { HttpServerOptions } from "./http.js";
+export { parseRateLimits } from "./rate-limit.js";
 export { startMcpServer, setApiKey } from "./mcp.js";
 export * from "./store.js";
 
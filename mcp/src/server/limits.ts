@@ -0,0 +1,51 @@
+/**
+ * Caps on annotation content.
+ *
+ * Enforced by the stores, so the HTTP API, bulk operations and MCP tools
+ * are all held to them. Errors surface to HTTP clients as 400s.
+ */
+
+import type { Annotation } from "../types.js";
+
+export const MAX_COMMENT_LENGTH = 10_000;
+export const MAX_THREAD_MESSAGES = 200;
+
+export class ContentLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ContentLimitError";
+  }
+}
+
+/**
+ * Throw if an annotation comment or thread message is too long.
+ */
+export function assertContentLength(text: string | undefined, field = "comment"): void {
+  if (text !== undefined && text.length > MAX_COMMENT_LENGTH) {
+    throw new ContentLimitError(`${field} must be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+}
+
+/**
+ * Throw if an annotation copied in whole (by import or replication) breaks
+ * the caps: its comment or a thread message is too long, or its thread has
+ * too many messages.
+ */
+export function assertAnnotationLimits(annotation: Pick<Annotation, "comment" | "thread">): void {
+  assertContentLength(annotation.comment);
+  if ((annotation.thread?.length ?? 0) > MAX_THREAD_MESSAGES) {
+    throw new ContentLimitError(`Threads are limited to ${MAX_THREAD_MESSAGES} messages`);
+  }
+  for (const message of annotation.thread ?? []) {
+    assertContentLength(message.content, "content");
+  }
+}
+
+/**
+ * Throw if the annotation's thread can't take another message.
+ */
+export function assertThreadRoom(annotation: Annotation): void {
+  if ((annotation.thread?.length ?? 0) >= MAX_THREAD_MESSAGES) {
+    throw new ContentLimitError(`Threads are limited to ${MAX_THREAD_MESSAGES} messages`);
+  }
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { once } from "events";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { startHttpServer } from "./http.js";
+import { MAX_COMMENT_LENGTH } from "./limits.js";
+import { handleTool, setHttpBaseUrl } from "./mcp.js";
+
+process.env.AGENTATION_STORE = "memory";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  // Without TLS options this is a plain HTTP server
+  server = startHttpServer(0, undefined, {
+    rateLimits: { session: false, annotation: false, thread: false, action: false },
+  }) as Server;
+  await once(server, "listening");
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  setHttpBaseUrl(baseUrl);
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  server.close();
+  await once(server, "close");
+});
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function request(method: string, path: string, body?: unknown) {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+async function createAnnotation(comment: string, extra: Record<string, unknown> = {}) {
+  const session = await (await request("POST", "/sessions", { url: "http://localhost:3000/" })).json();
+  const res = await request("POST", `/sessions/${session.id}/annotations`, {
+    x: 10,
+    y: 20,
+    comment,
+    element: "button",
+    elementPath: "body > button",
+    timestamp: Date.now(),
+    ...extra,
+  });
+  return res.json();
+}
+
+async function currentSequence(): Promise<number> {
+  return (await (await request("GET", "/status")).json()).eventSequence;
+}
+
+/**
+ * Run the watch tool over the events since `sinceSequence`, which the
+ * server replays, so the changes can be made before watching.
+ */
+async function watch(sinceSequence: number, args: Record<string, unknown>) {
+  const result = await handleTool("agentation_watch_annotations", {
+    sinceSequence,
+    batchWindowSeconds: 1,
+    timeoutSeconds: 2,
+    ...args,
+  });
+  return JSON.parse((result.content[0] as { text: string }).text);
+}
+
+// =============================================================================
+// Watch
+// =============================================================================
+
+describe("agentation_watch_annotations", () => {
+  it("reports human replies, not agent ones", async () => {
+    const annotation = await createAnnotation("Fix the padding");
+    const since = await currentSequence();
+    await request("POST", `/annotations/${annotation.id}/thread`, { role: "agent", content: "Which side?" });
+    await request("POST", `/annotations/${annotation.id}/thread`, { role: "human", content: "The left" });
+
+    const result = await watch(since, { events: ["replied"] });
+
+    expect(result.timeout).toBe(false);
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        type: "replied",
+        annotationId: annotation.id,
+        message: expect.objectContaining({ role: "human", content: "The left" }),
+      }),
+    ]);
+  });
+
+  it("reports annotations moved back to pending", async () => {
+    const annotation = await createAnnotation("Fix the margin");
+    await request("PATCH", `/annotations/${annotation.id}`, { status: "resolved" });
+    const since = await currentSequence();
+    await request("PATCH", `/annotations/${annotation.id}`, { comment: "Fix the margin again" });
+    await request("PATCH", `/annotations/${annotation.id}`, { status: "pending" });
+
+    const result = await watch(since, { events: ["reopened"] });
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({ type: "reopened", from: "resolved", annotation: expect.objectContaining({ id: annotation.id }) }),
+    ]);
+  });
+
+  it("applies the assignee filter to replies too", async () => {
+    const since = await currentSequence();
+    const mine = await createAnnotation("Mine", { assigneeId: "alice" });
+    const theirs = await createAnnotation("Theirs", { assigneeId: "bob" });
+    await request("POST", `/annotations/${theirs.id}/thread`, { role: "human", content: "Any news?" });
+    await request("POST", `/annotations/${mine.id}/thread`, { role: "human", content: "Any news?" });
+
+    const result = await watch(since, { assignee: "alice", events: ["created", "replied"] });
+
+    expect(result.changes.map((change: { type: string }) => change.type)).toEqual(["created", "replied"]);
+    expect(result.changes[0].annotation.id).toBe(mine.id);
+    expect(result.changes[1].annotationId).toBe(mine.id);
+  });
+});
+
+// =============================================================================
+// Ask
+// =============================================================================
+
+describe("agentation_ask", () => {
+  it("posts the question, waits for the reply and hands the annotation back", async () => {
+    const annotation = await createAnnotation("Fix the header");
+
+    const asking = handleTool("agentation_ask", { annotationId: annotation.id, question: "Which header?", timeoutSeconds: 5 });
+    // Reply once the question is up
+    let current = annotation;
+    while (current.status !== "awaiting_human") {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      current = await (await request("GET", `/annotations/${annotation.id}`)).json();
+    }
+    expect(current.thread.map((m: { content: string }) => m.content)).toEqual(["Which header?"]);
+    await request("POST", `/annotations/${annotation.id}/thread`, { role: "human", content: "The sticky one" });
+
+    const result = JSON.parse(((await asking).content[0] as { text: string }).text);
+
+    expect(result).toMatchObject({ answered: true, reply: "The sticky one" });
+    expect((await (await request("GET", `/annotations/${annotation.id}`)).json()).status).toBe("acknowledged");
+  });
+
+  it("posts nothing when the question can't be asked", async () => {
+    const annotation = await createAnnotation("Fix the footer");
+
+    const result = await handleTool("agentation_ask", {
+      annotationId: annotation.id,
+      question: "x".repeat(MAX_COMMENT_LENGTH + 1),
+      timeoutSeconds: 1,
+    });
+
+    expect(result.isError).toBe(true);
+    const current = await (await request("GET", `/annotations/${annotation.id}`)).json();
+    expect(current.status).toBe("pending");
+    expect(current.thread ?? []).toEqual([]);
+  });
+
+  it("reports a missing annotation", async () => {
+    const result = await handleTool("agentation_ask", { annotationId: "missing", question: "Still there?", timeoutSeconds: 1 });
+
+    expect(result.isError).toBe(true);
+    expect((result.content[0] as { text: string }).text).toBe("Annotation not found: missing");
+  });
+});
@@ -1,6 +1,8 @@
 /**
  * MCP server for Agentation.
- * Exposes tools for AI agents to interact with annotations.
+ * Exposes tools for AI agents to interact with annotations, sessions
+ * and annotations as subscribable resources, and prompts for common
+ * feedback workflows.
  *
  * This server fetches data from the HTTP API (single source of truth)
  * rather than maintaining its own store.
@@ -10,10 +12,26 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type Resource,
+  type TextResourceContents,
 } from "@modelcontextprotocol/sdk/types.js";
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
 import { z } from "zod";
-import type { ActionRequest } from "../types.js";
+import { OUTPUT_DETAIL_LEVELS, generateSessionsOutput } from "./output.js";
+import { isRasterImage } from "./attachments.js";
+import { MCP_ORIGIN_PREFIX } from "./events.js";
+import type { ActionRequest, Attachment, BulkResult, Annotation as StoredAnnotation } from "../types.js";
 
 // -----------------------------------------------------------------------------
 // Configuration
@@ -22,6 +40,10 @@ import type { ActionRequest } from "../types.js";
 let httpBaseUrl = "http://localhost:4747";
 let apiKey: string | undefined;
 
+// Sent as X-Agentation-Origin on writes, so the watch loop can skip its own
+// echoes and annotation history can tell agent changes apart
+const eventOrigin = `${MCP_ORIGIN_PREFIX}${randomUUID()}`;
+
 /**
  * Set the HTTP server URL that this MCP server will fetch from.
  */
@@ -30,21 +52,35 @@ export function setHttpBaseUrl(url: string): void {
 }
 
 /**
- * Set the API key for authenticating with the cloud backend.
+ * Set the API key sent to the HTTP server: a key for a local server
+ * started with --require-auth, or the cloud key.
  */
 export function setApiKey(key: string): void {
   apiKey = key;
 }
 
+// Key of the /mcp caller whose request is being handled (see withApiKey)
+const requestApiKey = new AsyncLocalStorage<string>();
+
+/**
+ * Run `fn` with its HTTP calls authenticated as `key` instead of the
+ * configured key, so tools called over /mcp act as the caller's user.
+ */
+export function withApiKey<T>(key: string | undefined, fn: () => T): T {
+  return key ? requestApiKey.run(key, fn) : fn();
+}
+
+function authHeaders(): Record<string, string> {
+  const key = requestApiKey.getStore() ?? apiKey;
+  return key ? { "x-api-key": key } : {};
+}
+
 // -----------------------------------------------------------------------------
 // HTTP Client
 // -----------------------------------------------------------------------------
 
 async function httpGet<T>(path: string): Promise<T> {
-  const headers: Record<string, string> = {};
-  if (apiKey) {
-    headers["x-api-key"] = apiKey;
-  }
+  const headers = authHeaders();
   const res = await fetch(`${httpBaseUrl}${path}`, { headers });
   if (!res.ok) {
     const body = await res.text();
@@ -53,11 +89,22 @@ async function httpGet<T>(path: string): Promise<T> {
   return res.json() as Promise<T>;
 }
 
-async function httpPatch<T>(path: string, body: unknown): Promise<T> {
-  const headers: Record<string, string> = { "Content-Type": "application/json" };
-  if (apiKey) {
-    headers["x-api-key"] = apiKey;
+async function httpGetBytes(path: string): Promise<Buffer> {
+  const headers = authHeaders();
+  const res = await fetch(`${httpBaseUrl}${path}`, { headers });
+  if (!res.ok) {
+    const body = await res.text();
+    throw new Error(`HTTP ${res.status}: ${body}`);
   }
+  return Buffer.from(await res.arrayBuffer());
+}
+
+async function httpPatch<T>(path: string, body: unknown): Promise<T> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Agentation-Origin": eventOrigin,
+    ...authHeaders(),
+  };
   const res = await fetch(`${httpBaseUrl}${path}`, {
     method: "PATCH",
     headers,
@@ -71,10 +118,11 @@ async function httpPatch<T>(path: string, body: unknown): Promise<T> {
 }
 
 async function httpPost<T>(path: string, body: unknown): Promise<T> {
-  const headers: Record<string, string> = { "Content-Type": "application/json" };
-  if (apiKey) {
-    headers["x-api-key"] = apiKey;
-  }
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Agentation-Origin": eventOrigin,
+    ...authHeaders(),
+  };
   const res = await fetch(`${httpBaseUrl}${path}`, {
     method: "POST",
     headers,
@@ -91,8 +139,24 @@ async function httpPost<T>(path: string, body: unknown): Promise<T> {
 // Tool Schemas
 // -----------------------------------------------------------------------------
 
+const OutputFormatFields = {
+  format: z.enum(["json", "markdown"]).optional().default("json").describe("Return JSON (default) or agent-facing markdown"),
+  detail: z.enum(["compact", "standard", "detailed", "forensic"]).optional().default("standard").describe("Markdown detail level"),
+};
+
 const GetPendingSchema = z.object({
   sessionId: z.string().describe("The session ID to get pending annotations for"),
+  ...OutputFormatFields,
+});
+
+const GetAllPendingSchema = z.object({
+  projectId: z.string().optional().describe("Only annotations from sessions in this project"),
+  assignee: z.string().optional().describe("Only annotations assigned to this ID (\"none\" for unassigned)"),
+  ...OutputFormatFields,
+});
+
+const ListSessionsSchema = z.object({
+  projectId: z.string().optional().describe("Only sessions in this project"),
 });
 
 const AcknowledgeSchema = z.object({
@@ -104,6 +168,18 @@ const ResolveSchema = z.object({
   summary: z.string().optional().describe("Optional summary of how it was resolved"),
 });
 
+const ResolveManySchema = z.object({
+  resolutions: z
+    .array(
+      z.object({
+        annotationId: z.string().describe("The annotation ID to resolve"),
+        summary: z.string().optional().describe("Optional summary of how it was resolved"),
+      })
+    )
+    .min(1)
+    .describe("Annotations to resolve, each with an optional summary"),
+});
+
 const DismissSchema = z.object({
   annotationId: z.string().describe("The annotation ID to dismiss"),
   reason: z.string().describe("Reason for dismissing this annotation"),
@@ -114,12 +190,43 @@ const ReplySchema = z.object({
   message: z.string().describe("The reply message"),
 });
 
+const AskSchema = z.object({
+  annotationId: z.string().describe("The annotation ID to ask about"),
+  question: z.string().min(1).describe("The question for the human"),
+  timeoutSeconds: z.number().optional().default(300).describe("Max seconds to wait for a reply (default: 300, max: 600)"),
+});
+
+const AssignSchema = z.object({
+  annotationId: z.string().describe("The annotation ID to assign"),
+  assigneeId: z.string().optional().describe("Who to assign it to; omit to unassign"),
+});
+
+const GetAttachmentsSchema = z.object({
+  annotationId: z.string().describe("The annotation ID to get attachments for"),
+});
+
 const GetSessionSchema = z.object({
   sessionId: z.string().describe("The session ID to get"),
 });
 
+/**
+ * What a watch can wait for: new annotations, human replies in a thread,
+ * and annotations moved back to pending.
+ */
+const WATCH_EVENTS = ["created", "replied", "reopened"] as const;
+
+type WatchEvent = (typeof WATCH_EVENTS)[number];
+
 const WatchAnnotationsSchema = z.object({
   sessionId: z.string().optional().describe("Optional session ID to filter. If not provided, watches ALL sessions."),
+  assignee: z.string().optional().describe("Only changes to annotations assigned to this ID, replies included (\"none\" for unassigned)"),
+  sinceSequence: z.number().int().min(0).optional().describe("Resume after this event sequence (lastSequence from the previous call)"),
+  events: z
+    .array(z.enum(WATCH_EVENTS))
+    .min(1)
+    .optional()
+    .default(["created"])
+    .describe("Changes to wait for: new annotations, human replies, annotations reopened to pending (default: created)"),
   batchWindowSeconds: z.number().optional().default(10).describe("Seconds to wait after first annotation before returning batch (default: 10, max: 60)"),
   timeoutSeconds: z.number().optional().default(120).describe("Max seconds to wait for first annotation (default: 120, max: 300)"),
 });
@@ -134,7 +241,12 @@ export const TOOLS = [
     description: "List all active annotation sessions",
     inputSchema: {
       type: "object" as const,
-      properties: {},
+      properties: {
+        projectId: {
+          type: "string",
+          description: "Only sessions in this project (see GET /projects). Use it to skip feedback for other apps.",
+        },
+      },
       required: [],
     },
   },
@@ -163,6 +275,16 @@ export const TOOLS = [
           type: "string",
           description: "The session ID to get pending annotations for",
         },
+        format: {
+          type: "string",
+          enum: ["json", "markdown"],
+          description: "Return JSON (default) or the same markdown the toolbar copies",
+        },
+        detail: {
+          type: "string",
+          enum: OUTPUT_DETAIL_LEVELS,
+          description: "Markdown detail level (default: standard). Ignored for JSON.",
+        },
       },
       required: ["sessionId"],
     },
@@ -173,7 +295,26 @@ export const TOOLS = [
       "Get all pending annotations across ALL sessions. Use this to see all unaddressed feedback from the human across all pages they've visited.",
     inputSchema: {
       type: "object" as const,
-      properties: {},
+      properties: {
+        projectId: {
+          type: "string",
+          description: "Only annotations from sessions in this project (see GET /projects). Use it to skip feedback for other apps.",
+        },
+        assignee: {
+          type: "string",
+          description: 'Only annotations assigned to this ID, or "none" for unassigned ones',
+        },
+        format: {
+          type: "string",
+          enum: ["json", "markdown"],
+          description: "Return JSON (default) or the same markdown the toolbar copies",
+        },
+        detail: {
+          type: "string",
+          enum: OUTPUT_DETAIL_LEVELS,
+          description: "Markdown detail level (default: standard). Ignored for JSON.",
+        },
+      },
       required: [],
     },
   },
@@ -211,6 +352,36 @@ export const TOOLS = [
       required: ["annotationId"],
     },
   },
+  {
+    name: "agentation_resolve_many",
+    description:
+      "Resolve several annotations in a single request. Prefer this over repeated agentation_resolve calls " +
+      "after addressing a batch of feedback. Each annotation's status change and summary reply are applied together.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        resolutions: {
+          type: "array",
+          description: "Annotations to resolve, each with an optional summary",
+          items: {
+            type: "object",
+            properties: {
+              annotationId: {
+                type: "string",
+                description: "The annotation ID to resolve",
+              },
+              summary: {
+                type: "string",
+                description: "Optional summary of how it was resolved",
+              },
+            },
+            required: ["annotationId"],
+          },
+        },
+      },
+      required: ["resolutions"],
+    },
+  },
   {
     name: "agentation_dismiss",
     description:
@@ -249,6 +420,67 @@ export const TOOLS = [
       required: ["annotationId", "message"],
     },
   },
+  {
+    name: "agentation_ask",
+    description:
+      "Ask the human a clarifying question about an annotation and wait for the answer. Posts the question " +
+      "to the annotation's thread, marks it awaiting_human so the toolbar shows the question on its marker, " +
+      "and blocks until the human replies (or the timeout passes). Returns the reply text. " +
+      "Use this instead of agentation_reply when you can't continue without an answer.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        annotationId: {
+          type: "string",
+          description: "The annotation ID to ask about",
+        },
+        question: {
+          type: "string",
+          description: "The question for the human",
+        },
+        timeoutSeconds: {
+          type: "number",
+          description: "Max seconds to wait for a reply (default: 300, max: 600)",
+        },
+      },
+      required: ["annotationId", "question"],
+    },
+  },
+  {
+    name: "agentation_assign",
+    description:
+      "Assign an annotation to a person or agent, or unassign it. Use this to hand feedback to whoever owns " +
+      "that part of the app; watchers and pending queries can filter by assignee.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        annotationId: {
+          type: "string",
+          description: "The annotation ID to assign",
+        },
+        assigneeId: {
+          type: "string",
+          description: "Who to assign it to. Omit to unassign.",
+        },
+      },
+      required: ["annotationId"],
+    },
+  },
+  {
+    name: "agentation_get_attachments",
+    description:
+      "Get files attached to an annotation, such as a screenshot of the element. Images are returned as image content so you can see what the human saw; small text and JSON files are included as text; anything else is listed with its download path.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        annotationId: {
+          type: "string",
+          description: "The annotation ID to get attachments for",
+        },
+      },
+      required: ["annotationId"],
+    },
+  },
   {
     name: "agentation_watch_annotations",
     description:
@@ -258,7 +490,11 @@ export const TOOLS = [
       "to collect more before returning. Use in a loop for hands-free processing. " +
       "After addressing each annotation, call agentation_resolve with the annotation ID and a summary " +
       "of what you did. Only resolve annotations the user accepted — if the user rejects your change, " +
-      "leave the annotation open.",
+      "leave the annotation open. Pass each result's lastSequence as sinceSequence on the next call so " +
+      "annotations created while you were working aren't missed. " +
+      "Add \"replied\" to events to also wake up when the human answers in a thread (e.g. after you asked " +
+      "a question with agentation_reply), and \"reopened\" for annotations moved back to pending. " +
+      "Returns a list of changes, each with a type of created, replied or reopened.",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -266,6 +502,21 @@ export const TOOLS = [
           type: "string",
           description: "Optional session ID to filter. If not provided, watches ALL sessions.",
         },
+        assignee: {
+          type: "string",
+          description: 'Only annotations assigned to this ID, or "none" for unassigned ones. Useful when several agents share a server.',
+        },
+        sinceSequence: {
+          type: "number",
+          description: "Resume after this event sequence: the lastSequence returned by the previous call. Omit on the first call to start from now.",
+        },
+        events: {
+          type: "array",
+          items: { type: "string", enum: [...WATCH_EVENTS] },
+          description:
+            'What to wait for: "created" (new annotations), "replied" (human replies in a thread), ' +
+            '"reopened" (annotations moved back to pending). Default: ["created"].',
+        },
         batchWindowSeconds: {
           type: "number",
           description: "Seconds to wait after first annotation before returning batch (default: 10, max: 60)",
@@ -289,6 +540,7 @@ type Session = {
   url: string;
   status: string;
   createdAt: string;
+  projectId?: string;
 };
 
 type Annotation = {
@@ -303,6 +555,7 @@ type Annotation = {
   timestamp?: number;
   nearbyText?: string;
   reactComponents?: string;
+  assigneeId?: string;
   status: string;
 };
 
@@ -319,17 +572,35 @@ type PendingResponse = {
 // Tool Handlers
 // -----------------------------------------------------------------------------
 
+type ToolContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }; // data is base64
+
 type ToolResult = {
-  content: Array<{ type: "text"; text: string }>;
+  content: ToolContent[];
   isError?: boolean;
 };
 
+// Attachments larger than these are listed but not inlined in tool results
+const MAX_INLINE_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_INLINE_TEXT_BYTES = 64 * 1024;
+
+function isTextContentType(contentType: string): boolean {
+  return contentType.startsWith("text/") || contentType === "application/json" || contentType.endsWith("+json");
+}
+
 export function success(data: unknown): ToolResult {
   return {
     content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
   };
 }
 
+export function markdown(text: string): ToolResult {
+  return {
+    content: [{ type: "text", text: text || "No pending annotations." }],
+  };
+}
+
 export function error(message: string): ToolResult {
   return {
     content: [{ type: "text", text: message }],
@@ -337,35 +608,147 @@ export function error(message: string): ToolResult {
   };
 }
 
+type SseMessage = { event?: string; id?: string; data: string };
+
 /**
- * Result from watchForAnnotations
+ * Read server-sent events from a response body until it ends.
+ */
+async function* readSseMessages(body: ReadableStream<Uint8Array>): AsyncGenerator<SseMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let message: SseMessage = { data: "" };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (line === "") {
+        if (message.data || message.event) yield message;
+        message = { data: "" };
+      } else if (line.startsWith("event: ")) {
+        message.event = line.slice(7);
+      } else if (line.startsWith("id: ")) {
+        message.id = line.slice(4);
+      } else if (line.startsWith("data: ")) {
+        message.data += line.slice(6);
+      }
+    }
+  }
+}
+
+type ThreadMessage = { id: string; role: "human" | "agent"; content: string; timestamp: number };
+
+/**
+ * A change collected by watchForAnnotations.
+ */
+type WatchChange =
+  | { type: "created"; sessionId: string; annotation: Annotation }
+  | { type: "replied"; sessionId: string; annotationId: string; message: ThreadMessage }
+  | { type: "reopened"; sessionId: string; annotation: Annotation; from?: string };
+
+// Server event types each watch event needs
+const WATCH_EVENT_TYPES: Record<WatchEvent, string> = {
+  created: "annotation.created",
+  replied: "thread.message",
+  reopened: "annotation.updated",
+};
+
+type WatchOptions = {
+  sessionId?: string;
+  assignee?: string;
+  sinceSequence?: number;
+  events: WatchEvent[];
+};
+
+/**
+ * Result from watchForAnnotations. `lastSequence` is the cursor to resume
+ * from: the last event collected, or where the watch started if nothing
+ * arrived. `reset` means the server could no longer replay from the cursor.
  */
 type WatchAnnotationsResult =
-  | { type: "annotations"; annotations: Annotation[]; sessions: string[] }
-  | { type: "timeout" }
+  | { type: "changes"; changes: WatchChange[]; sessions: string[]; lastSequence?: number; reset: boolean }
+  | { type: "timeout"; lastSequence?: number; reset: boolean }
   | { type: "error"; message: string };
 
 /**
- * Watch for new annotation.created events via SSE from the HTTP server.
- * When the first annotation is detected, waits for a batch window to collect
- * additional annotations directly from SSE event payloads.
+ * The server's latest event sequence, or undefined if it doesn't report one.
+ */
+async function currentSequence(): Promise<number | undefined> {
+  try {
+    const status = await httpGet<{ eventSequence?: number }>("/status");
+    return status.eventSequence;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Turn a server event into the change it represents for this watch, if any.
+ */
+function toWatchChange(
+  event: { type: string; sessionId: string; payload: unknown; changes?: { field: string; from?: unknown; to?: unknown }[] },
+  events: WatchEvent[]
+): WatchChange | undefined {
+  switch (event.type) {
+    case "annotation.created":
+      if (!events.includes("created")) return undefined;
+      return { type: "created", sessionId: event.sessionId, annotation: event.payload as Annotation };
+    case "thread.message": {
+      const { annotationId, ...message } = event.payload as ThreadMessage & { annotationId: string };
+      if (!events.includes("replied") || message.role !== "human") return undefined;
+      return { type: "replied", sessionId: event.sessionId, annotationId, message };
+    }
+    case "annotation.updated": {
+      // Only updates that record their changes can be told apart from edits
+      const statusChange = event.changes?.find((change) => change.field === "status");
+      if (!events.includes("reopened") || statusChange?.to !== "pending") return undefined;
+      return {
+        type: "reopened",
+        sessionId: event.sessionId,
+        annotation: event.payload as Annotation,
+        ...(typeof statusChange.from === "string" ? { from: statusChange.from } : {}),
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Watch for changes via SSE from the HTTP server: new annotations, and
+ * optionally human replies and reopened annotations (see `events`).
+ * When the first change is detected, waits for a batch window to collect
+ * additional changes directly from SSE event payloads.
+ *
+ * The stream starts after `sinceSequence` (sent as Last-Event-ID, so the
+ * server replays anything missed since), or after the server's current
+ * sequence when omitted. Events that arrive after the batch is returned
+ * are left for the next call, which resumes from the returned lastSequence.
  *
  * Initial sync events (sequence 0) are ignored to prevent false triggers
  * from pre-existing pending annotations when the SSE connection opens.
- *
- * Watches for new annotations via SSE and collects them into a batch.
+ * After a `reset` (the server pruned the events after the cursor) they are
+ * collected instead, since they may include annotations that were missed.
  */
 function watchForAnnotations(
-  sessionId: string | undefined,
+  options: WatchOptions,
   batchWindowMs: number,
   timeoutMs: number
 ): Promise<WatchAnnotationsResult> {
+  const { sessionId, assignee, events } = options;
   return new Promise((resolve) => {
     let aborted = false;
     const controller = new AbortController();
     let batchTimeout: ReturnType<typeof setTimeout> | null = null;
     const detectedSessions = new Set<string>();
-    const collectedAnnotations: Annotation[] = [];
+    const collectedChanges: WatchChange[] = [];
+    let lastSequence = options.sinceSequence;
+    let reset = false;
 
     const cleanup = () => {
       aborted = true;
@@ -373,26 +756,58 @@ function watchForAnnotations(
       if (batchTimeout) clearTimeout(batchTimeout);
     };
 
+    const resolveBatch = () => {
+      resolve({
+        type: "changes",
+        changes: collectedChanges,
+        sessions: Array.from(detectedSessions),
+        lastSequence,
+        reset,
+      });
+    };
+
     // Set overall timeout
     const timeoutId = setTimeout(() => {
       cleanup();
-      resolve({ type: "timeout" });
+      resolve({ type: "timeout", lastSequence, reset });
     }, timeoutMs);
 
-    // Connect to SSE endpoint with agent=true to be counted as an agent listener
+    // Connect to SSE endpoint with agent=true to be counted as an agent listener;
+    // the server drops every other event type and this server's own writes
+    const types = [...new Set(events.map((event) => WATCH_EVENT_TYPES[event]))].join(",");
+    let filter = `types=${types}&excludeOrigin=${encodeURIComponent(eventOrigin)}`;
+    // The server's assignee filter drops thread messages, so replies are
+    // watched unfiltered and every change is filtered here instead
+    const filterAssignee = assignee && events.includes("replied");
+    if (assignee && !filterAssignee) filter += `&assignee=${encodeURIComponent(assignee)}`;
+    // Replies carry only their annotation's ID; its assignee is looked up once
+    const replyAssignees = new Map<string, string>();
+    const assigneeOf = async (change: WatchChange): Promise<string> => {
+      if (change.type !== "replied") return change.annotation.assigneeId ?? "none";
+      let assigneeId = replyAssignees.get(change.annotationId);
+      if (assigneeId === undefined) {
+        assigneeId = (await httpGet<Annotation>(`/annotations/${change.annotationId}`)).assigneeId ?? "none";
+        replyAssignees.set(change.annotationId, assigneeId);
+      }
+      return assigneeId;
+    };
     const sseUrl = sessionId
-      ? `${httpBaseUrl}/sessions/${sessionId}/events?agent=true`
-      : `${httpBaseUrl}/events?agent=true`;
+      ? `${httpBaseUrl}/sessions/${sessionId}/events?agent=true&${filter}`
+      : `${httpBaseUrl}/events?agent=true&${filter}`;
 
-    const sseHeaders: Record<string, string> = { Accept: "text/event-stream" };
-    if (apiKey) {
-      sseHeaders["x-api-key"] = apiKey;
-    }
+    const connect = async (): Promise<Response> => {
+      lastSequence ??= await currentSequence();
+      const sseHeaders: Record<string, string> = { Accept: "text/event-stream", ...authHeaders() };
+      if (lastSequence !== undefined) {
+        sseHeaders["Last-Event-ID"] = String(lastSequence);
+      }
+      return fetch(sseUrl, {
+        signal: controller.signal,
+        headers: sseHeaders,
+      });
+    };
 
-    fetch(sseUrl, {
-      signal: controller.signal,
-      headers: sseHeaders,
-    })
+    connect()
       .then(async (res) => {
         if (!res.ok) {
           clearTimeout(timeoutId);
@@ -407,64 +822,61 @@ function watchForAnnotations(
           return;
         }
 
-        const reader = res.body.getReader();
-        const decoder = new TextDecoder();
-        let buffer = "";
-
-        while (!aborted) {
-          const { done, value } = await reader.read();
-          if (done) {
-            if (!aborted) {
-              clearTimeout(timeoutId);
-              cleanup();
-              if (collectedAnnotations.length > 0) {
-                resolve({
-                  type: "annotations",
-                  annotations: collectedAnnotations,
-                  sessions: Array.from(detectedSessions),
-                });
-              } else {
-                resolve({ type: "error", message: "SSE connection closed unexpectedly. The agentation server may have restarted." });
-              }
-            }
-            return;
+        // True between a reset and the end of the pending sync that follows it
+        let resyncing = false;
+
+        for await (const message of readSseMessages(res.body)) {
+          if (aborted) return;
+
+          if (message.event === "reset") {
+            reset = true;
+            resyncing = true;
+            if (message.id) lastSequence = parseInt(message.id, 10);
+            continue;
+          }
+          if (message.event === "sync.complete") {
+            resyncing = false;
+            continue;
           }
 
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              try {
-                const event = JSON.parse(line.slice(6));
-                if (event.type === "annotation.created") {
-                  // Skip initial sync events (sequence 0) — historical replay, not new
-                  if (event.sequence === 0) continue;
-
-                  // If filtering by session, check it matches
-                  if (sessionId && event.sessionId !== sessionId) continue;
-
-                  detectedSessions.add(event.sessionId);
-                  collectedAnnotations.push(event.payload as Annotation);
-
-                  // First annotation detected — start batch window
-                  if (!batchTimeout) {
-                    batchTimeout = setTimeout(() => {
-                      clearTimeout(timeoutId);
-                      cleanup();
-                      resolve({
-                        type: "annotations",
-                        annotations: collectedAnnotations,
-                        sessions: Array.from(detectedSessions),
-                      });
-                    }, batchWindowMs);
-                  }
-                }
-              } catch {
-                // Ignore parse errors for individual events
-              }
+          try {
+            const event = JSON.parse(message.data);
+
+            // Skip initial sync events (sequence 0) — historical replay, not new
+            if (event.sequence === 0 && !resyncing) continue;
+
+            // If filtering by session, check it matches
+            if (sessionId && event.sessionId !== sessionId) continue;
+
+            const change = toWatchChange(event, events);
+            if (!change) continue;
+            // A reply whose annotation can't be fetched (deleted since) is dropped by the catch below
+            if (filterAssignee && (await assigneeOf(change)) !== assignee) continue;
+
+            detectedSessions.add(event.sessionId);
+            collectedChanges.push(change);
+            if (event.sequence > (lastSequence ?? 0)) lastSequence = event.sequence;
+
+            // First change detected — start batch window
+            if (!batchTimeout) {
+              batchTimeout = setTimeout(() => {
+                clearTimeout(timeoutId);
+                cleanup();
+                resolveBatch();
+              }, batchWindowMs);
             }
+          } catch {
+            // Ignore parse errors for individual events
+          }
+        }
+
+        if (!aborted) {
+          clearTimeout(timeoutId);
+          cleanup();
+          if (collectedChanges.length > 0) {
+            resolveBatch();
+          } else {
+            resolve({ type: "error", message: "SSE connection closed unexpectedly. The agentation server may have restarted." });
           }
         }
       })
@@ -478,7 +890,7 @@ function watchForAnnotations(
             resolve({ type: "error", message: `Cannot connect to HTTP server at ${httpBaseUrl}. Is the agentation server running?` });
           } else if (message.includes("abort")) {
             // Aborted by timeout - already handled
-            resolve({ type: "timeout" });
+            resolve({ type: "timeout", lastSequence, reset });
           } else {
             resolve({ type: "error", message: `Connection error: ${message}` });
           }
@@ -487,16 +899,32 @@ function watchForAnnotations(
   });
 }
 
+function toQuery(params: Record<string, string | undefined>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) search.set(key, value);
+  }
+  const query = search.toString();
+  return query ? `?${query}` : "";
+}
+
+// Returned when the server can't replay from sinceSequence (pruned, or ahead of its log)
+const RESET_NOTE =
+  "Events after sinceSequence could not be replayed. " +
+  "Check agentation_get_all_pending (or agentation_get_pending for the session) for anything missed.";
+
 export async function handleTool(name: string, args: unknown): Promise<ToolResult> {
   switch (name) {
     case "agentation_list_sessions": {
-      const sessions = await httpGet<Session[]>("/sessions");
+      const { projectId } = ListSessionsSchema.parse(args ?? {});
+      const sessions = await httpGet<Session[]>(`/sessions${toQuery({ projectId })}`);
       return success({
         sessions: sessions.map((s) => ({
           id: s.id,
           url: s.url,
           status: s.status,
           createdAt: s.createdAt,
+          projectId: s.projectId,
         })),
       });
     }
@@ -515,7 +943,18 @@ export async function handleTool(name: string, args: unknown): Promise<ToolResul
     }
 
     case "agentation_get_pending": {
-      const { sessionId } = GetPendingSchema.parse(args);
+      const { sessionId, format, detail } = GetPendingSchema.parse(args);
+      if (format === "markdown") {
+        // Rendered here rather than by the server so it works against any backend
+        const [session, response] = await Promise.all([
+          httpGet<Session>(`/sessions/${sessionId}`),
+          httpGet<{ annotations: StoredAnnotation[] }>(`/sessions/${sessionId}/pending`),
+        ]);
+        return markdown(
+          generateSessionsOutput(response.annotations, new Map([[session.id, session]]), detail)
+        );
+      }
+
       const response = await httpGet<PendingResponse>(`/sessions/${sessionId}/pending`);
       return success({
         count: response.count,
@@ -530,12 +969,28 @@ export async function handleTool(name: string, args: unknown): Promise<ToolResul
           timestamp: a.timestamp,
           nearbyText: a.nearbyText,
           reactComponents: a.reactComponents,
+          assigneeId: a.assigneeId,
         })),
       });
     }
 
     case "agentation_get_all_pending": {
-      const response = await httpGet<PendingResponse>("/pending");
+      const { projectId, assignee, format, detail } = GetAllPendingSchema.parse(args ?? {});
+      if (format === "markdown") {
+        const [sessions, response] = await Promise.all([
+          httpGet<Session[]>(`/sessions${toQuery({ projectId })}`),
+          httpGet<{ annotations: StoredAnnotation[] }>(`/pending${toQuery({ projectId, assignee })}`),
+        ]);
+        return markdown(
+          generateSessionsOutput(
+            response.annotations,
+            new Map(sessions.map((s) => [s.id, s])),
+            detail
+          )
+        );
+      }
+
+      const response = await httpGet<PendingResponse>(`/pending${toQuery({ projectId, assignee })}`);
       return success({
         count: response.count,
         annotations: response.annotations.map((a) => ({
@@ -549,6 +1004,7 @@ export async function handleTool(name: string, args: unknown): Promise<ToolResul
           timestamp: a.timestamp,
           nearbyText: a.nearbyText,
           reactComponents: a.reactComponents,
+          assigneeId: a.assigneeId,
         })),
       });
     }
@@ -588,6 +1044,24 @@ export async function handleTool(name: string, args: unknown): Promise<ToolResul
       }
     }
 
+    case "agentation_resolve_many": {
+      const { resolutions } = ResolveManySchema.parse(args);
+      const operations = resolutions.flatMap(({ annotationId, summary }) => [
+        { op: "status", id: annotationId, status: "resolved", resolvedBy: "agent" },
+        ...(summary ? [{ op: "reply", id: annotationId, role: "agent", content: `Resolved: ${summary}` }] : []),
+      ]);
+      const result = await httpPost<BulkResult>("/annotations/bulk", { operations });
+
+      const failed = new Map<string, string>();
+      for (const item of result.results) {
+        if (!item.ok && !failed.has(item.id)) failed.set(item.id, item.error ?? "Unknown error");
+      }
+      return success({
+        resolved: resolutions.map((r) => r.annotationId).filter((id) => !failed.has(id)),
+        failed: Array.from(failed, ([annotationId, error]) => ({ annotationId, error })),
+      });
+    }
+
     case "agentation_dismiss": {
       const { annotationId, reason } = DismissSchema.parse(args);
       try {
@@ -624,6 +1098,115 @@ export async function handleTool(name: string, args: unknown): Promise<ToolResul
       }
     }
 
+    case "agentation_ask": {
+      const parsed = AskSchema.parse(args);
+      const { annotationId, question } = parsed;
+      const timeoutSeconds = Math.min(600, Math.max(1, parsed.timeoutSeconds ?? 300));
+      const deadline = Date.now() + timeoutSeconds * 1000;
+
+      // Start from before the question, so a quick reply can't be missed
+      let sinceSequence = await currentSequence();
+      // One atomic batch: the question is never left posted without the
+      // status, and a reply can't land between the two and be overwritten
+      const asked = await httpPost<BulkResult>("/annotations/bulk", {
+        operations: [
+          { op: "status", id: annotationId, status: "awaiting_human" },
+          { op: "reply", id: annotationId, role: "agent", content: question },
+        ],
+        atomic: true,
+      });
+      if (!asked.committed) {
+        // The item that failed; the rest say "Rolled back" or "Skipped"
+        const failure = asked.results.find((item) => item.error !== "Rolled back");
+        return error(failure?.error ?? `Could not ask on annotation ${annotationId}`);
+      }
+      const annotation = asked.results[1].annotation!;
+
+      // Replies on other annotations in the session also wake the watch; keep waiting past them
+      while (Date.now() < deadline) {
+        const result = await watchForAnnotations(
+          { sessionId: annotation.sessionId, sinceSequence, events: ["replied"] },
+          0,
+          deadline - Date.now()
+        );
+        if (result.type === "error") return error(result.message);
+        sinceSequence = result.lastSequence;
+        if (result.type === "timeout") break;
+
+        const reply = result.changes.find(
+          (change) => change.type === "replied" && change.annotationId === annotationId
+        );
+        if (reply?.type === "replied") {
+          return success({
+            answered: true,
+            annotationId,
+            question,
+            reply: reply.message.content,
+            repliedAt: new Date(reply.message.timestamp).toISOString(),
+          });
+        }
+      }
+
+      return success({
+        answered: false,
+        annotationId,
+        question,
+        message:
+          `No reply within ${timeoutSeconds} seconds. The question stays on the annotation; ` +
+          `call agentation_watch_annotations with events ["replied"] to keep waiting.`,
+      });
+    }
+
+    case "agentation_assign": {
+      const { annotationId, assigneeId } = AssignSchema.parse(args);
+      try {
+        await httpPatch(`/annotations/${annotationId}`, { assigneeId: assigneeId || null });
+        return success({ assigned: Boolean(assigneeId), annotationId, assigneeId: assigneeId || undefined });
+      } catch (err) {
+        if ((err as Error).message.includes("404")) {
+          return error(`Annotation not found: ${annotationId}`);
+        }
+        throw err;
+      }
+    }
+
+    case "agentation_get_attachments": {
+      const { annotationId } = GetAttachmentsSchema.parse(args);
+      let attachments: Attachment[];
+      try {
+        attachments = await httpGet<Attachment[]>(`/annotations/${annotationId}/attachments`);
+      } catch (err) {
+        if ((err as Error).message.includes("404")) {
+          return error(`Annotation not found: ${annotationId}`);
+        }
+        throw err;
+      }
+
+      const content: ToolContent[] = [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              count: attachments.length,
+              attachments: attachments.map((a) => ({ ...a, path: `/attachments/${a.id}` })),
+            },
+            null,
+            2
+          ),
+        },
+      ];
+      for (const attachment of attachments) {
+        if (isRasterImage(attachment.contentType) && attachment.size <= MAX_INLINE_IMAGE_BYTES) {
+          const bytes = await httpGetBytes(`/attachments/${attachment.id}`);
+          content.push({ type: "image", data: bytes.toString("base64"), mimeType: attachment.contentType });
+        } else if (isTextContentType(attachment.contentType) && attachment.size <= MAX_INLINE_TEXT_BYTES) {
+          const bytes = await httpGetBytes(`/attachments/${attachment.id}`);
+          content.push({ type: "text", text: `${attachment.filename}:\n${bytes.toString("utf8")}` });
+        }
+      }
+      return { content };
+    }
+
     case "agentation_watch_annotations": {
       const parsed = WatchAnnotationsSchema.parse(args);
       const sessionId = parsed.sessionId;
@@ -631,34 +1214,43 @@ export async function handleTool(name: string, args: unknown): Promise<ToolResul
       const timeoutSeconds = Math.min(300, Math.max(1, parsed.timeoutSeconds ?? 120));
 
       const result = await watchForAnnotations(
-        sessionId,
+        { sessionId, assignee: parsed.assignee, sinceSequence: parsed.sinceSequence, events: parsed.events },
         batchWindowSeconds * 1000,
         timeoutSeconds * 1000
       );
 
+      const summarize = (a: Annotation) => ({
+        id: a.id,
+        comment: a.comment,
+        element: a.element,
+        elementPath: a.elementPath,
+        url: a.url,
+        intent: a.intent,
+        severity: a.severity,
+        timestamp: a.timestamp,
+        nearbyText: a.nearbyText,
+        reactComponents: a.reactComponents,
+        assigneeId: a.assigneeId,
+      });
+
       switch (result.type) {
-        case "annotations":
+        case "changes":
           return success({
             timeout: false,
-            count: result.annotations.length,
+            count: result.changes.length,
             sessions: result.sessions,
-            annotations: result.annotations.map((a) => ({
-              id: a.id,
-              comment: a.comment,
-              element: a.element,
-              elementPath: a.elementPath,
-              url: a.url,
-              intent: a.intent,
-              severity: a.severity,
-              timestamp: a.timestamp,
-              nearbyText: a.nearbyText,
-              reactComponents: a.reactComponents,
-            })),
+            changes: result.changes.map((change) =>
+              change.type === "replied" ? change : { ...change, annotation: summarize(change.annotation) }
+            ),
+            lastSequence: result.lastSequence,
+            ...(result.reset ? { reset: true, note: RESET_NOTE } : {}),
           });
         case "timeout":
           return success({
             timeout: true,
-            message: `No new annotations within ${timeoutSeconds} seconds`,
+            message: `No changes within ${timeoutSeconds} seconds`,
+            lastSequence: result.lastSequence,
+            ...(result.reset ? { reset: true, note: RESET_NOTE } : {}),
           });
         case "error":
           return error(result.message);
@@ -670,6 +1262,409 @@ export async function handleTool(name: string, args: unknown): Promise<ToolResul
   }
 }
 
+// -----------------------------------------------------------------------------
+// Resources
+// -----------------------------------------------------------------------------
+
+const SESSIONS_URI = "agentation://sessions";
+const SESSION_URI_PREFIX = "agentation://sessions/";
+const ANNOTATION_URI_PREFIX = "agentation://annotations/";
+const RESOURCE_MIME_TYPE = "application/json";
+
+// JSON-RPC error code MCP reserves for unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+// Wait before reconnecting a dropped change stream
+const CHANGE_STREAM_RETRY_MS = 5000;
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${SESSION_URI_PREFIX}{sessionId}`,
+    name: "session",
+    description: "A session with all its annotations",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: `${ANNOTATION_URI_PREFIX}{annotationId}`,
+    name: "annotation",
+    description: "An annotation with its thread",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+];
+
+function sessionUri(sessionId: string): string {
+  return `${SESSION_URI_PREFIX}${encodeURIComponent(sessionId)}`;
+}
+
+function annotationUri(annotationId: string): string {
+  return `${ANNOTATION_URI_PREFIX}${encodeURIComponent(annotationId)}`;
+}
+
+/**
+ * The HTTP API path a resource URI reads from, or undefined if the URI
+ * isn't one of ours.
+ */
+function resourcePath(uri: string): string | undefined {
+  if (uri === SESSIONS_URI) return "/sessions";
+  for (const [prefix, base] of [
+    [SESSION_URI_PREFIX, "/sessions/"],
+    [ANNOTATION_URI_PREFIX, "/annotations/"],
+  ]) {
+    const id = uri.startsWith(prefix) ? uri.slice(prefix.length) : "";
+    if (id && !id.includes("/")) return `${base}${id}`;
+  }
+  return undefined;
+}
+
+/**
+ * The resources an event changes.
+ */
+function changedResourceUris(event: { type: string; sessionId: string; payload: unknown }): string[] {
+  if (event.type === "action.requested") return [];
+  const uris = [sessionUri(event.sessionId)];
+  if (event.type.startsWith("session.")) {
+    uris.push(SESSIONS_URI);
+  } else if (event.type.startsWith("annotation.")) {
+    uris.push(annotationUri((event.payload as Annotation).id));
+  } else if (event.type === "thread.message") {
+    uris.push(annotationUri((event.payload as { annotationId: string }).annotationId));
+  }
+  return uris;
+}
+
+export async function listResources(): Promise<{ resources: Resource[] }> {
+  const sessions = await httpGet<Session[]>("/sessions");
+  return {
+    resources: [
+      { uri: SESSIONS_URI, name: "sessions", description: "All annotation sessions", mimeType: RESOURCE_MIME_TYPE },
+      ...sessions.map((s) => ({
+        uri: sessionUri(s.id),
+        name: `session ${s.id}`,
+        description: s.url,
+        mimeType: RESOURCE_MIME_TYPE,
+      })),
+    ],
+  };
+}
+
+export async function readResource(uri: string): Promise<{ contents: TextResourceContents[] }> {
+  const path = resourcePath(uri);
+  if (!path) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+  let data: unknown;
+  try {
+    data = await httpGet(path);
+  } catch (err) {
+    if ((err as Error).message.includes("404")) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+    }
+    throw err;
+  }
+  return { contents: [{ uri, mimeType: RESOURCE_MIME_TYPE, text: JSON.stringify(data, null, 2) }] };
+}
+
+/**
+ * Called with the URIs an event changed, or "all" when the server could
+ * not replay missed events and anything may have changed.
+ */
+type ResourceChangeListener = (uris: string[] | "all") => void;
+
+interface ChangeStream {
+  listeners: Set<ResourceChangeListener>;
+  controller: AbortController;
+}
+
+// One SSE connection per API key, so each subscriber hears about its own
+// user's changes
+const changeStreams = new Map<string | undefined, ChangeStream>();
+
+/**
+ * Listen for resource changes as the /mcp caller (or the configured key).
+ * Listeners with the same key share one SSE connection to the HTTP
+ * server's global event stream, closed when the last one stops listening.
+ * @returns Function that stops listening
+ */
+function onResourceChange(listener: ResourceChangeListener): () => void {
+  const key = requestApiKey.getStore() ?? apiKey;
+  let stream = changeStreams.get(key);
+  if (!stream) {
+    stream = { listeners: new Set(), controller: new AbortController() };
+    changeStreams.set(key, stream);
+    void streamResourceChanges(key, stream);
+  }
+  const joined = stream;
+  joined.listeners.add(listener);
+  return () => {
+    joined.listeners.delete(listener);
+    if (joined.listeners.size === 0) {
+      joined.controller.abort();
+      if (changeStreams.get(key) === joined) changeStreams.delete(key);
+    }
+  };
+}
+
+async function streamResourceChanges(key: string | undefined, stream: ChangeStream): Promise<void> {
+  const { signal } = stream.controller;
+  let lastEventId: string | undefined;
+  const notify = (uris: string[] | "all") => {
+    for (const listener of stream.listeners) listener(uris);
+  };
+
+  while (!signal.aborted) {
+    const headers: Record<string, string> = { Accept: "text/event-stream" };
+    if (key) headers["x-api-key"] = key;
+    // Resume where the dropped connection left off
+    if (lastEventId) headers["Last-Event-ID"] = lastEventId;
+
+    try {
+      const res = await fetch(`${httpBaseUrl}/events`, { signal, headers });
+      if (res.status === 401 || res.status === 403) {
+        // Retrying won't help; a later subscription opens a fresh stream
+        console.error(`[MCP] Resource change stream rejected (${res.status}); subscriptions won't be notified`);
+        if (changeStreams.get(key) === stream) changeStreams.delete(key);
+        return;
+      }
+      if (!res.ok || !res.body) {
+        throw new Error(`HTTP server returned ${res.status}: ${res.statusText}`);
+      }
+      for await (const message of readSseMessages(res.body)) {
+        if (message.id) lastEventId = message.id;
+        if (message.event === "reset") {
+          notify("all");
+          continue;
+        }
+        try {
+          const uris = changedResourceUris(JSON.parse(message.data));
+          if (uris.length > 0) notify(uris);
+        } catch {
+          // Ignore parse errors for individual events
+        }
+      }
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error(`[MCP] Resource change stream error: ${(err as Error).message}`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, CHANGE_STREAM_RETRY_MS));
+  }
+}
+
+/**
+ * Serve resources on an MCP server. Clients can subscribe to any resource
+ * URI and get notifications/resources/updated when it changes, driven by
+ * the HTTP server's event stream.
+ */
+export function registerResources(server: Server): void {
+  const subscriptions = new Set<string>();
+  let stopListening: (() => void) | undefined;
+
+  const onChange: ResourceChangeListener = (uris) => {
+    for (const uri of uris === "all" ? subscriptions : uris) {
+      if (!subscriptions.has(uri)) continue;
+      server.sendResourceUpdated({ uri }).catch(() => {
+        // Client went away; onclose cleans up
+      });
+    }
+  };
+
+  server.setRequestHandler(ListResourcesRequestSchema, () => listResources());
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+  server.setRequestHandler(ReadResourceRequestSchema, (request) => readResource(request.params.uri));
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (!resourcePath(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+    subscriptions.add(uri);
+    stopListening ??= onResourceChange(onChange);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    if (subscriptions.size === 0) {
+      stopListening?.();
+      stopListening = undefined;
+    }
+    return {};
+  });
+
+  const onclose = server.onclose;
+  server.onclose = () => {
+    stopListening?.();
+    stopListening = undefined;
+    onclose?.();
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Prompts
+// -----------------------------------------------------------------------------
+
+const PromptScopeArguments = [
+  { name: "sessionId", description: "Session to cover (default: all sessions)", required: false },
+  { name: "domain", description: "Only sessions on this host, e.g. localhost:3000 (ignored with sessionId)", required: false },
+  { name: "detail", description: `Markdown detail level: ${OUTPUT_DETAIL_LEVELS.join(", ")} (default: standard)`, required: false },
+];
+
+export const PROMPTS = [
+  {
+    name: "address-pending-feedback",
+    description: "Work through the pending feedback: acknowledge, fix, and resolve each annotation with a summary.",
+    arguments: PromptScopeArguments,
+  },
+  {
+    name: "triage-session",
+    description: "Triage the pending feedback without changing code: severity, kind, likely location and order of work.",
+    arguments: PromptScopeArguments,
+  },
+  {
+    name: "summarize-resolutions",
+    description: "Summarize what was resolved and dismissed, and why, for the human reviewer.",
+    arguments: PromptScopeArguments,
+  },
+];
+
+const PromptArgumentsSchema = z.object({
+  sessionId: z.string().optional(),
+  domain: z.string().optional(),
+  detail: z.enum(["compact", "standard", "detailed", "forensic"]).optional().default("standard"),
+});
+
+type PromptScope = z.infer<typeof PromptArgumentsSchema>;
+
+type PromptFeedback = {
+  annotations: StoredAnnotation[];
+  sessions: Map<string, Session>;
+};
+
+function describeScope({ sessionId, domain }: PromptScope): string {
+  if (sessionId) return ` for session ${sessionId}`;
+  if (domain) return ` on ${domain}`;
+  return "";
+}
+
+/**
+ * Fetch the annotations a prompt covers: pending ones, or with `closed`
+ * the resolved and dismissed ones.
+ */
+async function fetchPromptFeedback(scope: PromptScope, closed: boolean): Promise<PromptFeedback> {
+  const sessionsPath = `/sessions${toQuery({ domain: scope.domain })}`;
+  if (!closed) {
+    const [sessions, response] = await Promise.all([
+      scope.sessionId ? httpGet<Session>(`/sessions/${scope.sessionId}`).then((s) => [s]) : httpGet<Session[]>(sessionsPath),
+      httpGet<{ annotations: StoredAnnotation[] }>(
+        scope.sessionId ? `/sessions/${scope.sessionId}/pending` : `/pending${toQuery({ domain: scope.domain })}`
+      ),
+    ]);
+    return { annotations: response.annotations, sessions: new Map(sessions.map((s) => [s.id, s])) };
+  }
+
+  const ids = scope.sessionId ? [scope.sessionId] : (await httpGet<Session[]>(sessionsPath)).map((s) => s.id);
+  const sessions = await Promise.all(
+    ids.map((id) => httpGet<Session & { annotations: StoredAnnotation[] }>(`/sessions/${id}`))
+  );
+  return {
+    annotations: sessions.flatMap((s) =>
+      s.annotations.filter((a) => a.status === "resolved" || a.status === "dismissed")
+    ),
+    sessions: new Map(sessions.map((s) => [s.id, s])),
+  };
+}
+
+// The rendered markdown has no IDs, which the agent needs for tool calls
+function annotationIndex(annotations: StoredAnnotation[]): string {
+  return annotations
+    .map((a) => `- \`${a.id}\` ${a.element}: ${a.comment.split("\n")[0].slice(0, 80)}`)
+    .join("\n");
+}
+
+function resolutionList(annotations: StoredAnnotation[]): string {
+  return annotations
+    .map((a) => {
+      const by = a.resolvedBy ? ` by ${a.resolvedBy}` : "";
+      const thread = (a.thread ?? []).map((m) => `\n  - ${m.role}: ${m.content}`).join("");
+      return `- \`${a.id}\` **${a.element}** (${a.status}${by}): ${a.comment}${thread}`;
+    })
+    .join("\n");
+}
+
+function promptInstructions(name: string, scope: string, count: number): string {
+  switch (name) {
+    case "address-pending-feedback":
+      return (
+        `Address the ${count} pending Agentation feedback item(s)${scope} below. For each annotation:\n` +
+        "1. Call agentation_acknowledge so the reviewer knows you're on it.\n" +
+        "2. Make the change. If the feedback is unclear, ask with agentation_reply and move on to the next one.\n" +
+        "3. If you decide not to act on it, call agentation_dismiss with your reason.\n" +
+        "When done, call agentation_resolve_many with a one-line summary for each annotation you changed. " +
+        "Don't resolve anything you didn't change."
+      );
+    case "triage-session":
+      return (
+        `Triage the ${count} pending Agentation feedback item(s)${scope} below. Don't change any code yet.\n` +
+        "For each annotation give its ID, a severity (blocking, important or suggestion), whether it asks for a fix, " +
+        "a change or an answer, the file or component it most likely touches, and a rough size (small, medium, large). " +
+        "Point out duplicates. Ask about anything too vague to act on with agentation_reply, and use agentation_assign " +
+        "where the owner is obvious. End with the order you would work in."
+      );
+    default:
+      return (
+        `Summarize the ${count} resolved and dismissed Agentation feedback item(s)${scope} below for the reviewer. ` +
+        "Group by page. For each resolved annotation say what changed; for each dismissed one, why. " +
+        "List anything a human should still check. Keep it short."
+      );
+  }
+}
+
+export async function getPrompt(
+  name: string,
+  args: Record<string, string> | undefined
+): Promise<{ description: string; messages: { role: "user"; content: { type: "text"; text: string } }[] }> {
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  const parsed = PromptArgumentsSchema.safeParse(args ?? {});
+  if (!parsed.success) {
+    throw new McpError(ErrorCode.InvalidParams, `detail must be one of ${OUTPUT_DETAIL_LEVELS.join(", ")}`);
+  }
+  const scope = parsed.data;
+
+  const closed = name === "summarize-resolutions";
+  const { annotations, sessions } = await fetchPromptFeedback(scope, closed);
+
+  let text: string;
+  if (annotations.length === 0) {
+    text = `There is no ${closed ? "resolved or dismissed" : "pending"} Agentation feedback${describeScope(scope)}.`;
+  } else {
+    text = promptInstructions(name, describeScope(scope), annotations.length);
+    text += `\n\n${generateSessionsOutput(annotations, sessions, scope.detail)}`;
+    text += closed
+      ? `\n\n## Outcomes\n\n${resolutionList(annotations)}`
+      : `\n\n## Annotation IDs\n\n${annotationIndex(annotations)}`;
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+/**
+ * Serve the workflow prompts on an MCP server.
+ */
+export function registerPrompts(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: PROMPTS }));
+  server.setRequestHandler(GetPromptRequestSchema, (request) =>
+    getPrompt(request.params.name, request.params.arguments)
+  );
+}
+
 // -----------------------------------------------------------------------------
 // Server
 // -----------------------------------------------------------------------------
@@ -691,6 +1686,8 @@ export async function startMcpServer(baseUrl?: string): Promise<void> {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
+        prompts: {},
       },
     }
   );
@@ -711,6 +1708,9 @@ export async function startMcpServer(baseUrl?: string): Promise<void> {
     }
   });
 
+  registerResources(server);
+  registerPrompts(server);
+
   // Connect via stdio
   const transport = new StdioServerTransport();
   await server.connect(transport);
@@ -0,0 +1,215 @@
+/**
+ * Prometheus metrics.
+ *
+ * Counters and the request latency histogram live here and are updated as
+ * things happen. Point-in-time values (connection gauges, annotation
+ * counts) are owned elsewhere and passed to renderMetrics at scrape time.
+ * Rendering follows the Prometheus text exposition format, version 0.0.4.
+ */
+
+import { eventBus, userEventBus } from "./events.js";
+import type { AFSEvent, AnnotationCount } from "../types.js";
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// Upper bounds (seconds) for request latency buckets
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type Labels = Record<string, string>;
+
+/**
+ * A counter family: one value per distinct label set.
+ */
+class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  inc(labels: Labels, by = 1): void {
+    const key = JSON.stringify(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += by;
+    } else {
+      this.values.set(key, { labels, value: by });
+    }
+  }
+
+  entries(): Array<{ labels: Labels; value: number }> {
+    return Array.from(this.values.values());
+  }
+}
+
+/**
+ * A histogram family with fixed buckets.
+ */
+class Histogram {
+  private series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly bounds: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = JSON.stringify(labels);
+    const entry = this.series.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.series.set(key, entry);
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) entry.buckets[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  entries(): Array<{ labels: Labels; buckets: number[]; sum: number; count: number }> {
+    return Array.from(this.series.values());
+  }
+}
+
+const httpRequests = new Counter();
+const httpDuration = new Histogram(LATENCY_BUCKETS);
+const eventsEmitted = new Counter();
+const webhookAttempts = new Counter();
+const webhookDeliveries = new Counter();
+
+// -----------------------------------------------------------------------------
+// Recording
+// -----------------------------------------------------------------------------
+
+/**
+ * Record a finished HTTP request. `route` is the route template (e.g.
+ * "/sessions/:id"), never the raw path, to keep label cardinality bounded.
+ * Pass no duration for streams (SSE) that ended with the client.
+ */
+export function recordHttpRequest(method: string, route: string, status: number, durationSeconds?: number): void {
+  httpRequests.inc({ method, route, status: String(status) });
+  if (durationSeconds !== undefined) {
+    httpDuration.observe({ method, route }, durationSeconds);
+  }
+}
+
+/**
+ * Record one webhook POST attempt.
+ */
+export function recordWebhookAttempt(ok: boolean): void {
+  webhookAttempts.inc({ result: ok ? "success" : "failure" });
+}
+
+/**
+ * Record a webhook delivery reaching a final state.
+ */
+export function recordWebhookDelivery(status: "succeeded" | "failed"): void {
+  webhookDeliveries.inc({ status });
+}
+
+/**
+ * Count events delivered by both event buses. Returns an unsubscribe
+ * function.
+ */
+export function startMetricsCollector(): () => void {
+  const count = (event: AFSEvent) => eventsEmitted.inc({ type: event.type });
+  const unsubscribeGlobal = eventBus.subscribe(count);
+  const unsubscribeUsers = userEventBus.subscribeAllUsers((_userId, event) => count(event));
+
+  return () => {
+    unsubscribeGlobal();
+    unsubscribeUsers();
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Rendering
+// -----------------------------------------------------------------------------
+
+/**
+ * Values read at scrape time.
+ */
+export type MetricsSnapshot = {
+  sseConnections: number;
+  agentConnections: number;
+  mcpTransports: number;
+  eventSequence: number;
+  uptimeSeconds: number;
+  annotations: AnnotationCount[];
+};
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function family(name: string, type: "counter" | "gauge" | "histogram", help: string, samples: string[]): string {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples].join("\n");
+}
+
+function gauge(name: string, help: string, value: number): string {
+  return family(name, "gauge", help, [`${name} ${value}`]);
+}
+
+function counterSamples(name: string, counter: Counter): string[] {
+  return counter.entries().map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`);
+}
+
+function histogramSamples(name: string, histogram: Histogram): string[] {
+  return histogram.entries().flatMap(({ labels, buckets, sum, count }) => [
+    ...histogram.bounds.map(
+      (bound, i) => `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`
+    ),
+    `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+    `${name}_sum${formatLabels(labels)} ${sum}`,
+    `${name}_count${formatLabels(labels)} ${count}`,
+  ]);
+}
+
+/**
+ * Render every metric in Prometheus text format.
+ */
+export function renderMetrics(snapshot: MetricsSnapshot): string {
+  const sections = [
+    family(
+      "agentation_http_requests_total",
+      "counter",
+      "HTTP requests by method, route and status code.",
+      counterSamples("agentation_http_requests_total", httpRequests)
+    ),
+    family(
+      "agentation_http_request_duration_seconds",
+      "histogram",
+      "HTTP request latency by method and route (streams excluded).",
+      histogramSamples("agentation_http_request_duration_seconds", httpDuration)
+    ),
+    gauge("agentation_sse_connections", "Open SSE connections, including agents.", snapshot.sseConnections),
+    gauge("agentation_agent_connections", "Open SSE connections from agents (?agent=true).", snapshot.agentConnections),
+    gauge("agentation_mcp_transports", "Active MCP HTTP transport sessions.", snapshot.mcpTransports),
+    family(
+      "agentation_annotations",
+      "gauge",
+      "Stored annotations by status and severity.",
+      snapshot.annotations.map(
+        ({ status, severity, count }) =>
+          `agentation_annotations${formatLabels({ status, severity: severity ?? "none" })} ${count}`
+      )
+    ),
+    family(
+      "agentation_events_emitted_total",
+      "counter",
+      "Events delivered by the event bus, by type.",
+      counterSamples("agentation_events_emitted_total", eventsEmitted)
+    ),
+    gauge("agentation_event_sequence", "Sequence number of the latest event.", snapshot.eventSequence),
+    family(
+      "agentation_webhook_attempts_total",
+      "counter",
+      "Webhook POST attempts by result.",
+      counterSamples("agentation_webhook_attempts_total", webhookAttempts)
+    ),
+    family(
+      "agentation_webhook_deliveries_total",
+      "counter",
+      "Webhook deliveries that reached a final status.",
+      counterSamples("agentation_webhook_deliveries_total", webhookDeliveries)
+    ),
+    gauge("agentation_uptime_seconds", "Seconds since the server process started.", snapshot.uptimeSeconds),
+  ];
+  return sections.join("\n") + "\n";
+}
@@ -0,0 +1,50 @@
+// =============================================================================
+// Agent Output Formatting
+// =============================================================================
+//
+// Renders annotations as the markdown handed to AI agents. The formatter is
+// the toolbar's own (package/src/utils/generate-output.ts), bundled in at
+// build time, so server-rendered output always matches what the toolbar
+// copies. Server-only helpers live here.
+//
+// =============================================================================
+
+import type { Annotation, Session } from "../types.js";
+import { generateOutput, type OutputDetailLevel } from "../../../package/src/utils/generate-output";
+
+export { generateOutput, OUTPUT_DETAIL_LEVELS } from "../../../package/src/utils/generate-output";
+export type { OutputDetailLevel, OutputEnvironment } from "../../../package/src/utils/generate-output";
+
+/**
+ * The path shown in the output heading, matching what the toolbar uses
+ * (pathname + search + hash). Falls back to the raw URL if unparseable.
+ */
+export function pageLabel(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search + parsed.hash;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Render annotations from one or more sessions, one section per session.
+ * Annotations whose session is unknown are grouped under their own URL.
+ */
+export function generateSessionsOutput(
+  annotations: Annotation[],
+  sessions: Map<string, Pick<Session, "id" | "url">>,
+  detailLevel: OutputDetailLevel = "standard",
+): string {
+  const groups = new Map<string, Annotation[]>();
+  for (const annotation of annotations) {
+    const key = annotation.sessionId ?? "";
+    groups.set(key, [...(groups.get(key) ?? []), annotation]);
+  }
+
+  return Array.from(groups, ([sessionId, group]) => {
+    const url = sessions.get(sessionId)?.url ?? group[0].url ?? "";
+    return generateOutput(group, pageLabel(url), detailLevel, { url });
+  }).join("\n\n---\n\n");
+}
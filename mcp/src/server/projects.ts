@@ -0,0 +1,178 @@
+/**
+ * Projects group sessions by app, so agents working on several apps at once
+ * only pick up feedback for their own repository.
+ *
+ * A session joins a project when its URL matches one of the project's URL
+ * patterns. Patterns are whole URLs where "*" matches any run of
+ * characters, e.g. "http://localhost:3000/*" or "https://*.acme.dev/*".
+ * When several projects match, the most specific pattern (the most
+ * non-wildcard characters) wins.
+ *
+ * New annotations pick up project defaults: a severity, and an assignee
+ * from the first routing rule that matches.
+ */
+
+import type { Annotation, AnnotationSeverity, Project, RoutingRule } from "../types.js";
+
+const SEVERITIES: AnnotationSeverity[] = ["blocking", "important", "suggestion"];
+
+const ROUTING_CONDITIONS = ["components", "elementPath", "severity"] as const;
+const ROUTING_RULE_KEYS: readonly string[] = ["assignee", "fallback", ...ROUTING_CONDITIONS];
+
+const patternCache = new Map<string, RegExp>();
+
+function patternToRegExp(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    regex = new RegExp(`^${source}$`, "i");
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Find the project whose URL patterns best match `url`.
+ */
+export function matchProject(url: string, projects: Project[]): Project | undefined {
+  let best: { project: Project; specificity: number } | undefined;
+  for (const project of projects) {
+    for (const pattern of project.urlPatterns) {
+      if (!patternToRegExp(pattern).test(url)) continue;
+      const specificity = pattern.replace(/\*/g, "").length;
+      if (!best || specificity > best.specificity) best = { project, specificity };
+    }
+  }
+  return best?.project;
+}
+
+function globMatches(pattern: string | undefined, value: string | undefined): boolean {
+  return pattern === undefined || (value !== undefined && patternToRegExp(pattern).test(value));
+}
+
+/**
+ * Find the routing rule that assigns an annotation, if any.
+ */
+export function routeAnnotation(
+  rules: RoutingRule[],
+  annotation: Pick<Annotation, "reactComponents" | "elementPath" | "severity">
+): RoutingRule | undefined {
+  return rules.find(
+    (rule) =>
+      globMatches(rule.components, annotation.reactComponents) &&
+      globMatches(rule.elementPath, annotation.elementPath) &&
+      (!rule.severity || (annotation.severity !== undefined && rule.severity.includes(annotation.severity)))
+  );
+}
+
+/**
+ * Fill in fields a new annotation leaves unset from its project's defaults.
+ * Routing sees the defaulted severity.
+ */
+export function withProjectDefaults<
+  T extends Pick<Annotation, "severity" | "assigneeId" | "reactComponents" | "elementPath">,
+>(data: T, project: Project | undefined): T {
+  if (!project) return data;
+  let result = data;
+  if (project.defaultSeverity && !result.severity) {
+    result = { ...result, severity: project.defaultSeverity };
+  }
+  if (project.routing && !result.assigneeId) {
+    const rule = routeAnnotation(project.routing, result);
+    if (rule) result = { ...result, assigneeId: rule.assignee };
+  }
+  return result;
+}
+
+/**
+ * Validate project fields from a request body.
+ * With `partial`, only the fields present are checked (for PATCH).
+ * Returns an error message, or undefined if valid.
+ */
+export function validateProjectInput(data: Partial<Project>, partial = false): string | undefined {
+  if (!partial || data.name !== undefined) {
+    if (typeof data.name !== "string" || data.name.trim() === "") {
+      return "name must be a non-empty string";
+    }
+  }
+
+  if (!partial || data.urlPatterns !== undefined) {
+    if (
+      !Array.isArray(data.urlPatterns) ||
+      data.urlPatterns.some((pattern) => typeof pattern !== "string" || pattern.trim() === "")
+    ) {
+      return "urlPatterns must be an array of URL patterns";
+    }
+  }
+
+  if (data.allowedOrigins !== undefined) {
+    if (!Array.isArray(data.allowedOrigins) || data.allowedOrigins.some((origin) => !isOrigin(origin))) {
+      return "allowedOrigins must be an array of origins like http://localhost:3000";
+    }
+  }
+
+  if (data.defaultSeverity !== undefined && !SEVERITIES.includes(data.defaultSeverity)) {
+    return "defaultSeverity must be blocking, important, or suggestion";
+  }
+
+  if (data.repoPath !== undefined && (typeof data.repoPath !== "string" || data.repoPath.trim() === "")) {
+    return "repoPath must be a non-empty string";
+  }
+
+  if (data.routing !== undefined) {
+    if (!Array.isArray(data.routing)) {
+      return "routing must be an array of rules";
+    }
+    for (const [index, rule] of data.routing.entries()) {
+      const error = validateRoutingRule(rule);
+      if (error) return `routing[${index}].${error}`;
+    }
+  }
+
+  return undefined;
+}
+
+function validateRoutingRule(rule: Partial<RoutingRule> | null): string | undefined {
+  if (typeof rule?.assignee !== "string" || rule.assignee.trim() === "") {
+    return "assignee must be a non-empty string";
+  }
+  // A misspelled condition would otherwise leave a rule that matches everything
+  const unknown = Object.keys(rule).find((key) => !ROUTING_RULE_KEYS.includes(key));
+  if (unknown) {
+    return `${unknown} is not a routing rule field (expected ${ROUTING_RULE_KEYS.join(", ")})`;
+  }
+  if (rule.fallback !== undefined && typeof rule.fallback !== "boolean") {
+    return "fallback must be a boolean";
+  }
+  const hasCondition = ROUTING_CONDITIONS.some((condition) => rule[condition] !== undefined);
+  if (rule.fallback && hasCondition) {
+    return "fallback can't be combined with conditions (it matches everything)";
+  }
+  if (!rule.fallback && !hasCondition) {
+    return "fallback must be true for a rule without conditions (components, elementPath or severity)";
+  }
+  if (rule.components !== undefined && typeof rule.components !== "string") {
+    return "components must be a glob string";
+  }
+  if (rule.elementPath !== undefined && typeof rule.elementPath !== "string") {
+    return "elementPath must be a glob string";
+  }
+  if (rule.severity !== undefined) {
+    if (!Array.isArray(rule.severity) || rule.severity.some((s) => !SEVERITIES.includes(s))) {
+      return "severity must be an array of blocking, important, or suggestion";
+    }
+  }
+  return undefined;
+}
+
+function isOrigin(value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  try {
+    return new URL(value).origin === value;
+  } catch {
+    return false;
+  }
+}
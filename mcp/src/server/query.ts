@@ -0,0 +1,348 @@
+/**
+ * Query helpers for filtered, sorted, cursor-paginated listings.
+ *
+ * Shared by the HTTP layer (parsing query strings) and the stores
+ * (cursor encoding and in-memory evaluation). Cursors are keyset
+ * positions — the last item's sort value and ID — so pages stay
+ * stable while new items arrive.
+ */
+
+import { AFS_EVENT_TYPES } from "./events.js";
+import type {
+  AFSEvent,
+  Annotation,
+  AnnotationIntent,
+  AnnotationQuery,
+  AnnotationSeverity,
+  AnnotationSort,
+  AnnotationStatus,
+  EventFilter,
+  Page,
+  Session,
+  SessionQuery,
+  SessionSort,
+  SessionStatus,
+} from "../types.js";
+
+export const MAX_PAGE_SIZE = 500;
+
+const SESSION_STATUSES: SessionStatus[] = ["active", "approved", "closed"];
+const ANNOTATION_STATUSES: AnnotationStatus[] = ["pending", "acknowledged", "awaiting_human", "resolved", "dismissed"];
+const INTENTS: AnnotationIntent[] = ["fix", "change", "question", "approve"];
+const SEVERITIES: AnnotationSeverity[] = ["blocking", "important", "suggestion"];
+const SESSION_SORTS: SessionSort[] = ["createdAt", "-createdAt", "updatedAt", "-updatedAt"];
+const ANNOTATION_SORTS: AnnotationSort[] = [...SESSION_SORTS, "severity", "-severity"];
+
+/**
+ * Assignee filter value matching annotations nobody is assigned.
+ */
+export const UNASSIGNED = "none";
+
+/**
+ * Check an annotation against an assignee filter.
+ */
+export function matchesAssignee(annotation: Annotation, assignees: string[]): boolean {
+  return assignees.includes(annotation.assigneeId ?? UNASSIGNED);
+}
+
+/**
+ * Severity rank for sorting; lower sorts first. Unset severity sorts last.
+ */
+export function severityRank(severity: AnnotationSeverity | undefined): number {
+  return severity ? SEVERITIES.indexOf(severity) : SEVERITIES.length;
+}
+
+// -----------------------------------------------------------------------------
+// Query String Parsing
+// -----------------------------------------------------------------------------
+
+/**
+ * Thrown for malformed query parameters; the HTTP layer maps it to a 400.
+ */
+export class QueryError extends Error {}
+
+function parseList<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  allowed: readonly T[]
+): T[] | undefined {
+  const raw = params.get(name);
+  if (!raw) return undefined;
+
+  const values = raw.split(",").map((v) => v.trim()).filter(Boolean);
+  const invalid = values.filter((v) => !allowed.includes(v as T));
+  if (invalid.length > 0) {
+    throw new QueryError(`${name} must be one or more of ${allowed.join(", ")}`);
+  }
+  return values as T[];
+}
+
+function parseNames(params: URLSearchParams, name: string): string[] | undefined {
+  const values = params.get(name)?.split(",").map((v) => v.trim()).filter(Boolean);
+  return values?.length ? values : undefined;
+}
+
+function parseTimestamp(params: URLSearchParams, name: string): string | undefined {
+  const raw = params.get(name);
+  if (!raw) return undefined;
+
+  const time = new Date(raw);
+  if (isNaN(time.getTime())) {
+    throw new QueryError(`${name} must be an ISO 8601 timestamp`);
+  }
+  return time.toISOString();
+}
+
+function parseLimit(params: URLSearchParams): number | undefined {
+  const raw = params.get("limit");
+  if (!raw) return undefined;
+
+  const limit = parseInt(raw, 10);
+  if (isNaN(limit) || limit < 1) {
+    throw new QueryError("limit must be a positive integer");
+  }
+  return Math.min(limit, MAX_PAGE_SIZE);
+}
+
+function parseSort<T extends string>(params: URLSearchParams, allowed: T[]): T | undefined {
+  const raw = params.get("sort");
+  if (!raw) return undefined;
+
+  if (!allowed.includes(raw as T)) {
+    throw new QueryError(`sort must be one of ${allowed.join(", ")}`);
+  }
+  return raw as T;
+}
+
+function parseCursor(params: URLSearchParams): string | undefined {
+  const raw = params.get("cursor");
+  if (!raw) return undefined;
+
+  // Validate early so a bad cursor is a 400, not a 500 from the store
+  decodeCursor(raw);
+  return raw;
+}
+
+/**
+ * Parse GET /sessions query parameters.
+ */
+export function parseSessionQuery(params: URLSearchParams): SessionQuery {
+  return {
+    status: parseList(params, "status", SESSION_STATUSES),
+    projectId: params.get("projectId") || undefined,
+    url: params.get("url") || undefined,
+    domain: params.get("domain") || undefined,
+    since: parseTimestamp(params, "since"),
+    until: parseTimestamp(params, "until"),
+    sort: parseSort(params, SESSION_SORTS),
+    cursor: parseCursor(params),
+    limit: parseLimit(params),
+  };
+}
+
+/**
+ * Parse GET /pending query parameters.
+ * `status` filters by the parent session's status.
+ */
+export function parseAnnotationQuery(params: URLSearchParams): AnnotationQuery {
+  return {
+    sessionStatus: parseList(params, "status", SESSION_STATUSES),
+    projectId: params.get("projectId") || undefined,
+    url: params.get("url") || undefined,
+    domain: params.get("domain") || undefined,
+    intent: parseList(params, "intent", INTENTS),
+    severity: parseList(params, "severity", SEVERITIES),
+    assignee: parseNames(params, "assignee"),
+    since: parseTimestamp(params, "since"),
+    until: parseTimestamp(params, "until"),
+    sort: parseSort(params, ANNOTATION_SORTS),
+    cursor: parseCursor(params),
+    limit: parseLimit(params),
+  };
+}
+
+/**
+ * Parse event stream (/events, /sessions/:id/events) query parameters.
+ */
+export function parseEventFilter(params: URLSearchParams): EventFilter {
+  return {
+    types: parseList(params, "types", AFS_EVENT_TYPES),
+    status: parseList(params, "status", ANNOTATION_STATUSES),
+    severity: parseList(params, "severity", SEVERITIES),
+    assignee: parseNames(params, "assignee"),
+    projectId: params.get("projectId") || undefined,
+    domain: params.get("domain") || undefined,
+    excludeOrigin: params.get("excludeOrigin") || undefined,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Cursors
+// -----------------------------------------------------------------------------
+
+export type Cursor = { value: string | number; id: string };
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString("base64url");
+}
+
+export function decodeCursor(raw: string): Cursor {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(raw, "base64url").toString("utf-8"));
+    if ((typeof value === "string" || typeof value === "number") && typeof id === "string") {
+      return { value, id };
+    }
+  } catch {
+    // Fall through
+  }
+  throw new QueryError("Invalid cursor");
+}
+
+/**
+ * Split a sort spec like "-createdAt" into field and direction.
+ */
+export function parseSortSpec<T extends string>(sort: T): { field: string; descending: boolean } {
+  return sort.startsWith("-")
+    ? { field: sort.slice(1), descending: true }
+    : { field: sort, descending: false };
+}
+
+// -----------------------------------------------------------------------------
+// In-Memory Evaluation
+// -----------------------------------------------------------------------------
+
+function hostOf(url: string): string | undefined {
+  try {
+    return new URL(url).host;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Sort, cursor and slice already-filtered items.
+ */
+function paginate<T extends { id: string }>(
+  items: T[],
+  sort: string,
+  sortValue: (item: T) => string | number,
+  cursor: string | undefined,
+  limit: number | undefined
+): Page<T> {
+  const { descending } = parseSortSpec(sort);
+  const direction = descending ? -1 : 1;
+  const compare = (a: string | number, aId: string, b: string | number, bId: string) => {
+    if (a !== b) return (a < b ? -1 : 1) * direction;
+    return (aId < bId ? -1 : aId > bId ? 1 : 0) * direction;
+  };
+
+  const sorted = [...items].sort((a, b) => compare(sortValue(a), a.id, sortValue(b), b.id));
+  const total = sorted.length;
+
+  let remaining = sorted;
+  if (cursor) {
+    const after = decodeCursor(cursor);
+    remaining = sorted.filter((item) => compare(sortValue(item), item.id, after.value, after.id) > 0);
+  }
+
+  if (!limit || remaining.length <= limit) {
+    return { items: remaining, total };
+  }
+
+  const pageItems = remaining.slice(0, limit);
+  const last = pageItems[pageItems.length - 1];
+  return {
+    items: pageItems,
+    total,
+    nextCursor: encodeCursor({ value: sortValue(last), id: last.id }),
+  };
+}
+
+function timestampSortValue(item: { createdAt?: string; updatedAt?: string }, field: string): string {
+  return (field === "updatedAt" ? item.updatedAt ?? item.createdAt : item.createdAt) ?? "";
+}
+
+/**
+ * Evaluate a session query against in-memory sessions.
+ */
+export function applySessionQuery(sessions: Session[], query: SessionQuery): Page<Session> {
+  const filtered = sessions.filter((s) => {
+    if (query.status && !query.status.includes(s.status)) return false;
+    if (query.projectId && s.projectId !== query.projectId) return false;
+    if (query.url && !s.url.includes(query.url)) return false;
+    if (query.domain && hostOf(s.url) !== query.domain) return false;
+    if (query.since && s.createdAt < query.since) return false;
+    if (query.until && s.createdAt >= query.until) return false;
+    return true;
+  });
+
+  const sort = query.sort ?? "-createdAt";
+  const { field } = parseSortSpec(sort);
+  return paginate(filtered, sort, (s) => timestampSortValue(s, field), query.cursor, query.limit);
+}
+
+/**
+ * Evaluate a pending-annotation query against in-memory annotations.
+ * `getSession` resolves each annotation's parent for session-level filters.
+ */
+export function applyAnnotationQuery(
+  annotations: Annotation[],
+  query: AnnotationQuery,
+  getSession: (id: string) => Session | undefined
+): Page<Annotation> {
+  const filtered = annotations.filter((a) => {
+    if (query.sessionId && a.sessionId !== query.sessionId) return false;
+    if (query.intent && (!a.intent || !query.intent.includes(a.intent))) return false;
+    if (query.severity && (!a.severity || !query.severity.includes(a.severity))) return false;
+    if (query.assignee && !matchesAssignee(a, query.assignee)) return false;
+    const createdAt = a.createdAt ?? "";
+    if (query.since && createdAt < query.since) return false;
+    if (query.until && createdAt >= query.until) return false;
+
+    if (query.sessionStatus || query.projectId || query.url || query.domain) {
+      const session = a.sessionId ? getSession(a.sessionId) : undefined;
+      if (!session) return false;
+      if (query.sessionStatus && !query.sessionStatus.includes(session.status)) return false;
+      if (query.projectId && session.projectId !== query.projectId) return false;
+      if (query.url && !session.url.includes(query.url)) return false;
+      if (query.domain && hostOf(session.url) !== query.domain) return false;
+    }
+    return true;
+  });
+
+  const sort = query.sort ?? "createdAt";
+  const { field } = parseSortSpec(sort);
+  const sortValue = (a: Annotation) =>
+    field === "severity" ? severityRank(a.severity) : timestampSortValue(a, field);
+  return paginate(filtered, sort, sortValue, query.cursor, query.limit);
+}
+
+/**
+ * Check an event against a stream filter. `getSession` resolves the event's
+ * session for projectId and domain; it is only called when those are set.
+ */
+export function matchesEventFilter(
+  event: AFSEvent,
+  filter: EventFilter,
+  getSession: (id: string) => Session | undefined
+): boolean {
+  if (filter.types && !filter.types.includes(event.type)) return false;
+  if (filter.excludeOrigin && event.origin === filter.excludeOrigin) return false;
+
+  if (filter.status || filter.severity || filter.assignee) {
+    if (!event.type.startsWith("annotation.")) return false;
+    const annotation = event.payload as Annotation;
+    if (filter.status && (!annotation.status || !filter.status.includes(annotation.status))) return false;
+    if (filter.severity && (!annotation.severity || !filter.severity.includes(annotation.severity))) return false;
+    if (filter.assignee && !matchesAssignee(annotation, filter.assignee)) return false;
+  }
+
+  if (filter.projectId || filter.domain) {
+    const session = event.type.startsWith("session.") ? (event.payload as Session) : getSession(event.sessionId);
+    if (!session) return false;
+    if (filter.projectId && session.projectId !== filter.projectId) return false;
+    if (filter.domain && hostOf(session.url) !== filter.domain) return false;
+  }
+
+  return true;
+}
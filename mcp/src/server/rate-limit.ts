@@ -0,0 +1,128 @@
+/**
+ * Per-client rate limiting for write routes.
+ *
+ * Each limited route has a token bucket per client (API key, or remote
+ * address when unauthenticated). A bucket holds up to `limit` tokens and
+ * refills continuously at `limit` per `windowSeconds`, so a client can
+ * burst up to the limit and then sustain the average rate.
+ *
+ * Batch writes (imports, bulk replies) cost one token per item. A batch
+ * bigger than the limit needs a full bucket and leaves it in debt, so it
+ * goes through but the client waits for the debt to refill afterwards.
+ */
+
+export type RateLimit = { limit: number; windowSeconds: number };
+
+export type RateLimitedRoute = "session" | "annotation" | "thread" | "action";
+
+/**
+ * Per-route limits; false turns a route's limit off.
+ */
+export type RateLimitConfig = Partial<Record<RateLimitedRoute, RateLimit | false>>;
+
+export const RATE_LIMITED_ROUTES: readonly RateLimitedRoute[] = ["session", "annotation", "thread", "action"];
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitedRoute, RateLimit> = {
+  session: { limit: 30, windowSeconds: 60 },
+  annotation: { limit: 300, windowSeconds: 60 },
+  thread: { limit: 120, windowSeconds: 60 },
+  action: { limit: 30, windowSeconds: 60 },
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private lastSweep = 0;
+  private readonly refillPerMs: number;
+
+  constructor(readonly rate: RateLimit) {
+    this.refillPerMs = rate.limit / (rate.windowSeconds * 1000);
+  }
+
+  /**
+   * Take `cost` tokens for `client`. Returns 0 if allowed, otherwise the
+   * whole number of seconds until they are available (for Retry-After).
+   */
+  take(client: string, cost = 1, now = Date.now()): number {
+    const retryAfter = this.check(client, cost, now);
+    if (retryAfter === 0) {
+      this.buckets.get(client)!.tokens -= cost;
+    }
+    return retryAfter;
+  }
+
+  /**
+   * Like take, but without taking the tokens.
+   */
+  check(client: string, cost = 1, now = Date.now()): number {
+    this.sweep(now);
+
+    const bucket = this.buckets.get(client) ?? { tokens: this.rate.limit, updatedAt: now };
+    bucket.tokens = Math.min(this.rate.limit, bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(client, bucket);
+
+    const needed = Math.min(cost, this.rate.limit);
+    if (bucket.tokens >= needed) {
+      return 0;
+    }
+    return Math.max(1, Math.ceil((needed - bucket.tokens) / this.refillPerMs / 1000));
+  }
+
+  // Forget clients whose buckets have refilled, at most once per window
+  private sweep(now: number): void {
+    const windowMs = this.rate.windowSeconds * 1000;
+    if (now - this.lastSweep < windowMs) return;
+    this.lastSweep = now;
+    for (const [client, bucket] of this.buckets) {
+      const tokens = bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs;
+      if (tokens >= this.rate.limit) this.buckets.delete(client);
+    }
+  }
+}
+
+/**
+ * Parse a rate limit spec such as "session=10/60,thread=off" (limit per
+ * seconds, or off). "off" alone turns every limit off.
+ * @throws Error if the spec is malformed
+ */
+export function parseRateLimits(spec: string): RateLimitConfig {
+  const config: RateLimitConfig = {};
+  if (spec.trim() === "off") {
+    for (const route of RATE_LIMITED_ROUTES) config[route] = false;
+    return config;
+  }
+
+  for (const entry of spec.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const [route, value] = entry.split("=").map((part) => part.trim());
+    if (!RATE_LIMITED_ROUTES.includes(route as RateLimitedRoute)) {
+      throw new Error(`Unknown rate-limited route "${route}" (expected ${RATE_LIMITED_ROUTES.join(", ")})`);
+    }
+    if (value === "off") {
+      config[route as RateLimitedRoute] = false;
+      continue;
+    }
+    const match = value?.match(/^(\d+)\/(\d+)$/);
+    const limit = match ? parseInt(match[1], 10) : 0;
+    const windowSeconds = match ? parseInt(match[2], 10) : 0;
+    if (limit < 1 || windowSeconds < 1) {
+      throw new Error(`Invalid rate limit "${entry}" (expected ${route}=<requests>/<seconds> or ${route}=off)`);
+    }
+    config[route as RateLimitedRoute] = { limit, windowSeconds };
+  }
+  return config;
+}
+
+/**
+ * Build a limiter per route from `config` over the defaults. Routes
+ * turned off get no limiter.
+ */
+export function createRateLimiters(config: RateLimitConfig = {}): Partial<Record<RateLimitedRoute, RateLimiter>> {
+  const limiters: Partial<Record<RateLimitedRoute, RateLimiter>> = {};
+  for (const route of RATE_LIMITED_ROUTES) {
+    const rate = config[route] ?? DEFAULT_RATE_LIMITS[route];
+    if (rate) limiters[route] = new RateLimiter(rate);
+  }
+  return limiters;
+}
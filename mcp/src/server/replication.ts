@@ -0,0 +1,497 @@
+/**
+ * Hybrid local/cloud replication.
+ *
+ * In hybrid mode every write lands in the local store first, so feedback
+ * capture keeps working offline, and a replicator syncs with the cloud API
+ * in the background:
+ *
+ * - Push reads the local event log from the last pushed sequence and
+ *   uploads each changed session as a snapshot through
+ *   POST /import?merge=true; deletes go through DELETE. The cursor only
+ *   advances once the cloud accepts, so failures retry with backoff, across
+ *   restarts too. If retention pruned the log past the cursor, every
+ *   session is pushed.
+ * - Pull follows the cloud's /events stream from the last pulled sequence
+ *   and merges a fresh snapshot of each session it mentions. On a `reset`
+ *   (the cloud pruned past our cursor) every cloud session is pulled.
+ *
+ * Both sides merge with mergeSession, so the copy with the later updatedAt
+ * wins. Writes carry this replica's origin, which keeps pulled changes from
+ * being pushed back and pushed changes from being pulled again.
+ *
+ * Not every cloud has these routes. Before replicating, the replicator
+ * checks the `capabilities` the cloud lists in GET /status; a cloud missing
+ * any is reported as unsupported in /status, and local changes stay queued
+ * until a later check finds them.
+ */
+
+import { getStore } from "./store.js";
+import { eventBus, withEventOrigin } from "./events.js";
+import { isNewerRevision } from "./versioning.js";
+import { parseArchive } from "./export.js";
+import { ContentLimitError } from "./limits.js";
+import type { AFSEvent, AFSEventType, Annotation, Session, SessionWithAnnotations } from "../types.js";
+
+// Base delay before retrying a failed push or a dropped pull stream;
+// doubles on each consecutive failure up to the maximum
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
+// Let a burst of local writes settle before pushing
+const PUSH_DEBOUNCE_MS = 500;
+// Sessions per POST /import request
+const PUSH_BATCH_SIZE = 25;
+// Per-request timeout (not applied to the pull stream)
+const REQUEST_TIMEOUT_MS = 30000;
+// How often to check again whether an unsupported cloud has been upgraded
+const RECHECK_UNSUPPORTED_MS = 10 * 60 * 1000;
+
+/**
+ * What a server must list in GET /status `capabilities` to replicate with:
+ * POST /import?merge=true, GET /sessions/:id/export, and /events replay
+ * from Last-Event-ID with excludeOrigin.
+ */
+export const REPLICATION_CAPABILITIES = ["import-merge", "session-export", "event-replay"] as const;
+
+// Events that change replicated data
+const DATA_EVENT_TYPES: readonly AFSEventType[] = [
+  "annotation.created",
+  "annotation.updated",
+  "annotation.deleted",
+  "session.created",
+  "session.updated",
+  "session.closed",
+  "thread.message",
+];
+
+export type ReplicatorOptions = {
+  cloudUrl: string;
+  apiKey: string;
+};
+
+/**
+ * Replication health, reported by /status.
+ */
+export type ReplicationStatus = {
+  cloudSupport: "unknown" | "supported" | "unsupported"; // From the cloud's capabilities; unknown until it answers
+  missingCapabilities?: string[]; // When unsupported
+  connected: boolean; // Pull stream is open
+  pendingChanges: number; // Local events and deletes not yet in the cloud
+  lagSeconds: number; // Age of the oldest unpushed change; 0 when caught up
+  lastPushAt?: string;
+  lastPullAt?: string;
+  lastError?: string;
+};
+
+let options: ReplicatorOptions | undefined;
+let origin = "";
+let running = false;
+let connected = false;
+let lastError: string | undefined;
+let cloudSupport: ReplicationStatus["cloudSupport"] = "unknown";
+let missingCapabilities: string[] | undefined;
+
+let pushTimer: ReturnType<typeof setTimeout> | undefined;
+let pushing = false;
+let pushQueued = false;
+let pushFailures = 0;
+
+let pullController: AbortController | undefined;
+
+// -----------------------------------------------------------------------------
+// Cloud Requests
+// -----------------------------------------------------------------------------
+
+async function cloudFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(`${options!.cloudUrl}${path}`, {
+    ...init,
+    headers: {
+      "x-api-key": options!.apiKey,
+      "X-Agentation-Origin": origin,
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+      ...init.headers,
+    },
+    signal: init.signal ?? AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+}
+
+async function expectOk(res: Response, allow404 = false): Promise<void> {
+  if (res.ok || (allow404 && res.status === 404)) return;
+  throw new Error(`${res.status} ${res.statusText}: ${(await res.text()).slice(0, 200)}`);
+}
+
+function isLocalChange(event: AFSEvent): boolean {
+  return DATA_EVENT_TYPES.includes(event.type) && event.origin !== origin;
+}
+
+// -----------------------------------------------------------------------------
+// Push
+// -----------------------------------------------------------------------------
+
+function schedulePush(delayMs: number): void {
+  if (!running || cloudSupport !== "supported") return;
+  if (pushTimer) clearTimeout(pushTimer);
+  pushTimer = setTimeout(() => {
+    pushTimer = undefined;
+    runPush();
+  }, delayMs);
+  // Don't keep the process alive just for replication
+  pushTimer.unref?.();
+}
+
+function runPush(): void {
+  if (pushing) {
+    pushQueued = true;
+    return;
+  }
+  pushing = true;
+  push()
+    .then(() => {
+      pushFailures = 0;
+      lastError = undefined;
+    })
+    .catch((err) => {
+      pushFailures++;
+      lastError = `Push failed: ${(err as Error).message}`;
+      const delayMs = Math.min(RETRY_BASE_DELAY_MS * 2 ** (pushFailures - 1), RETRY_MAX_DELAY_MS);
+      console.warn(`[Replication] ${lastError}. Retrying in ${delayMs}ms`);
+      schedulePush(delayMs);
+    })
+    .finally(() => {
+      pushing = false;
+      if (pushQueued) {
+        pushQueued = false;
+        schedulePush(PUSH_DEBOUNCE_MS);
+      }
+    });
+}
+
+/**
+ * Push everything after the pushed cursor to the cloud.
+ */
+async function push(): Promise<void> {
+  const store = getStore();
+  const state = store.getReplicationState();
+  const through = eventBus.getSequence();
+
+  const sessionIds = new Set<string>();
+  const deletedAnnotations: string[] = [];
+  if (state.pushedSequence < store.getPrunedSequence()) {
+    for (const session of store.listSessions()) sessionIds.add(session.id);
+  } else {
+    for (const event of store.getEventsSinceGlobal(state.pushedSequence)) {
+      if (!isLocalChange(event)) continue;
+      if (event.type === "annotation.deleted") {
+        deletedAnnotations.push((event.payload as Annotation).id);
+      } else {
+        sessionIds.add(event.sessionId);
+      }
+    }
+  }
+
+  for (const id of state.pendingSessionDeletes) {
+    await expectOk(await cloudFetch(`/sessions/${encodeURIComponent(id)}`, { method: "DELETE" }), true);
+    sessionIds.delete(id);
+  }
+  for (const id of deletedAnnotations) {
+    await expectOk(await cloudFetch(`/annotations/${encodeURIComponent(id)}`, { method: "DELETE" }), true);
+  }
+
+  // Sessions deleted since their events were logged have nothing to send
+  const snapshots = Array.from(sessionIds)
+    .map((id) => store.getSessionWithAnnotations(id))
+    .filter((session): session is SessionWithAnnotations => session !== undefined);
+  for (let i = 0; i < snapshots.length; i += PUSH_BATCH_SIZE) {
+    const sessions = snapshots.slice(i, i + PUSH_BATCH_SIZE);
+    await expectOk(
+      await cloudFetch("/import?merge=true", { method: "POST", body: JSON.stringify({ version: 1, sessions }) })
+    );
+  }
+
+  // Deletes recorded while this push ran stay queued
+  const remaining = store.getReplicationState().pendingSessionDeletes.filter(
+    (id) => !state.pendingSessionDeletes.includes(id)
+  );
+  store.updateReplicationState({
+    pushedSequence: Math.max(through, state.pushedSequence),
+    pendingSessionDeletes: remaining,
+    lastPushAt: new Date().toISOString(),
+  });
+
+  const pushed = snapshots.length + deletedAnnotations.length + state.pendingSessionDeletes.length;
+  if (pushed > 0) {
+    console.log(`[Replication] Pushed ${pushed} change${pushed === 1 ? "" : "s"}`);
+  }
+}
+
+/**
+ * Queue pushes for local changes. Deleted sessions leave no event in the
+ * log, so they are recorded in the replication state.
+ */
+function onLocalEvent(event: AFSEvent): void {
+  if (!isLocalChange(event)) return;
+
+  const store = getStore();
+  if (event.type === "session.closed" && !store.getSession(event.sessionId)) {
+    const { pendingSessionDeletes } = store.getReplicationState();
+    if (!pendingSessionDeletes.includes(event.sessionId)) {
+      store.updateReplicationState({ pendingSessionDeletes: [...pendingSessionDeletes, event.sessionId] });
+    }
+  }
+  schedulePush(PUSH_DEBOUNCE_MS);
+}
+
+// -----------------------------------------------------------------------------
+// Pull
+// -----------------------------------------------------------------------------
+
+/**
+ * Fetch one cloud session and merge it locally. A session the cloud no
+ * longer has was deleted there, so it is deleted here too.
+ */
+async function pullSession(sessionId: string): Promise<void> {
+  const store = getStore();
+  const res = await cloudFetch(`/sessions/${encodeURIComponent(sessionId)}/export?format=json`);
+  if (res.status === 404) {
+    // The capability check showed the route exists, so the session is gone
+    withEventOrigin(origin, () => store.deleteSession(sessionId));
+    return;
+  }
+  await expectOk(res);
+
+  const sessions = parseArchive(await res.json());
+  if (typeof sessions === "string") {
+    throw new Error(`Unexpected export for session ${sessionId}: ${sessions}`);
+  }
+  for (const session of sessions) {
+    try {
+      withEventOrigin(origin, () => store.mergeSession(session));
+    } catch (err) {
+      // Retrying can't help a copy over the local caps; don't stall the pull on it
+      if (!(err instanceof ContentLimitError)) throw err;
+      console.warn(`[Replication] Skipped session ${session.id}: ${err.message}`);
+    }
+  }
+}
+
+/**
+ * Pull every cloud session, page by page.
+ */
+async function pullAll(): Promise<void> {
+  let cursor: string | null = null;
+  do {
+    const query: string = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+    const res = await cloudFetch(`/sessions${query}`);
+    await expectOk(res);
+    for (const session of (await res.json()) as Session[]) {
+      await pullSession(session.id);
+    }
+    cursor = res.headers.get("x-next-cursor");
+  } while (cursor);
+}
+
+/**
+ * Apply a batch of cloud events: each mentioned session is pulled once,
+ * then the pulled cursor moves past the batch.
+ */
+async function applyCloudEvents(events: AFSEvent[]): Promise<void> {
+  const store = getStore();
+  const sessionIds = new Set<string>();
+  for (const event of events) {
+    if (event.type === "annotation.deleted") {
+      // Keep a local copy edited after the cloud deleted it
+      const local = store.getAnnotation((event.payload as Annotation).id);
+      if (local && !isNewerRevision(local, { updatedAt: event.timestamp })) {
+        withEventOrigin(origin, () => store.deleteAnnotation(local.id));
+      }
+    } else if (DATA_EVENT_TYPES.includes(event.type)) {
+      sessionIds.add(event.sessionId);
+    }
+  }
+
+  for (const id of sessionIds) {
+    await pullSession(id);
+  }
+
+  const last = events[events.length - 1];
+  if (last) {
+    store.updateReplicationState({ pulledSequence: last.sequence, lastPullAt: new Date().toISOString() });
+  }
+}
+
+/**
+ * Read the cloud event stream until it ends or is aborted.
+ */
+async function followCloudEvents(signal: AbortSignal): Promise<void> {
+  const store = getStore();
+  const { pulledSequence } = store.getReplicationState();
+  if (pulledSequence === 0) {
+    await pullAll();
+  }
+
+  const res = await cloudFetch(`/events?excludeOrigin=${encodeURIComponent(origin)}`, {
+    headers: { Accept: "text/event-stream", "Last-Event-ID": String(pulledSequence) },
+    signal,
+  });
+  await expectOk(res);
+  if (!res.body) throw new Error("No response body from cloud event stream");
+
+  connected = true;
+  lastError = undefined;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split("\n\n");
+    buffer = frames.pop() || "";
+
+    const events: AFSEvent[] = [];
+    for (const frame of frames) {
+      const lines = frame.split("\n");
+      const name = lines.find((line) => line.startsWith("event: "))?.slice(7);
+      const data = lines.find((line) => line.startsWith("data: "))?.slice(6);
+      if (!data) continue;
+
+      if (name === "reset") {
+        // The cloud can't replay from our cursor; resync everything
+        await applyCloudEvents(events.splice(0));
+        await pullAll();
+        const { sequence } = JSON.parse(data) as { sequence: number };
+        store.updateReplicationState({ pulledSequence: sequence, lastPullAt: new Date().toISOString() });
+        continue;
+      }
+
+      const event = JSON.parse(data) as AFSEvent;
+      // Sequence 0 marks the initial sync sent to agents, not a change
+      if (event.sequence > 0) events.push(event);
+    }
+    await applyCloudEvents(events);
+  }
+}
+
+async function pullLoop(): Promise<void> {
+  let failures = 0;
+  while (running) {
+    pullController = new AbortController();
+    try {
+      await followCloudEvents(pullController.signal);
+      failures = 0;
+    } catch (err) {
+      if (!running) return;
+      failures++;
+      lastError = `Pull failed: ${(err as Error).message}`;
+    }
+    connected = false;
+    if (!running) return;
+
+    const delayMs = Math.min(RETRY_BASE_DELAY_MS * 2 ** failures, RETRY_MAX_DELAY_MS);
+    if (failures > 0) {
+      console.warn(`[Replication] ${lastError}. Reconnecting in ${delayMs}ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, delayMs).unref?.());
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Capabilities
+// -----------------------------------------------------------------------------
+
+/**
+ * Ask the cloud which replication routes it has. Throws if it can't be
+ * reached, so the caller can retry.
+ */
+async function checkCloudSupport(): Promise<void> {
+  const res = await cloudFetch("/status");
+  // A cloud without /status predates replication
+  const body = res.ok ? ((await res.json().catch(() => ({}))) as { capabilities?: unknown }) : {};
+  if (!res.ok && res.status !== 404) await expectOk(res);
+
+  const capabilities = Array.isArray(body.capabilities) ? body.capabilities : [];
+  const missing = REPLICATION_CAPABILITIES.filter((capability) => !capabilities.includes(capability));
+  cloudSupport = missing.length === 0 ? "supported" : "unsupported";
+  missingCapabilities = missing.length > 0 ? missing : undefined;
+}
+
+/**
+ * Check the cloud until it answers, then start pushing and pulling if it
+ * supports replication; otherwise check again later.
+ */
+async function awaitCloudSupport(): Promise<void> {
+  let failures = 0;
+  while (running) {
+    try {
+      await checkCloudSupport();
+    } catch (err) {
+      failures++;
+      lastError = `Capability check failed: ${(err as Error).message}`;
+      const delayMs = Math.min(RETRY_BASE_DELAY_MS * 2 ** failures, RETRY_MAX_DELAY_MS);
+      await new Promise((resolve) => setTimeout(resolve, delayMs).unref?.());
+      continue;
+    }
+
+    if (cloudSupport === "supported") {
+      lastError = undefined;
+      // Push anything queued while offline or unsupported
+      schedulePush(0);
+      await pullLoop();
+      return;
+    }
+
+    failures = 0;
+    lastError = `Cloud doesn't support replication (missing ${missingCapabilities!.join(", ")})`;
+    console.warn(`[Replication] ${lastError}; local changes stay queued`);
+    await new Promise((resolve) => setTimeout(resolve, RECHECK_UNSUPPORTED_MS).unref?.());
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Lifecycle
+// -----------------------------------------------------------------------------
+
+/**
+ * Start replicating the local store with the cloud. Returns a stop
+ * function.
+ */
+export function startReplicator(replicatorOptions: ReplicatorOptions): () => void {
+  options = replicatorOptions;
+  origin = `replica-${getStore().getReplicationState().replicaId}`;
+  running = true;
+
+  const unsubscribe = eventBus.subscribe(onLocalEvent);
+  awaitCloudSupport().catch((err) => console.error("[Replication] Pull loop crashed:", (err as Error).message));
+  console.log(`[Replication] Hybrid mode: replicating with ${options.cloudUrl}`);
+
+  return () => {
+    running = false;
+    unsubscribe();
+    if (pushTimer) clearTimeout(pushTimer);
+    pullController?.abort();
+  };
+}
+
+/**
+ * Current replication status, or undefined when not in hybrid mode.
+ */
+export function getReplicationStatus(): ReplicationStatus | undefined {
+  if (!options) return undefined;
+
+  const store = getStore();
+  const state = store.getReplicationState();
+  const pending = store.getEventsSinceGlobal(state.pushedSequence).filter(isLocalChange);
+  const oldest = pending[0] ? Date.parse(pending[0].timestamp) : undefined;
+
+  return {
+    cloudSupport,
+    missingCapabilities,
+    connected,
+    pendingChanges: pending.length + state.pendingSessionDeletes.length,
+    lagSeconds: oldest ? Math.max(0, Math.round((Date.now() - oldest) / 1000)) : 0,
+    lastPushAt: state.lastPushAt,
+    lastPullAt: state.lastPullAt,
+    lastError,
+  };
+}
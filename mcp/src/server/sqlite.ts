@@ -4,7 +4,7 @@
  */
 
 import Database from "better-sqlite3";
-import { createHash, randomBytes } from "crypto";
+import { createHash, randomBytes, randomUUID } from "crypto";
 import { mkdirSync, existsSync } from "fs";
 import { join } from "path";
 import { homedir } from "os";
@@ -16,15 +16,44 @@ import type {
   SessionStatus,
   SessionWithAnnotations,
   Annotation,
+  AnnotationCount,
+  AnnotationSeverity,
   AnnotationStatus,
   ThreadMessage,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
   Organization,
   User,
   UserRole,
   ApiKey,
   UserContext,
+  SessionQuery,
+  AnnotationQuery,
+  Page,
+  SearchHit,
+  SearchOptions,
+  WriteOptions,
+  Attachment,
+  AttachmentInput,
+  BulkOperation,
+  BulkResult,
+  Project,
+  ReplicationState,
 } from "../types.js";
-import { eventBus } from "./events.js";
+import { eventBus, userEventBus } from "./events.js";
+import { UNASSIGNED, decodeCursor, encodeCursor, parseSortSpec } from "./query.js";
+import { runBulkOperations } from "./bulk.js";
+import { INITIAL_VERSION, assertVersion, isNewerRevision } from "./versioning.js";
+import { assertAnnotationLimits, assertContentLength, assertThreadRoom } from "./limits.js";
+import { matchProject, withProjectDefaults } from "./projects.js";
+import { diffAnnotation, eventAnnotationId } from "./history.js";
+import {
+  pruneAttachmentFiles,
+  readAttachmentFile,
+  removeAttachmentFile,
+  writeAttachmentFile,
+} from "./attachments.js";
 
 // -----------------------------------------------------------------------------
 // Database Setup
@@ -112,9 +141,21 @@ function initDatabase(db: Database.Database): void {
       resolved_at TEXT,
       resolved_by TEXT,
       author_id TEXT,
+      assignee_id TEXT,
+      version INTEGER NOT NULL DEFAULT 1,
       FOREIGN KEY (session_id) REFERENCES sessions(id)
     );
 
+    CREATE TABLE IF NOT EXISTS attachments (
+      id TEXT PRIMARY KEY,
+      annotation_id TEXT NOT NULL,
+      filename TEXT NOT NULL,
+      content_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (annotation_id) REFERENCES annotations(id)
+    );
+
     CREATE TABLE IF NOT EXISTS events (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       type TEXT NOT NULL,
@@ -122,10 +163,73 @@ function initDatabase(db: Database.Database): void {
       session_id TEXT NOT NULL,
       sequence INTEGER NOT NULL UNIQUE,
       payload TEXT NOT NULL,
+      origin TEXT,
       user_id TEXT,
       FOREIGN KEY (user_id) REFERENCES users(id)
     );
 
+    -- Single row: highest event sequence removed by retention pruning
+    CREATE TABLE IF NOT EXISTS event_retention (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      pruned_sequence INTEGER NOT NULL
+    );
+
+    -- Single row: hybrid mode replication cursors (see replication.ts)
+    CREATE TABLE IF NOT EXISTS replication_state (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      replica_id TEXT NOT NULL,
+      pushed_sequence INTEGER NOT NULL DEFAULT 0,
+      pulled_sequence INTEGER NOT NULL DEFAULT 0,
+      pending_session_deletes TEXT NOT NULL DEFAULT '[]',
+      last_push_at TEXT,
+      last_pull_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS projects (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      url_patterns TEXT NOT NULL,
+      allowed_origins TEXT,
+      default_severity TEXT,
+      routing TEXT,
+      repo_path TEXT,
+      user_id TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+      id TEXT PRIMARY KEY,
+      url TEXT NOT NULL,
+      events TEXT NOT NULL,
+      project_id TEXT,
+      domain TEXT,
+      severities TEXT,
+      secret TEXT,
+      active INTEGER NOT NULL DEFAULT 1,
+      user_id TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      subscription_id TEXT,
+      url TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_status_code INTEGER,
+      last_error TEXT,
+      next_attempt_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT,
+      delivered_at TEXT
+    );
+
     -- Indexes
     CREATE INDEX IF NOT EXISTS idx_users_org ON users(org_id);
     CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
@@ -133,9 +237,874 @@ function initDatabase(db: Database.Database): void {
     CREATE INDEX IF NOT EXISTS idx_api_keys_hash ON api_keys(key_hash);
     CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
     CREATE INDEX IF NOT EXISTS idx_annotations_session ON annotations(session_id);
+    CREATE INDEX IF NOT EXISTS idx_attachments_annotation ON attachments(annotation_id);
     CREATE INDEX IF NOT EXISTS idx_events_session_seq ON events(session_id, sequence);
     CREATE INDEX IF NOT EXISTS idx_events_user ON events(user_id);
+    CREATE INDEX IF NOT EXISTS idx_events_user_seq ON events(user_id, sequence);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status, created_at);
+    CREATE INDEX IF NOT EXISTS idx_sessions_created ON sessions(created_at);
+    CREATE INDEX IF NOT EXISTS idx_annotations_status_created ON annotations(status, created_at);
+
+    -- Full-text search over annotation text; kept in sync by the stores
+    CREATE VIRTUAL TABLE IF NOT EXISTS annotations_fts USING fts5(
+      annotation_id UNINDEXED,
+      comment,
+      selected_text,
+      nearby_text,
+      element,
+      react_components,
+      thread,
+      tokenize = 'porter unicode61'
+    );
+  `);
+
+  // Columns added after the first release (CREATE TABLE IF NOT EXISTS skips existing tables)
+  addColumnIfMissing(db, "annotations", "version", "INTEGER NOT NULL DEFAULT 1");
+  addColumnIfMissing(db, "annotations", "assignee_id", "TEXT");
+  addColumnIfMissing(db, "projects", "routing", "TEXT");
+  addColumnIfMissing(db, "events", "origin", "TEXT");
+  addColumnIfMissing(db, "events", "changes", "TEXT");
+  addColumnIfMissing(db, "events", "actor", "TEXT");
+  // Annotation ID of annotation.* (payload.id) and thread.message (payload.annotationId) events
+  if (addColumnIfMissing(db, "events", "annotation_id", "TEXT")) {
+    db.exec(`
+      UPDATE events SET annotation_id = COALESCE(json_extract(payload, '$.annotationId'), json_extract(payload, '$.id'))
+      WHERE type LIKE 'annotation.%' OR type = 'thread.message'
+    `);
+  }
+  // Replaces an index on the same expression over the payload
+  db.exec(`
+    DROP INDEX IF EXISTS idx_events_annotation;
+    CREATE INDEX IF NOT EXISTS idx_events_annotation_seq ON events(annotation_id, sequence);
   `);
+
+  // Exact host match for domain filters, same semantics as new URL(url).host
+  db.function("url_host", { deterministic: true }, (url: unknown) => {
+    try {
+      return new URL(String(url)).host;
+    } catch {
+      return null;
+    }
+  });
+}
+
+/**
+ * Add a column to an existing table. Returns true if it was added, so the
+ * caller can backfill it.
+ */
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (columns.some((c) => c.name === column)) return false;
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
+
+// -----------------------------------------------------------------------------
+// Full-Text Search
+// -----------------------------------------------------------------------------
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+/**
+ * Turn free text into an FTS5 query: every word as a quoted prefix term,
+ * OR'd together so bm25 ranks notes matching more words higher.
+ * Quoting keeps user input from being parsed as FTS5 syntax.
+ */
+function toFtsQuery(text: string): string | undefined {
+  const words = text.match(/[\p{L}\p{N}_]+/gu);
+  if (!words) return undefined;
+  return words.map((word) => `"${word}"*`).join(" OR ");
+}
+
+/**
+ * Maintain and query the annotations_fts index.
+ * `userId` on search restricts hits to that user's sessions.
+ */
+function createSearchIndex(db: Database.Database) {
+  const stmts = {
+    insert: db.prepare(`
+      INSERT INTO annotations_fts (annotation_id, comment, selected_text, nearby_text, element, react_components, thread)
+      VALUES (@annotationId, @comment, @selectedText, @nearbyText, @element, @reactComponents, @thread)
+    `),
+    remove: db.prepare("DELETE FROM annotations_fts WHERE annotation_id = ?"),
+    removeSession: db.prepare(
+      "DELETE FROM annotations_fts WHERE annotation_id IN (SELECT id FROM annotations WHERE session_id = ?)"
+    ),
+    search: db.prepare(`
+      SELECT a.*,
+        -bm25(annotations_fts, 0, 10, 4, 2, 2, 1, 4) AS score,
+        snippet(annotations_fts, -1, '<mark>', '</mark>', '…', 12) AS snippet
+      FROM annotations_fts
+      JOIN annotations a ON a.id = annotations_fts.annotation_id
+      LEFT JOIN sessions s ON s.id = a.session_id
+      WHERE annotations_fts MATCH @match
+        AND (@sessionId IS NULL OR a.session_id = @sessionId)
+        AND (@userId IS NULL OR s.user_id = @userId)
+      ORDER BY score DESC
+      LIMIT @limit
+    `),
+  };
+
+  function index(annotation: Annotation): void {
+    stmts.remove.run(annotation.id);
+    stmts.insert.run({
+      annotationId: annotation.id,
+      comment: annotation.comment,
+      selectedText: annotation.selectedText ?? null,
+      nearbyText: annotation.nearbyText ?? null,
+      element: annotation.element,
+      reactComponents: annotation.reactComponents ?? null,
+      thread: annotation.thread?.map((message) => message.content).join("\n") ?? null,
+    });
+  }
+
+  // Backfill databases created before the index existed
+  const { indexed } = db.prepare("SELECT COUNT(*) AS indexed FROM annotations_fts").get() as { indexed: number };
+  if (indexed === 0) {
+    const rows = db.prepare("SELECT * FROM annotations").all() as Record<string, unknown>[];
+    if (rows.length > 0) {
+      db.transaction(() => rows.forEach((row) => index(rowToAnnotation(row))))();
+    }
+  }
+
+  return {
+    index,
+
+    remove(annotationId: string): void {
+      stmts.remove.run(annotationId);
+    },
+
+    removeSession(sessionId: string): void {
+      stmts.removeSession.run(sessionId);
+    },
+
+    search(text: string, options: SearchOptions = {}, userId?: string): SearchHit[] {
+      const match = toFtsQuery(text);
+      if (!match) return [];
+
+      const limit = Math.min(options.limit ?? DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT);
+      const rows = stmts.search.all({
+        match,
+        sessionId: options.sessionId ?? null,
+        userId: userId ?? null,
+        limit,
+      }) as Record<string, unknown>[];
+
+      return rows.map((row) => ({
+        annotation: rowToAnnotation(row),
+        score: row.score as number,
+        snippet: row.snippet as string,
+      }));
+    },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Attachments
+// -----------------------------------------------------------------------------
+
+/**
+ * Attachment metadata rows plus their files on disk.
+ *
+ * Rows are deleted with their annotation or session. Files are unlinked
+ * right away unless a transaction is open (it may still roll back); those
+ * are swept on the next start when `prune` is set. Only prune when this
+ * database is the one the attachments directory belongs to.
+ */
+function createAttachmentStore(db: Database.Database, options: { prune: boolean }) {
+  const stmts = {
+    insert: db.prepare(`
+      INSERT INTO attachments (id, annotation_id, filename, content_type, size, created_at)
+      VALUES (@id, @annotationId, @filename, @contentType, @size, @createdAt)
+    `),
+    get: db.prepare("SELECT * FROM attachments WHERE id = ?"),
+    getForUser: db.prepare(`
+      SELECT t.* FROM attachments t
+      JOIN annotations a ON a.id = t.annotation_id
+      JOIN sessions s ON s.id = a.session_id
+      WHERE t.id = ? AND s.user_id = ?
+    `),
+    list: db.prepare("SELECT * FROM attachments WHERE annotation_id = ? ORDER BY created_at"),
+    listForSession: db.prepare(
+      "SELECT id FROM attachments WHERE annotation_id IN (SELECT id FROM annotations WHERE session_id = ?)"
+    ),
+    remove: db.prepare("DELETE FROM attachments WHERE id = ?"),
+    removeForAnnotation: db.prepare("DELETE FROM attachments WHERE annotation_id = ?"),
+    removeForSession: db.prepare(
+      "DELETE FROM attachments WHERE annotation_id IN (SELECT id FROM annotations WHERE session_id = ?)"
+    ),
+  };
+
+  if (options.prune) {
+    pruneAttachmentFiles((id) => stmts.get.get(id) !== undefined);
+  }
+
+  function rowToAttachment(row: Record<string, unknown>): Attachment {
+    return {
+      id: row.id as string,
+      annotationId: row.annotation_id as string,
+      filename: row.filename as string,
+      contentType: row.content_type as string,
+      size: row.size as number,
+      createdAt: row.created_at as string,
+    };
+  }
+
+  return {
+    add(annotationId: string, input: AttachmentInput): Attachment {
+      const attachment: Attachment = {
+        id: generateId(),
+        annotationId,
+        filename: input.filename,
+        contentType: input.contentType,
+        size: input.content.byteLength,
+        createdAt: new Date().toISOString(),
+      };
+      // File first, so a row never points at a missing file
+      writeAttachmentFile(attachment.id, input.content);
+      stmts.insert.run(attachment);
+      return attachment;
+    },
+
+    get(id: string, userId?: string): Attachment | undefined {
+      const row = (userId ? stmts.getForUser.get(id, userId) : stmts.get.get(id)) as
+        | Record<string, unknown>
+        | undefined;
+      return row ? rowToAttachment(row) : undefined;
+    },
+
+    content(id: string): Uint8Array | undefined {
+      return readAttachmentFile(id);
+    },
+
+    list(annotationId: string): Attachment[] {
+      return (stmts.list.all(annotationId) as Record<string, unknown>[]).map(rowToAttachment);
+    },
+
+    remove(id: string): void {
+      stmts.remove.run(id);
+      this.discardFiles([id]);
+    },
+
+    /** Delete an annotation's rows; returns their IDs for discardFiles. */
+    removeForAnnotation(annotationId: string): string[] {
+      const ids = this.list(annotationId).map((attachment) => attachment.id);
+      stmts.removeForAnnotation.run(annotationId);
+      return ids;
+    },
+
+    /** Delete a session's rows; returns their IDs for discardFiles. */
+    removeForSession(sessionId: string): string[] {
+      const ids = (stmts.listForSession.all(sessionId) as Array<{ id: string }>).map((row) => row.id);
+      stmts.removeForSession.run(sessionId);
+      return ids;
+    },
+
+    discardFiles(ids: string[]): void {
+      if (db.inTransaction) return;
+      for (const id of ids) removeAttachmentFile(id);
+    },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Event Log
+// -----------------------------------------------------------------------------
+
+/**
+ * Cross-session reads over the persisted event log, plus retention pruning.
+ *
+ * Pruning records the highest sequence it removed, so a reconnecting client
+ * whose Last-Event-ID falls before it can be told to resync instead of
+ * silently missing events. The mark also keeps sequences increasing after
+ * every event has been pruned.
+ */
+function createEventLog(db: Database.Database) {
+  const stmts = {
+    since: db.prepare("SELECT * FROM events WHERE sequence > ? ORDER BY sequence"),
+    sinceForUser: db.prepare("SELECT * FROM events WHERE user_id = ? AND sequence > ? ORDER BY sequence"),
+    forAnnotation: db.prepare(`
+      SELECT * FROM events
+      WHERE annotation_id = @annotationId AND (@userId IS NULL OR user_id = @userId)
+      ORDER BY sequence
+    `),
+    lastSequence: db.prepare("SELECT MAX(sequence) as seq FROM events"),
+    lastSequenceForUser: db.prepare("SELECT MAX(sequence) as seq FROM events WHERE user_id = ?"),
+    expiredSequence: db.prepare("SELECT MAX(sequence) as seq FROM events WHERE timestamp < ?"),
+    deleteExpired: db.prepare("DELETE FROM events WHERE timestamp < ?"),
+    getPruned: db.prepare("SELECT pruned_sequence FROM event_retention WHERE id = 1"),
+    setPruned: db.prepare(`
+      INSERT INTO event_retention (id, pruned_sequence) VALUES (1, @seq)
+      ON CONFLICT (id) DO UPDATE SET pruned_sequence = MAX(pruned_sequence, @seq)
+    `),
+  };
+
+  function prunedSequence(): number {
+    const row = stmts.getPruned.get() as { pruned_sequence: number } | undefined;
+    return row?.pruned_sequence ?? 0;
+  }
+
+  return {
+    since(sequence: number, userId?: string): AFSEvent[] {
+      const rows = userId ? stmts.sinceForUser.all(userId, sequence) : stmts.since.all(sequence);
+      return (rows as Record<string, unknown>[]).map(rowToEvent);
+    },
+
+    /** Events in one annotation's history, oldest first. */
+    forAnnotation(annotationId: string, userId?: string): AFSEvent[] {
+      const rows = stmts.forAnnotation.all({ annotationId, userId: userId ?? null });
+      return (rows as Record<string, unknown>[]).map(rowToEvent);
+    },
+
+    prunedSequence,
+
+    /**
+     * Highest sequence ever issued against this database, or of one user's
+     * events. Never below the pruned sequence, so it is always a valid
+     * cursor to replay from.
+     */
+    lastSequence(userId?: string): number {
+      const row = (userId ? stmts.lastSequenceForUser.get(userId) : stmts.lastSequence.get()) as { seq: number | null };
+      return Math.max(row.seq ?? 0, prunedSequence());
+    },
+
+    /** Delete events older than AGENTATION_EVENT_RETENTION_DAYS. */
+    pruneExpired(): void {
+      const retentionDays = parseInt(process.env.AGENTATION_EVENT_RETENTION_DAYS || "7", 10);
+      const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+      db.transaction(() => {
+        const expired = stmts.expiredSequence.get(cutoff) as { seq: number | null };
+        if (expired.seq === null) return;
+        stmts.setPruned.run({ seq: expired.seq });
+        stmts.deleteExpired.run(cutoff);
+      })();
+    },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Import
+// -----------------------------------------------------------------------------
+
+/**
+ * Insert an exported session and its annotations verbatim, keeping IDs and
+ * timestamps. Returns undefined without writing anything if the session ID
+ * or any annotation ID is already taken. Import is rare, so statements are
+ * prepared per call.
+ */
+function insertImportedSession(
+  db: Database.Database,
+  search: ReturnType<typeof createSearchIndex>,
+  data: SessionWithAnnotations,
+  userId?: string
+): Session | undefined {
+  data.annotations.forEach(assertAnnotationLimits);
+
+  const sessionExists = db.prepare("SELECT 1 FROM sessions WHERE id = ?");
+  const annotationExists = db.prepare("SELECT 1 FROM annotations WHERE id = ?");
+  if (sessionExists.get(data.id) || data.annotations.some((a) => annotationExists.get(a.id))) {
+    return undefined;
+  }
+
+  const insertSession = db.prepare(`
+    INSERT INTO sessions (id, url, status, created_at, updated_at, project_id, metadata, user_id)
+    VALUES (@id, @url, @status, @createdAt, @updatedAt, @projectId, @metadata, @userId)
+  `);
+  const insertAnnotation = db.prepare(`
+    INSERT INTO annotations (
+      id, session_id, x, y, comment, element, element_path, timestamp,
+      selected_text, bounding_box, nearby_text, css_classes, nearby_elements,
+      computed_styles, full_path, accessibility, is_multi_select, is_fixed,
+      react_components, url, intent, severity, status, thread, created_at,
+      updated_at, resolved_at, resolved_by, author_id, assignee_id, version
+    ) VALUES (
+      @id, @sessionId, @x, @y, @comment, @element, @elementPath, @timestamp,
+      @selectedText, @boundingBox, @nearbyText, @cssClasses, @nearbyElements,
+      @computedStyles, @fullPath, @accessibility, @isMultiSelect, @isFixed,
+      @reactComponents, @url, @intent, @severity, @status, @thread, @createdAt,
+      @updatedAt, @resolvedAt, @resolvedBy, @authorId, @assigneeId, @version
+    )
+  `);
+
+  const { annotations, ...session } = data;
+  db.transaction(() => {
+    insertSession.run({
+      id: session.id,
+      url: session.url,
+      status: session.status,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt ?? null,
+      projectId: session.projectId ?? null,
+      metadata: session.metadata ? JSON.stringify(session.metadata) : null,
+      userId: userId ?? null,
+    });
+    for (const annotation of annotations) {
+      insertAnnotation.run({
+        ...annotationToParams(annotation),
+        x: annotation.x ?? 0,
+        y: annotation.y ?? 0,
+        timestamp: annotation.timestamp ?? Date.now(),
+        updatedAt: annotation.updatedAt ?? null,
+        resolvedAt: annotation.resolvedAt ?? null,
+        resolvedBy: annotation.resolvedBy ?? null,
+      });
+      search.index(annotation);
+    }
+  })();
+
+  return session;
+}
+
+/**
+ * Result of merging a replicated session: what changed, so the caller can
+ * emit events.
+ */
+type MergeOutcome = {
+  session: Session;
+  sessionChange?: "created" | "updated";
+  annotations: Array<{ annotation: Annotation; previous?: Annotation }>; // No previous: created
+};
+
+/**
+ * Upsert a session and its annotations from another replica, keeping
+ * whichever copy of each is newer (see isNewerRevision). Rows are written
+ * as-is, timestamps and versions included. Returns undefined if the
+ * session belongs to a different user; annotation IDs taken by another
+ * session are skipped.
+ */
+function mergeReplicatedSession(
+  db: Database.Database,
+  search: ReturnType<typeof createSearchIndex>,
+  data: SessionWithAnnotations,
+  userId?: string
+): MergeOutcome | undefined {
+  data.annotations.forEach(assertAnnotationLimits);
+
+  const getSession = db.prepare("SELECT * FROM sessions WHERE id = ?");
+  const getAnnotation = db.prepare("SELECT * FROM annotations WHERE id = ?");
+  const upsertSession = db.prepare(`
+    INSERT INTO sessions (id, url, status, created_at, updated_at, project_id, metadata, user_id)
+    VALUES (@id, @url, @status, @createdAt, @updatedAt, @projectId, @metadata, @userId)
+    ON CONFLICT (id) DO UPDATE SET
+      url = excluded.url, status = excluded.status, created_at = excluded.created_at,
+      updated_at = excluded.updated_at, project_id = excluded.project_id, metadata = excluded.metadata
+  `);
+  const upsertAnnotation = db.prepare(`
+    INSERT INTO annotations (
+      id, session_id, x, y, comment, element, element_path, timestamp,
+      selected_text, bounding_box, nearby_text, css_classes, nearby_elements,
+      computed_styles, full_path, accessibility, is_multi_select, is_fixed,
+      react_components, url, intent, severity, status, thread, created_at,
+      updated_at, resolved_at, resolved_by, author_id, assignee_id, version
+    ) VALUES (
+      @id, @sessionId, @x, @y, @comment, @element, @elementPath, @timestamp,
+      @selectedText, @boundingBox, @nearbyText, @cssClasses, @nearbyElements,
+      @computedStyles, @fullPath, @accessibility, @isMultiSelect, @isFixed,
+      @reactComponents, @url, @intent, @severity, @status, @thread, @createdAt,
+      @updatedAt, @resolvedAt, @resolvedBy, @authorId, @assigneeId, @version
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      x = excluded.x, y = excluded.y, comment = excluded.comment, element = excluded.element,
+      element_path = excluded.element_path, timestamp = excluded.timestamp,
+      selected_text = excluded.selected_text, bounding_box = excluded.bounding_box,
+      nearby_text = excluded.nearby_text, css_classes = excluded.css_classes,
+      nearby_elements = excluded.nearby_elements, computed_styles = excluded.computed_styles,
+      full_path = excluded.full_path, accessibility = excluded.accessibility,
+      is_multi_select = excluded.is_multi_select, is_fixed = excluded.is_fixed,
+      react_components = excluded.react_components, url = excluded.url, intent = excluded.intent,
+      severity = excluded.severity, status = excluded.status, thread = excluded.thread,
+      created_at = excluded.created_at, updated_at = excluded.updated_at,
+      resolved_at = excluded.resolved_at, resolved_by = excluded.resolved_by,
+      author_id = excluded.author_id, assignee_id = excluded.assignee_id, version = excluded.version
+  `);
+
+  const { annotations, ...session } = data;
+  return db.transaction((): MergeOutcome | undefined => {
+    const existingRow = getSession.get(session.id) as Record<string, unknown> | undefined;
+    if (existingRow && (existingRow.user_id ?? undefined) !== userId) return undefined;
+
+    const outcome: MergeOutcome = { session: existingRow ? rowToSession(existingRow) : session, annotations: [] };
+    if (!existingRow || isNewerRevision(session, rowToSession(existingRow))) {
+      upsertSession.run({
+        id: session.id,
+        url: session.url,
+        status: session.status,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt ?? null,
+        projectId: session.projectId ?? null,
+        metadata: session.metadata ? JSON.stringify(session.metadata) : null,
+        userId: userId ?? null,
+      });
+      outcome.session = session;
+      outcome.sessionChange = existingRow ? "updated" : "created";
+    }
+
+    for (const incoming of annotations) {
+      const currentRow = getAnnotation.get(incoming.id) as Record<string, unknown> | undefined;
+      if (currentRow && currentRow.session_id !== session.id) continue;
+      const previous = currentRow ? rowToAnnotation(currentRow) : undefined;
+      if (previous && !isNewerRevision(incoming, previous)) continue;
+
+      const annotation = { ...incoming, sessionId: session.id, version: incoming.version ?? INITIAL_VERSION };
+      upsertAnnotation.run({
+        ...annotationToParams(annotation),
+        updatedAt: annotation.updatedAt ?? null,
+        resolvedAt: annotation.resolvedAt ?? null,
+        resolvedBy: annotation.resolvedBy ?? null,
+      });
+      search.index(annotation);
+      outcome.annotations.push({ annotation, previous });
+    }
+    return outcome;
+  })();
+}
+
+// -----------------------------------------------------------------------------
+// Projects
+// -----------------------------------------------------------------------------
+
+/**
+ * Projects are shared by the global and tenant stores: the global store
+ * manages them, and both consult them when creating sessions and
+ * annotations.
+ */
+function createProjectTable(db: Database.Database) {
+  const stmts = {
+    insert: db.prepare(`
+      INSERT INTO projects (
+        id, name, url_patterns, allowed_origins, default_severity, routing, repo_path, user_id, created_at, updated_at
+      ) VALUES (
+        @id, @name, @urlPatterns, @allowedOrigins, @defaultSeverity, @routing, @repoPath, @userId, @createdAt, @updatedAt
+      )
+    `),
+    get: db.prepare("SELECT * FROM projects WHERE id = ?"),
+    update: db.prepare(`
+      UPDATE projects SET
+        name = @name,
+        url_patterns = @urlPatterns,
+        allowed_origins = @allowedOrigins,
+        default_severity = @defaultSeverity,
+        routing = @routing,
+        repo_path = @repoPath,
+        updated_at = @updatedAt
+      WHERE id = @id
+    `),
+    list: db.prepare("SELECT * FROM projects ORDER BY created_at"),
+  };
+
+  function rowToProject(row: Record<string, unknown>): Project {
+    return {
+      id: row.id as string,
+      name: row.name as string,
+      urlPatterns: JSON.parse(row.url_patterns as string),
+      allowedOrigins: row.allowed_origins ? JSON.parse(row.allowed_origins as string) : undefined,
+      defaultSeverity: (row.default_severity as AnnotationSeverity | null) ?? undefined,
+      routing: row.routing ? JSON.parse(row.routing as string) : undefined,
+      repoPath: (row.repo_path as string | null) ?? undefined,
+      userId: (row.user_id as string | null) ?? undefined,
+      createdAt: row.created_at as string,
+      updatedAt: (row.updated_at as string | null) ?? undefined,
+    };
+  }
+
+  function toParams(project: Project): Record<string, unknown> {
+    return {
+      id: project.id,
+      name: project.name,
+      urlPatterns: JSON.stringify(project.urlPatterns),
+      allowedOrigins: project.allowedOrigins ? JSON.stringify(project.allowedOrigins) : null,
+      defaultSeverity: project.defaultSeverity ?? null,
+      routing: project.routing ? JSON.stringify(project.routing) : null,
+      repoPath: project.repoPath ?? null,
+      userId: project.userId ?? null,
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt ?? null,
+    };
+  }
+
+  function get(id: string): Project | undefined {
+    const row = stmts.get.get(id) as Record<string, unknown> | undefined;
+    return row ? rowToProject(row) : undefined;
+  }
+
+  function list(): Project[] {
+    return (stmts.list.all() as Record<string, unknown>[]).map(rowToProject);
+  }
+
+  return {
+    get,
+    list,
+
+    create(data: Omit<Project, "id" | "createdAt" | "updatedAt">): Project {
+      const project: Project = { ...data, id: generateId(), createdAt: new Date().toISOString() };
+      stmts.insert.run(toParams(project));
+      return project;
+    },
+
+    update(
+      id: string,
+      data: Partial<Omit<Project, "id" | "userId" | "createdAt" | "updatedAt">>
+    ): Project | undefined {
+      const existing = get(id);
+      if (!existing) return undefined;
+
+      const merged: Project = { ...existing, ...data, updatedAt: new Date().toISOString() };
+      stmts.update.run(toParams(merged));
+      return merged;
+    },
+
+    /**
+     * The project a new session on `url` joins, among `userId`'s projects
+     * (or unowned ones without a user).
+     */
+    matchForUrl(url: string, userId?: string): string | undefined {
+      return matchProject(url, list().filter((p) => p.userId === userId))?.id;
+    },
+
+    forSession(session: Session): Project | undefined {
+      return session.projectId ? get(session.projectId) : undefined;
+    },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Replication State
+// -----------------------------------------------------------------------------
+
+function createReplicationState(db: Database.Database) {
+  const stmts = {
+    get: db.prepare("SELECT * FROM replication_state WHERE id = 1"),
+    init: db.prepare("INSERT OR IGNORE INTO replication_state (id, replica_id) VALUES (1, ?)"),
+    update: db.prepare(`
+      UPDATE replication_state SET
+        pushed_sequence = @pushedSequence,
+        pulled_sequence = @pulledSequence,
+        pending_session_deletes = @pendingSessionDeletes,
+        last_push_at = @lastPushAt,
+        last_pull_at = @lastPullAt
+      WHERE id = 1
+    `),
+  };
+
+  function get(): ReplicationState {
+    stmts.init.run(randomUUID());
+    const row = stmts.get.get() as Record<string, unknown>;
+    return {
+      replicaId: row.replica_id as string,
+      pushedSequence: row.pushed_sequence as number,
+      pulledSequence: row.pulled_sequence as number,
+      pendingSessionDeletes: JSON.parse(row.pending_session_deletes as string),
+      lastPushAt: (row.last_push_at as string | null) ?? undefined,
+      lastPullAt: (row.last_pull_at as string | null) ?? undefined,
+    };
+  }
+
+  return {
+    get,
+
+    update(data: Partial<Omit<ReplicationState, "replicaId">>): ReplicationState {
+      const state = { ...get(), ...data };
+      stmts.update.run({
+        pushedSequence: state.pushedSequence,
+        pulledSequence: state.pulledSequence,
+        pendingSessionDeletes: JSON.stringify(state.pendingSessionDeletes),
+        lastPushAt: state.lastPushAt ?? null,
+        lastPullAt: state.lastPullAt ?? null,
+      });
+      return state;
+    },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Filtered Queries
+// -----------------------------------------------------------------------------
+
+const SESSION_SORT_COLUMNS: Record<string, string> = {
+  createdAt: "s.created_at",
+  updatedAt: "COALESCE(s.updated_at, s.created_at)",
+};
+
+const ANNOTATION_SORT_COLUMNS: Record<string, string> = {
+  createdAt: "a.created_at",
+  updatedAt: "COALESCE(a.updated_at, a.created_at)",
+  severity: "CASE a.severity WHEN 'blocking' THEN 0 WHEN 'important' THEN 1 WHEN 'suggestion' THEN 2 ELSE 3 END",
+};
+
+/**
+ * Build and run filtered, keyset-paginated queries.
+ * The SQL varies with the filters present, so statements are cached by text.
+ * `userId` restricts results to that user's sessions.
+ */
+function createQueryRunner(db: Database.Database) {
+  const statements = new Map<string, Database.Statement>();
+
+  function prepareCached(sql: string): Database.Statement {
+    let stmt = statements.get(sql);
+    if (!stmt) {
+      stmt = db.prepare(sql);
+      statements.set(sql, stmt);
+    }
+    return stmt;
+  }
+
+  function addSessionFilters(
+    clauses: string[],
+    params: Record<string, unknown>,
+    query: { projectId?: string; url?: string; domain?: string },
+    userId: string | undefined
+  ): void {
+    if (userId) {
+      clauses.push("s.user_id = @userId");
+      params.userId = userId;
+    }
+    if (query.projectId) {
+      clauses.push("s.project_id = @projectId");
+      params.projectId = query.projectId;
+    }
+    if (query.url) {
+      clauses.push("instr(s.url, @url) > 0");
+      params.url = query.url;
+    }
+    if (query.domain) {
+      clauses.push("url_host(s.url) = @domain");
+      params.domain = query.domain;
+    }
+  }
+
+  function addAssigneeFilter(clauses: string[], params: Record<string, unknown>, assignees: string[] | undefined): void {
+    if (!assignees?.length) return;
+    const named = assignees.filter((assignee) => assignee !== UNASSIGNED);
+    const conditions: string[] = [];
+    if (named.length < assignees.length) conditions.push("a.assignee_id IS NULL");
+    if (named.length > 0) {
+      const inList: string[] = [];
+      addInList(inList, params, "a.assignee_id", "assignee", named);
+      conditions.push(...inList);
+    }
+    clauses.push(`(${conditions.join(" OR ")})`);
+  }
+
+  function addInList(
+    clauses: string[],
+    params: Record<string, unknown>,
+    column: string,
+    name: string,
+    values: string[] | undefined
+  ): void {
+    if (!values?.length) return;
+    const placeholders = values.map((value, i) => {
+      params[`${name}${i}`] = value;
+      return `@${name}${i}`;
+    });
+    clauses.push(`${column} IN (${placeholders.join(", ")})`);
+  }
+
+  function addTimeRange(
+    clauses: string[],
+    params: Record<string, unknown>,
+    column: string,
+    query: { since?: string; until?: string }
+  ): void {
+    if (query.since) {
+      clauses.push(`${column} >= @since`);
+      params.since = query.since;
+    }
+    if (query.until) {
+      clauses.push(`${column} < @until`);
+      params.until = query.until;
+    }
+  }
+
+  function runPaged<T>(
+    from: string,
+    select: string,
+    idColumn: string,
+    clauses: string[],
+    params: Record<string, unknown>,
+    sortColumn: string,
+    descending: boolean,
+    cursor: string | undefined,
+    limit: number | undefined,
+    mapRow: (row: Record<string, unknown>) => T
+  ): Page<T> {
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    const { total } = prepareCached(`SELECT COUNT(*) AS total FROM ${from} ${where}`).get(params) as {
+      total: number;
+    };
+
+    const pageClauses = [...clauses];
+    const pageParams = { ...params };
+    if (cursor) {
+      const after = decodeCursor(cursor);
+      const op = descending ? "<" : ">";
+      pageClauses.push(
+        `(${sortColumn} ${op} @cursorValue OR (${sortColumn} = @cursorValue AND ${idColumn} ${op} @cursorId))`
+      );
+      pageParams.cursorValue = after.value;
+      pageParams.cursorId = after.id;
+    }
+
+    const direction = descending ? "DESC" : "ASC";
+    const pageWhere = pageClauses.length > 0 ? `WHERE ${pageClauses.join(" AND ")}` : "";
+    let sql = `SELECT ${select}, ${sortColumn} AS sort_value FROM ${from} ${pageWhere} ORDER BY sort_value ${direction}, ${idColumn} ${direction}`;
+    if (limit) {
+      // Fetch one extra row to learn whether another page follows
+      sql += " LIMIT @limit";
+      pageParams.limit = limit + 1;
+    }
+
+    const rows = prepareCached(sql).all(pageParams) as Record<string, unknown>[];
+    if (!limit || rows.length <= limit) {
+      return { items: rows.map(mapRow), total };
+    }
+
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+    return {
+      items: pageRows.map(mapRow),
+      total,
+      nextCursor: encodeCursor({ value: last.sort_value as string | number, id: last.id as string }),
+    };
+  }
+
+  return {
+    querySessions(query: SessionQuery, userId?: string): Page<Session> {
+      const clauses: string[] = [];
+      const params: Record<string, unknown> = {};
+      addSessionFilters(clauses, params, query, userId);
+      addInList(clauses, params, "s.status", "status", query.status);
+      addTimeRange(clauses, params, "s.created_at", query);
+
+      const { field, descending } = parseSortSpec(query.sort ?? "-createdAt");
+      return runPaged(
+        "sessions s", "s.*", "s.id", clauses, params,
+        SESSION_SORT_COLUMNS[field], descending, query.cursor, query.limit, rowToSession
+      );
+    },
+
+    queryPendingAnnotations(query: AnnotationQuery, userId?: string): Page<Annotation> {
+      const clauses: string[] = ["a.status = 'pending'"];
+      const params: Record<string, unknown> = {};
+      if (query.sessionId) {
+        clauses.push("a.session_id = @sessionId");
+        params.sessionId = query.sessionId;
+      }
+      addSessionFilters(clauses, params, query, userId);
+      addInList(clauses, params, "s.status", "sessionStatus", query.sessionStatus);
+      addInList(clauses, params, "a.intent", "intent", query.intent);
+      addInList(clauses, params, "a.severity", "severity", query.severity);
+      addAssigneeFilter(clauses, params, query.assignee);
+      addTimeRange(clauses, params, "a.created_at", query);
+
+      const { field, descending } = parseSortSpec(query.sort ?? "createdAt");
+      return runPaged(
+        "annotations a LEFT JOIN sessions s ON s.id = a.session_id", "a.*", "a.id", clauses, params,
+        ANNOTATION_SORT_COLUMNS[field], descending, query.cursor, query.limit, rowToAnnotation
+      );
+    },
+  };
 }
 
 // -----------------------------------------------------------------------------
@@ -223,6 +1192,153 @@ function rowToAnnotation(row: Record<string, unknown>): Annotation {
     resolvedAt: row.resolved_at as string | undefined,
     resolvedBy: row.resolved_by as Annotation["resolvedBy"],
     authorId: row.author_id as string | undefined,
+    assigneeId: (row.assignee_id as string | null) ?? undefined,
+    version: (row.version as number | null) ?? INITIAL_VERSION,
+  };
+}
+
+function annotationToParams(annotation: Annotation): Record<string, unknown> {
+  return {
+    id: annotation.id,
+    sessionId: annotation.sessionId,
+    x: annotation.x,
+    y: annotation.y,
+    comment: annotation.comment,
+    element: annotation.element,
+    elementPath: annotation.elementPath,
+    timestamp: annotation.timestamp,
+    selectedText: annotation.selectedText ?? null,
+    boundingBox: annotation.boundingBox ? JSON.stringify(annotation.boundingBox) : null,
+    nearbyText: annotation.nearbyText ?? null,
+    cssClasses: annotation.cssClasses ?? null,
+    nearbyElements: annotation.nearbyElements ?? null,
+    computedStyles: annotation.computedStyles ?? null,
+    fullPath: annotation.fullPath ?? null,
+    accessibility: annotation.accessibility ?? null,
+    isMultiSelect: annotation.isMultiSelect ? 1 : 0,
+    isFixed: annotation.isFixed ? 1 : 0,
+    reactComponents: annotation.reactComponents ?? null,
+    url: annotation.url ?? null,
+    intent: annotation.intent ?? null,
+    severity: annotation.severity ?? null,
+    status: annotation.status ?? "pending",
+    thread: annotation.thread ? JSON.stringify(annotation.thread) : null,
+    createdAt: annotation.createdAt ?? new Date().toISOString(),
+    updatedAt: null,
+    resolvedAt: null,
+    resolvedBy: null,
+    authorId: annotation.authorId ?? null,
+    assigneeId: annotation.assigneeId ?? null,
+    version: annotation.version ?? INITIAL_VERSION,
+  };
+}
+
+function annotationUpdateToParams(
+  id: string,
+  data: Partial<Omit<Annotation, "id" | "sessionId" | "createdAt" | "version">>
+): Record<string, unknown> {
+  return {
+    id,
+    comment: data.comment ?? null,
+    status: data.status ?? null,
+    updatedAt: new Date().toISOString(),
+    resolvedAt: data.resolvedAt ?? null,
+    resolvedBy: data.resolvedBy ?? null,
+    thread: data.thread ? JSON.stringify(data.thread) : null,
+    intent: data.intent ?? null,
+    severity: data.severity ?? null,
+    // Present with an undefined value to unassign
+    assigneeChanged: "assigneeId" in data ? 1 : 0,
+    assigneeId: data.assigneeId ?? null,
+  };
+}
+
+function rowToWebhookSubscription(row: Record<string, unknown>): WebhookSubscription {
+  return {
+    id: row.id as string,
+    url: row.url as string,
+    events: JSON.parse(row.events as string),
+    projectId: (row.project_id as string | null) ?? undefined,
+    domain: (row.domain as string | null) ?? undefined,
+    severities: row.severities ? JSON.parse(row.severities as string) : undefined,
+    secret: (row.secret as string | null) ?? undefined,
+    active: Boolean(row.active),
+    userId: (row.user_id as string | null) ?? undefined,
+    createdAt: row.created_at as string,
+    updatedAt: (row.updated_at as string | null) ?? undefined,
+  };
+}
+
+function webhookSubscriptionToParams(subscription: WebhookSubscription): Record<string, unknown> {
+  return {
+    id: subscription.id,
+    url: subscription.url,
+    events: JSON.stringify(subscription.events),
+    projectId: subscription.projectId ?? null,
+    domain: subscription.domain ?? null,
+    severities: subscription.severities ? JSON.stringify(subscription.severities) : null,
+    secret: subscription.secret ?? null,
+    active: subscription.active ? 1 : 0,
+    userId: subscription.userId ?? null,
+    createdAt: subscription.createdAt,
+    updatedAt: subscription.updatedAt ?? null,
+  };
+}
+
+function rowToWebhookDelivery(row: Record<string, unknown>): WebhookDelivery {
+  return {
+    id: row.id as string,
+    subscriptionId: (row.subscription_id as string | null) ?? undefined,
+    url: row.url as string,
+    eventType: row.event_type as AFSEventType,
+    sessionId: row.session_id as string,
+    payload: row.payload as string,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts as number,
+    lastStatusCode: (row.last_status_code as number | null) ?? undefined,
+    lastError: (row.last_error as string | null) ?? undefined,
+    nextAttemptAt: (row.next_attempt_at as string | null) ?? undefined,
+    createdAt: row.created_at as string,
+    updatedAt: (row.updated_at as string | null) ?? undefined,
+    deliveredAt: (row.delivered_at as string | null) ?? undefined,
+  };
+}
+
+function rowToAnnotationCount(row: Record<string, unknown>): AnnotationCount {
+  return {
+    status: row.status as AnnotationStatus,
+    severity: (row.severity as AnnotationSeverity | null) ?? undefined,
+    count: row.count as number,
+  };
+}
+
+function rowToEvent(row: Record<string, unknown>): AFSEvent {
+  return {
+    type: row.type as AFSEventType,
+    timestamp: row.timestamp as string,
+    sessionId: row.session_id as string,
+    sequence: row.sequence as number,
+    payload: JSON.parse(row.payload as string),
+    ...(row.origin ? { origin: row.origin as string } : {}),
+    ...(row.changes ? { changes: JSON.parse(row.changes as string) } : {}),
+    ...(row.actor ? { actor: JSON.parse(row.actor as string) } : {}),
+  };
+}
+
+/**
+ * Event columns shared by the global and tenant inserts.
+ */
+function eventToParams(event: AFSEvent): Record<string, unknown> {
+  return {
+    type: event.type,
+    timestamp: event.timestamp,
+    sessionId: event.sessionId,
+    sequence: event.sequence,
+    payload: JSON.stringify(event.payload),
+    origin: event.origin ?? null,
+    changes: event.changes ? JSON.stringify(event.changes) : null,
+    actor: event.actor ? JSON.stringify(event.actor) : null,
+    annotationId: eventAnnotationId(event) ?? null,
   };
 }
 
@@ -235,12 +1351,20 @@ export function createSQLiteStore(dbPath?: string): AFSStore {
   db.pragma("journal_mode = WAL");
   initDatabase(db);
 
-  // Restore event sequence from last event
-  const lastEvent = db.prepare("SELECT MAX(sequence) as seq FROM events").get() as { seq: number | null };
-  if (lastEvent?.seq) {
-    eventBus.setSequence(lastEvent.seq);
+  const eventLog = createEventLog(db);
+  const replication = createReplicationState(db);
+  const projects = createProjectTable(db);
+
+  // Restore event sequence from last event (or last pruned one)
+  const lastSequence = eventLog.lastSequence();
+  if (lastSequence) {
+    eventBus.setSequence(lastSequence);
   }
 
+  const queries = createQueryRunner(db);
+  const search = createSearchIndex(db);
+  const attachments = createAttachmentStore(db, { prune: dbPath === undefined });
+
   // Prepared statements
   const stmts = {
     // Sessions
@@ -249,9 +1373,12 @@ export function createSQLiteStore(dbPath?: string): AFSStore {
       VALUES (@id, @url, @status, @createdAt, @projectId, @metadata)
     `),
     getSession: db.prepare("SELECT * FROM sessions WHERE id = ?"),
-    updateSessionStatus: db.prepare(`
-      UPDATE sessions SET status = @status, updated_at = @updatedAt WHERE id = @id
+    updateSession: db.prepare(`
+      UPDATE sessions SET status = @status, metadata = @metadata, updated_at = @updatedAt WHERE id = @id
     `),
+    deleteSession: db.prepare("DELETE FROM sessions WHERE id = ?"),
+    deleteSessionAnnotations: db.prepare("DELETE FROM annotations WHERE session_id = ?"),
+    deleteSessionEvents: db.prepare("DELETE FROM events WHERE session_id = ?"),
     listSessions: db.prepare("SELECT * FROM sessions ORDER BY created_at DESC"),
 
     // Annotations
@@ -261,17 +1388,21 @@ export function createSQLiteStore(dbPath?: string): AFSStore {
         selected_text, bounding_box, nearby_text, css_classes, nearby_elements,
         computed_styles, full_path, accessibility, is_multi_select, is_fixed,
         react_components, url, intent, severity, status, thread, created_at,
-        updated_at, resolved_at, resolved_by, author_id
+        updated_at, resolved_at, resolved_by, author_id, assignee_id, version
       ) VALUES (
         @id, @sessionId, @x, @y, @comment, @element, @elementPath, @timestamp,
         @selectedText, @boundingBox, @nearbyText, @cssClasses, @nearbyElements,
         @computedStyles, @fullPath, @accessibility, @isMultiSelect, @isFixed,
         @reactComponents, @url, @intent, @severity, @status, @thread, @createdAt,
-        @updatedAt, @resolvedAt, @resolvedBy, @authorId
+        @updatedAt, @resolvedAt, @resolvedBy, @authorId, @assigneeId, @version
       )
     `),
     getAnnotation: db.prepare("SELECT * FROM annotations WHERE id = ?"),
     getAnnotationsBySession: db.prepare("SELECT * FROM annotations WHERE session_id = ? ORDER BY timestamp"),
+    countAnnotations: db.prepare(`
+      SELECT COALESCE(status, 'pending') as status, severity, COUNT(*) as count
+      FROM annotations GROUP BY 1, 2
+    `),
     getPendingAnnotations: db.prepare("SELECT * FROM annotations WHERE session_id = ? AND status = 'pending' ORDER BY timestamp"),
     deleteAnnotation: db.prepare("DELETE FROM annotations WHERE id = ?"),
     updateAnnotation: db.prepare(`
@@ -283,36 +1414,75 @@ export function createSQLiteStore(dbPath?: string): AFSStore {
         resolved_by = COALESCE(@resolvedBy, resolved_by),
         thread = COALESCE(@thread, thread),
         intent = COALESCE(@intent, intent),
-        severity = COALESCE(@severity, severity)
+        severity = COALESCE(@severity, severity),
+        assignee_id = CASE WHEN @assigneeChanged THEN @assigneeId ELSE assignee_id END,
+        version = version + 1
       WHERE id = @id
     `),
 
     // Events
     insertEvent: db.prepare(`
-      INSERT INTO events (type, timestamp, session_id, sequence, payload)
-      VALUES (@type, @timestamp, @sessionId, @sequence, @payload)
+      INSERT INTO events (type, timestamp, session_id, sequence, payload, origin, changes, actor, annotation_id)
+      VALUES (@type, @timestamp, @sessionId, @sequence, @payload, @origin, @changes, @actor, @annotationId)
     `),
     getEventsSince: db.prepare(`
       SELECT * FROM events WHERE session_id = ? AND sequence > ? ORDER BY sequence
     `),
-    pruneOldEvents: db.prepare(`
-      DELETE FROM events WHERE timestamp < ?
+
+    // Webhook deliveries
+    insertWebhookDelivery: db.prepare(`
+      INSERT INTO webhook_deliveries (id, subscription_id, url, event_type, session_id, payload, status, attempts, created_at)
+      VALUES (@id, @subscriptionId, @url, @eventType, @sessionId, @payload, @status, @attempts, @createdAt)
+    `),
+    getWebhookDelivery: db.prepare("SELECT * FROM webhook_deliveries WHERE id = ?"),
+    updateWebhookDelivery: db.prepare(`
+      UPDATE webhook_deliveries SET
+        status = @status,
+        attempts = @attempts,
+        last_status_code = @lastStatusCode,
+        last_error = @lastError,
+        next_attempt_at = @nextAttemptAt,
+        updated_at = @updatedAt,
+        delivered_at = @deliveredAt
+      WHERE id = @id
+    `),
+    listWebhookDeliveries: db.prepare(`
+      SELECT * FROM webhook_deliveries
+      WHERE (@status IS NULL OR status = @status)
+      ORDER BY created_at DESC
+      LIMIT @limit
     `),
+
+    // Webhook subscriptions
+    insertWebhookSubscription: db.prepare(`
+      INSERT INTO webhook_subscriptions (
+        id, url, events, project_id, domain, severities, secret, active, user_id, created_at, updated_at
+      ) VALUES (
+        @id, @url, @events, @projectId, @domain, @severities, @secret, @active, @userId, @createdAt, @updatedAt
+      )
+    `),
+    getWebhookSubscription: db.prepare("SELECT * FROM webhook_subscriptions WHERE id = ?"),
+    updateWebhookSubscription: db.prepare(`
+      UPDATE webhook_subscriptions SET
+        url = @url,
+        events = @events,
+        project_id = @projectId,
+        domain = @domain,
+        severities = @severities,
+        secret = @secret,
+        active = @active,
+        updated_at = @updatedAt
+      WHERE id = @id
+    `),
+    deleteWebhookSubscription: db.prepare("DELETE FROM webhook_subscriptions WHERE id = ?"),
+    listWebhookSubscriptions: db.prepare("SELECT * FROM webhook_subscriptions ORDER BY created_at"),
   };
 
   // Prune events older than retention period on startup
-  const retentionDays = parseInt(process.env.AGENTATION_EVENT_RETENTION_DAYS || "7", 10);
-  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
-  stmts.pruneOldEvents.run(cutoff);
+  eventLog.pruneExpired();
 
   function persistEvent(event: AFSEvent): void {
-    stmts.insertEvent.run({
-      type: event.type,
-      timestamp: event.timestamp,
-      sessionId: event.sessionId,
-      sequence: event.sequence,
-      payload: JSON.stringify(event.payload),
-    });
+    stmts.insertEvent.run(eventToParams(event));
   }
 
   return {
@@ -323,7 +1493,7 @@ export function createSQLiteStore(dbPath?: string): AFSStore {
         url,
         status: "active",
         createdAt: new Date().toISOString(),
-        projectId,
+        projectId: projectId ?? projects.matchForUrl(url),
       };
 
       stmts.insertSession.run({
@@ -359,183 +1529,417 @@ export function createSQLiteStore(dbPath?: string): AFSStore {
     },
 
     updateSessionStatus(id: string, status: SessionStatus): Session | undefined {
-      const updatedAt = new Date().toISOString();
-      const result = stmts.updateSessionStatus.run({ id, status, updatedAt });
-      if (result.changes === 0) return undefined;
+      return this.updateSession(id, { status });
+    },
+
+    updateSession(
+      id: string,
+      data: Partial<Pick<Session, "status" | "metadata">>
+    ): Session | undefined {
+      const existing = this.getSession(id);
+      if (!existing) return undefined;
+
+      const session: Session = {
+        ...existing,
+        status: data.status ?? existing.status,
+        metadata: data.metadata !== undefined ? data.metadata ?? undefined : existing.metadata,
+        updatedAt: new Date().toISOString(),
+      };
+      stmts.updateSession.run({
+        id,
+        status: session.status,
+        metadata: session.metadata ? JSON.stringify(session.metadata) : null,
+        updatedAt: session.updatedAt,
+      });
+
+      const eventType: AFSEventType =
+        session.status === "closed" && existing.status !== "closed" ? "session.closed" : "session.updated";
+      const event = eventBus.emit(eventType, id, session);
+      persistEvent(event);
+
+      return session;
+    },
+
+    deleteSession(id: string): Session | undefined {
+      const existing = this.getSession(id);
+      if (!existing) return undefined;
+
+      const attachmentIds = db.transaction(() => {
+        search.removeSession(id);
+        const removed = attachments.removeForSession(id);
+        stmts.deleteSessionAnnotations.run(id);
+        stmts.deleteSessionEvents.run(id);
+        stmts.deleteSession.run(id);
+        return removed;
+      })();
+      attachments.discardFiles(attachmentIds);
+
+      // Notify live subscribers; not persisted since the session's history is gone
+      eventBus.emit("session.closed", id, { ...existing, status: "closed" });
+
+      return existing;
+    },
+
+    listSessions(): Session[] {
+      const rows = stmts.listSessions.all() as Record<string, unknown>[];
+      return rows.map(rowToSession);
+    },
+
+    querySessions(query: SessionQuery): Page<Session> {
+      return queries.querySessions(query);
+    },
+
+    // Annotations
+    addAnnotation(
+      sessionId: string,
+      data: Omit<Annotation, "id" | "sessionId" | "status" | "createdAt">
+    ): Annotation | undefined {
+      const session = this.getSession(sessionId);
+      if (!session) return undefined;
+      assertContentLength(data.comment);
+
+      const annotation: Annotation = {
+        ...withProjectDefaults(data, projects.forSession(session)),
+        id: generateId(),
+        sessionId,
+        status: "pending",
+        createdAt: new Date().toISOString(),
+        version: INITIAL_VERSION,
+      };
 
-      const session = this.getSession(id);
+      stmts.insertAnnotation.run(annotationToParams(annotation));
+      search.index(annotation);
+
+      const event = eventBus.emit("annotation.created", sessionId, annotation);
+      persistEvent(event);
+
+      return annotation;
+    },
+
+    getAnnotation(id: string): Annotation | undefined {
+      const row = stmts.getAnnotation.get(id) as Record<string, unknown> | undefined;
+      return row ? rowToAnnotation(row) : undefined;
+    },
+
+    updateAnnotation(
+      id: string,
+      data: Partial<Omit<Annotation, "id" | "sessionId" | "createdAt" | "version">>,
+      options?: WriteOptions
+    ): Annotation | undefined {
+      const existing = this.getAnnotation(id);
+      if (!existing) return undefined;
+      assertVersion(existing, options?.ifVersion);
+      assertContentLength(data.comment);
+
+      stmts.updateAnnotation.run(annotationUpdateToParams(id, data));
+
+      const updated = this.getAnnotation(id);
+      if (updated) search.index(updated);
+      if (updated && existing.sessionId) {
+        const event = eventBus.emit("annotation.updated", existing.sessionId, updated, diffAnnotation(existing, updated));
+        persistEvent(event);
+      }
+      return updated;
+    },
+
+    updateAnnotationStatus(
+      id: string,
+      status: AnnotationStatus,
+      resolvedBy?: "human" | "agent",
+      options?: WriteOptions
+    ): Annotation | undefined {
+      const isResolved = status === "resolved" || status === "dismissed";
+      return this.updateAnnotation(
+        id,
+        {
+          status,
+          resolvedAt: isResolved ? new Date().toISOString() : undefined,
+          resolvedBy: isResolved ? (resolvedBy || "agent") : undefined,
+        },
+        options
+      );
+    },
+
+    addThreadMessage(
+      annotationId: string,
+      role: "human" | "agent",
+      content: string,
+      options?: WriteOptions
+    ): Annotation | undefined {
+      const existing = this.getAnnotation(annotationId);
+      if (!existing) return undefined;
+      assertVersion(existing, options?.ifVersion);
+      assertThreadRoom(existing);
+      assertContentLength(content, "content");
+
+      const message: ThreadMessage = {
+        id: generateId(),
+        role,
+        content,
+        timestamp: Date.now(),
+      };
+
+      const thread = [...(existing.thread || []), message];
+      const updated = this.updateAnnotation(annotationId, { thread });
+
+      if (updated && existing.sessionId) {
+        const event = eventBus.emit("thread.message", existing.sessionId, { ...message, annotationId });
+        persistEvent(event);
+      }
+
+      return updated;
+    },
+
+    getPendingAnnotations(sessionId: string): Annotation[] {
+      const rows = stmts.getPendingAnnotations.all(sessionId) as Record<string, unknown>[];
+      return rows.map(rowToAnnotation);
+    },
+
+    queryPendingAnnotations(query: AnnotationQuery): Page<Annotation> {
+      return queries.queryPendingAnnotations(query);
+    },
+
+    searchAnnotations(query: string, options?: SearchOptions): SearchHit[] {
+      return search.search(query, options);
+    },
+
+    importSession(data: SessionWithAnnotations): Session | undefined {
+      const session = insertImportedSession(db, search, data);
       if (session) {
-        const eventType: AFSEventType = status === "closed" ? "session.closed" : "session.updated";
-        const event = eventBus.emit(eventType, id, session);
+        const event = eventBus.emit("session.created", session.id, session);
         persistEvent(event);
       }
       return session;
     },
 
-    listSessions(): Session[] {
-      const rows = stmts.listSessions.all() as Record<string, unknown>[];
-      return rows.map(rowToSession);
+    mergeSession(data: SessionWithAnnotations): Session | undefined {
+      const outcome = mergeReplicatedSession(db, search, data);
+      if (!outcome) return undefined;
+
+      const { session, sessionChange, annotations } = outcome;
+      if (sessionChange) {
+        persistEvent(eventBus.emit(`session.${sessionChange}`, session.id, session));
+      }
+      for (const { annotation, previous } of annotations) {
+        persistEvent(
+          previous
+            ? eventBus.emit("annotation.updated", session.id, annotation, diffAnnotation(previous, annotation))
+            : eventBus.emit("annotation.created", session.id, annotation)
+        );
+      }
+      return session;
+    },
+
+    bulkUpdateAnnotations(operations: BulkOperation[], options?: { atomic?: boolean }): BulkResult {
+      // Nested db.transaction calls become savepoints
+      return runBulkOperations(this, operations, options?.atomic ?? false, (fn) => db.transaction(fn)());
+    },
+
+    getSessionAnnotations(sessionId: string): Annotation[] {
+      const rows = stmts.getAnnotationsBySession.all(sessionId) as Record<string, unknown>[];
+      return rows.map(rowToAnnotation);
+    },
+
+    countAnnotations(): AnnotationCount[] {
+      return (stmts.countAnnotations.all() as Record<string, unknown>[]).map(rowToAnnotationCount);
+    },
+
+    deleteAnnotation(id: string): Annotation | undefined {
+      const existing = this.getAnnotation(id);
+      if (!existing) return undefined;
+
+      attachments.discardFiles(attachments.removeForAnnotation(id));
+      stmts.deleteAnnotation.run(id);
+      search.remove(id);
+
+      if (existing.sessionId) {
+        const event = eventBus.emit("annotation.deleted", existing.sessionId, existing);
+        persistEvent(event);
+      }
+
+      return existing;
+    },
+
+    // Attachments
+    addAttachment(annotationId: string, input: AttachmentInput): Attachment | undefined {
+      if (!this.getAnnotation(annotationId)) return undefined;
+      return attachments.add(annotationId, input);
+    },
+
+    getAttachment(id: string): Attachment | undefined {
+      return attachments.get(id);
+    },
+
+    getAttachmentContent(id: string): Uint8Array | undefined {
+      return attachments.get(id) ? attachments.content(id) : undefined;
+    },
+
+    listAttachments(annotationId: string): Attachment[] {
+      return attachments.list(annotationId);
+    },
+
+    deleteAttachment(id: string): Attachment | undefined {
+      const existing = attachments.get(id);
+      if (existing) attachments.remove(id);
+      return existing;
+    },
+
+    // Events
+    getEventsSince(sessionId: string, sequence: number): AFSEvent[] {
+      const rows = stmts.getEventsSince.all(sessionId, sequence) as Record<string, unknown>[];
+      return rows.map(rowToEvent);
+    },
+
+    getEventsSinceGlobal(sequence: number): AFSEvent[] {
+      return eventLog.since(sequence);
+    },
+
+    getAnnotationEvents(annotationId: string): AFSEvent[] {
+      return eventLog.forAnnotation(annotationId);
+    },
+
+    getPrunedSequence(): number {
+      return eventLog.prunedSequence();
     },
 
-    // Annotations
-    addAnnotation(
-      sessionId: string,
-      data: Omit<Annotation, "id" | "sessionId" | "status" | "createdAt">
-    ): Annotation | undefined {
-      const session = this.getSession(sessionId);
-      if (!session) return undefined;
+    getLastSequence(): number {
+      return eventLog.lastSequence();
+    },
 
-      const annotation: Annotation = {
+    // Webhook deliveries
+    createWebhookDelivery(
+      data: Pick<WebhookDelivery, "subscriptionId" | "url" | "eventType" | "sessionId" | "payload">
+    ): WebhookDelivery {
+      const delivery: WebhookDelivery = {
         ...data,
         id: generateId(),
-        sessionId,
         status: "pending",
+        attempts: 0,
         createdAt: new Date().toISOString(),
       };
 
-      stmts.insertAnnotation.run({
-        id: annotation.id,
-        sessionId: annotation.sessionId,
-        x: annotation.x,
-        y: annotation.y,
-        comment: annotation.comment,
-        element: annotation.element,
-        elementPath: annotation.elementPath,
-        timestamp: annotation.timestamp,
-        selectedText: annotation.selectedText ?? null,
-        boundingBox: annotation.boundingBox ? JSON.stringify(annotation.boundingBox) : null,
-        nearbyText: annotation.nearbyText ?? null,
-        cssClasses: annotation.cssClasses ?? null,
-        nearbyElements: annotation.nearbyElements ?? null,
-        computedStyles: annotation.computedStyles ?? null,
-        fullPath: annotation.fullPath ?? null,
-        accessibility: annotation.accessibility ?? null,
-        isMultiSelect: annotation.isMultiSelect ? 1 : 0,
-        isFixed: annotation.isFixed ? 1 : 0,
-        reactComponents: annotation.reactComponents ?? null,
-        url: annotation.url ?? null,
-        intent: annotation.intent ?? null,
-        severity: annotation.severity ?? null,
-        status: annotation.status ?? "pending",
-        thread: annotation.thread ? JSON.stringify(annotation.thread) : null,
-        createdAt: annotation.createdAt ?? new Date().toISOString(),
-        updatedAt: null,
-        resolvedAt: null,
-        resolvedBy: null,
-        authorId: annotation.authorId ?? null,
+      stmts.insertWebhookDelivery.run({
+        id: delivery.id,
+        subscriptionId: delivery.subscriptionId ?? null,
+        url: delivery.url,
+        eventType: delivery.eventType,
+        sessionId: delivery.sessionId,
+        payload: delivery.payload,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        createdAt: delivery.createdAt,
       });
 
-      const event = eventBus.emit("annotation.created", sessionId, annotation);
-      persistEvent(event);
-
-      return annotation;
+      return delivery;
     },
 
-    getAnnotation(id: string): Annotation | undefined {
-      const row = stmts.getAnnotation.get(id) as Record<string, unknown> | undefined;
-      return row ? rowToAnnotation(row) : undefined;
+    getWebhookDelivery(id: string): WebhookDelivery | undefined {
+      const row = stmts.getWebhookDelivery.get(id) as Record<string, unknown> | undefined;
+      return row ? rowToWebhookDelivery(row) : undefined;
     },
 
-    updateAnnotation(
+    updateWebhookDelivery(
       id: string,
-      data: Partial<Omit<Annotation, "id" | "sessionId" | "createdAt">>
-    ): Annotation | undefined {
-      const existing = this.getAnnotation(id);
+      data: Partial<
+        Omit<WebhookDelivery, "id" | "subscriptionId" | "url" | "eventType" | "sessionId" | "payload" | "createdAt">
+      >
+    ): WebhookDelivery | undefined {
+      const existing = this.getWebhookDelivery(id);
       if (!existing) return undefined;
 
-      stmts.updateAnnotation.run({
+      const merged: WebhookDelivery = { ...existing, ...data, updatedAt: new Date().toISOString() };
+      stmts.updateWebhookDelivery.run({
         id,
-        comment: data.comment ?? null,
-        status: data.status ?? null,
-        updatedAt: new Date().toISOString(),
-        resolvedAt: data.resolvedAt ?? null,
-        resolvedBy: data.resolvedBy ?? null,
-        thread: data.thread ? JSON.stringify(data.thread) : null,
-        intent: data.intent ?? null,
-        severity: data.severity ?? null,
+        status: merged.status,
+        attempts: merged.attempts,
+        lastStatusCode: merged.lastStatusCode ?? null,
+        lastError: merged.lastError ?? null,
+        nextAttemptAt: merged.nextAttemptAt ?? null,
+        updatedAt: merged.updatedAt,
+        deliveredAt: merged.deliveredAt ?? null,
       });
 
-      const updated = this.getAnnotation(id);
-      if (updated && existing.sessionId) {
-        const event = eventBus.emit("annotation.updated", existing.sessionId, updated);
-        persistEvent(event);
-      }
-      return updated;
+      return merged;
     },
 
-    updateAnnotationStatus(
-      id: string,
-      status: AnnotationStatus,
-      resolvedBy?: "human" | "agent"
-    ): Annotation | undefined {
-      const isResolved = status === "resolved" || status === "dismissed";
-      return this.updateAnnotation(id, {
-        status,
-        resolvedAt: isResolved ? new Date().toISOString() : undefined,
-        resolvedBy: isResolved ? (resolvedBy || "agent") : undefined,
-      });
+    listWebhookDeliveries(filter?: { status?: WebhookDeliveryStatus; limit?: number }): WebhookDelivery[] {
+      const rows = stmts.listWebhookDeliveries.all({
+        status: filter?.status ?? null,
+        limit: filter?.limit ?? -1,
+      }) as Record<string, unknown>[];
+      return rows.map(rowToWebhookDelivery);
     },
 
-    addThreadMessage(
-      annotationId: string,
-      role: "human" | "agent",
-      content: string
-    ): Annotation | undefined {
-      const existing = this.getAnnotation(annotationId);
-      if (!existing) return undefined;
-
-      const message: ThreadMessage = {
+    // Webhook subscriptions
+    createWebhookSubscription(
+      data: Omit<WebhookSubscription, "id" | "createdAt" | "updatedAt">
+    ): WebhookSubscription {
+      const subscription: WebhookSubscription = {
+        ...data,
         id: generateId(),
-        role,
-        content,
-        timestamp: Date.now(),
+        createdAt: new Date().toISOString(),
       };
+      stmts.insertWebhookSubscription.run(webhookSubscriptionToParams(subscription));
+      return subscription;
+    },
 
-      const thread = [...(existing.thread || []), message];
-      const updated = this.updateAnnotation(annotationId, { thread });
+    getWebhookSubscription(id: string): WebhookSubscription | undefined {
+      const row = stmts.getWebhookSubscription.get(id) as Record<string, unknown> | undefined;
+      return row ? rowToWebhookSubscription(row) : undefined;
+    },
 
-      if (updated && existing.sessionId) {
-        const event = eventBus.emit("thread.message", existing.sessionId, message);
-        persistEvent(event);
-      }
+    updateWebhookSubscription(
+      id: string,
+      data: Partial<Omit<WebhookSubscription, "id" | "userId" | "createdAt" | "updatedAt">>
+    ): WebhookSubscription | undefined {
+      const existing = this.getWebhookSubscription(id);
+      if (!existing) return undefined;
 
-      return updated;
+      const merged: WebhookSubscription = { ...existing, ...data, updatedAt: new Date().toISOString() };
+      stmts.updateWebhookSubscription.run(webhookSubscriptionToParams(merged));
+      return merged;
     },
 
-    getPendingAnnotations(sessionId: string): Annotation[] {
-      const rows = stmts.getPendingAnnotations.all(sessionId) as Record<string, unknown>[];
-      return rows.map(rowToAnnotation);
+    deleteWebhookSubscription(id: string): WebhookSubscription | undefined {
+      const existing = this.getWebhookSubscription(id);
+      if (!existing) return undefined;
+
+      stmts.deleteWebhookSubscription.run(id);
+      return existing;
     },
 
-    getSessionAnnotations(sessionId: string): Annotation[] {
-      const rows = stmts.getAnnotationsBySession.all(sessionId) as Record<string, unknown>[];
-      return rows.map(rowToAnnotation);
+    listWebhookSubscriptions(): WebhookSubscription[] {
+      const rows = stmts.listWebhookSubscriptions.all() as Record<string, unknown>[];
+      return rows.map(rowToWebhookSubscription);
     },
 
-    deleteAnnotation(id: string): Annotation | undefined {
-      const existing = this.getAnnotation(id);
-      if (!existing) return undefined;
+    // Projects
+    createProject(data: Omit<Project, "id" | "createdAt" | "updatedAt">): Project {
+      return projects.create(data);
+    },
 
-      stmts.deleteAnnotation.run(id);
+    getProject(id: string): Project | undefined {
+      return projects.get(id);
+    },
 
-      if (existing.sessionId) {
-        const event = eventBus.emit("annotation.deleted", existing.sessionId, existing);
-        persistEvent(event);
-      }
+    updateProject(
+      id: string,
+      data: Partial<Omit<Project, "id" | "userId" | "createdAt" | "updatedAt">>
+    ): Project | undefined {
+      return projects.update(id, data);
+    },
 
-      return existing;
+    listProjects(): Project[] {
+      return projects.list();
     },
 
-    // Events
-    getEventsSince(sessionId: string, sequence: number): AFSEvent[] {
-      const rows = stmts.getEventsSince.all(sessionId, sequence) as Record<string, unknown>[];
-      return rows.map((row) => ({
-        type: row.type as AFSEventType,
-        timestamp: row.timestamp as string,
-        sessionId: row.session_id as string,
-        sequence: row.sequence as number,
-        payload: JSON.parse(row.payload as string),
-      }));
+    // Replication
+    getReplicationState(): ReplicationState {
+      return replication.get();
+    },
+
+    updateReplicationState(data: Partial<Omit<ReplicationState, "replicaId">>): ReplicationState {
+      return replication.update(data);
     },
 
     // Lifecycle
@@ -570,12 +1974,67 @@ export interface TenantStore {
   // User-scoped sessions
   createSessionForUser(userId: string, url: string, projectId?: string): Session;
   listSessionsForUser(userId: string): Session[];
+  querySessionsForUser(userId: string, query: SessionQuery): Page<Session>;
   getSessionForUser(userId: string, sessionId: string): Session | undefined;
   getSessionWithAnnotationsForUser(userId: string, sessionId: string): SessionWithAnnotations | undefined;
 
   // User-scoped annotations
+  addAnnotationForUser(
+    userId: string,
+    sessionId: string,
+    data: Omit<Annotation, "id" | "sessionId" | "status" | "createdAt">
+  ): Annotation | undefined;
+  getAnnotationForUser(userId: string, annotationId: string): Annotation | undefined;
+  updateAnnotationForUser(
+    userId: string,
+    annotationId: string,
+    data: Partial<Omit<Annotation, "id" | "sessionId" | "createdAt" | "version">>,
+    options?: WriteOptions
+  ): Annotation | undefined;
+  addThreadMessageForUser(
+    userId: string,
+    annotationId: string,
+    role: "human" | "agent",
+    content: string,
+    options?: WriteOptions
+  ): Annotation | undefined;
+  deleteAnnotationForUser(userId: string, annotationId: string): Annotation | undefined;
+  getSessionAnnotationsForUser(userId: string, sessionId: string): Annotation[];
   getPendingAnnotationsForUser(userId: string, sessionId: string): Annotation[];
   getAllPendingForUser(userId: string): Annotation[];
+  countAnnotationsForUser(userId: string): AnnotationCount[];
+  queryPendingAnnotationsForUser(userId: string, query: AnnotationQuery): Page<Annotation>;
+  searchAnnotationsForUser(userId: string, query: string, options?: SearchOptions): SearchHit[];
+
+  // User-scoped attachments
+  addAttachmentForUser(userId: string, annotationId: string, input: AttachmentInput): Attachment | undefined;
+  getAttachmentForUser(userId: string, attachmentId: string): Attachment | undefined;
+  getAttachmentContentForUser(userId: string, attachmentId: string): Uint8Array | undefined;
+  listAttachmentsForUser(userId: string, annotationId: string): Attachment[];
+  deleteAttachmentForUser(userId: string, attachmentId: string): Attachment | undefined;
+
+  // User-scoped import
+  importSessionForUser(userId: string, data: SessionWithAnnotations): Session | undefined;
+  mergeSessionForUser(userId: string, data: SessionWithAnnotations): Session | undefined;
+
+  // Transactions (nested calls become savepoints)
+  transaction<T>(fn: () => T): T;
+
+  // User-scoped sessions (mutations)
+  updateSessionStatusForUser(userId: string, sessionId: string, status: SessionStatus): Session | undefined;
+  updateSessionForUser(
+    userId: string,
+    sessionId: string,
+    data: Partial<Pick<Session, "status" | "metadata">>
+  ): Session | undefined;
+  deleteSessionForUser(userId: string, sessionId: string): Session | undefined;
+
+  // User-scoped events
+  getEventsSinceForUser(userId: string, sessionId: string, sequence: number): AFSEvent[];
+  getEventsSinceGlobalForUser(userId: string, sequence: number): AFSEvent[];
+  getAnnotationEventsForUser(userId: string, annotationId: string): AFSEvent[];
+  getPrunedSequence(): number; // Shared by all users; 0 if nothing was pruned
+  getLastSequenceForUser(userId: string): number; // The user's latest event, or the pruned sequence if later
 
   // Lifecycle
   close(): void;
@@ -590,12 +2049,19 @@ export function createTenantStore(dbPath?: string): TenantStore {
   db.pragma("journal_mode = WAL");
   initDatabase(db);
 
-  // Restore event sequence from last event
-  const lastEvent = db.prepare("SELECT MAX(sequence) as seq FROM events").get() as { seq: number | null };
-  if (lastEvent?.seq) {
-    eventBus.setSequence(lastEvent.seq);
+  const eventLog = createEventLog(db);
+  const projects = createProjectTable(db);
+
+  // Restore event sequence from last event (or last pruned one)
+  const lastSequence = eventLog.lastSequence();
+  if (lastSequence) {
+    eventBus.setSequence(lastSequence);
   }
 
+  const queries = createQueryRunner(db);
+  const search = createSearchIndex(db);
+  const attachments = createAttachmentStore(db, { prune: dbPath === undefined });
+
   // Prepared statements for tenant operations
   const tenantStmts = {
     // Organizations
@@ -631,9 +2097,53 @@ export function createTenantStore(dbPath?: string): TenantStore {
     `),
     listSessionsForUser: db.prepare("SELECT * FROM sessions WHERE user_id = ? ORDER BY created_at DESC"),
     getSessionForUser: db.prepare("SELECT * FROM sessions WHERE id = ? AND user_id = ?"),
+    updateSession: db.prepare(`
+      UPDATE sessions SET status = @status, metadata = @metadata, updated_at = @updatedAt
+      WHERE id = @id AND user_id = @userId
+    `),
+    deleteSession: db.prepare("DELETE FROM sessions WHERE id = ? AND user_id = ?"),
+    deleteSessionAnnotations: db.prepare("DELETE FROM annotations WHERE session_id = ?"),
+    deleteSessionEvents: db.prepare("DELETE FROM events WHERE session_id = ?"),
     getAnnotationsBySession: db.prepare("SELECT * FROM annotations WHERE session_id = ? ORDER BY timestamp"),
     getPendingAnnotationsForSession: db.prepare("SELECT * FROM annotations WHERE session_id = ? AND status = 'pending' ORDER BY timestamp"),
 
+    // User-scoped annotations (ownership is checked through the parent session)
+    insertAnnotation: db.prepare(`
+      INSERT INTO annotations (
+        id, session_id, x, y, comment, element, element_path, timestamp,
+        selected_text, bounding_box, nearby_text, css_classes, nearby_elements,
+        computed_styles, full_path, accessibility, is_multi_select, is_fixed,
+        react_components, url, intent, severity, status, thread, created_at,
+        updated_at, resolved_at, resolved_by, author_id, assignee_id, version
+      ) VALUES (
+        @id, @sessionId, @x, @y, @comment, @element, @elementPath, @timestamp,
+        @selectedText, @boundingBox, @nearbyText, @cssClasses, @nearbyElements,
+        @computedStyles, @fullPath, @accessibility, @isMultiSelect, @isFixed,
+        @reactComponents, @url, @intent, @severity, @status, @thread, @createdAt,
+        @updatedAt, @resolvedAt, @resolvedBy, @authorId, @assigneeId, @version
+      )
+    `),
+    getAnnotationForUser: db.prepare(`
+      SELECT a.* FROM annotations a
+      JOIN sessions s ON a.session_id = s.id
+      WHERE a.id = ? AND s.user_id = ?
+    `),
+    updateAnnotation: db.prepare(`
+      UPDATE annotations SET
+        comment = COALESCE(@comment, comment),
+        status = COALESCE(@status, status),
+        updated_at = @updatedAt,
+        resolved_at = COALESCE(@resolvedAt, resolved_at),
+        resolved_by = COALESCE(@resolvedBy, resolved_by),
+        thread = COALESCE(@thread, thread),
+        intent = COALESCE(@intent, intent),
+        severity = COALESCE(@severity, severity),
+        assignee_id = CASE WHEN @assigneeChanged THEN @assigneeId ELSE assignee_id END,
+        version = version + 1
+      WHERE id = @id
+    `),
+    deleteAnnotation: db.prepare("DELETE FROM annotations WHERE id = ?"),
+
     // Get all pending for a user (across all their sessions)
     getAllPendingForUser: db.prepare(`
       SELECT a.* FROM annotations a
@@ -641,33 +2151,30 @@ export function createTenantStore(dbPath?: string): TenantStore {
       WHERE s.user_id = ? AND a.status = 'pending'
       ORDER BY a.timestamp
     `),
+    countAnnotationsForUser: db.prepare(`
+      SELECT COALESCE(a.status, 'pending') as status, a.severity, COUNT(*) as count
+      FROM annotations a
+      JOIN sessions s ON a.session_id = s.id
+      WHERE s.user_id = ?
+      GROUP BY 1, 2
+    `),
 
     // Events
     insertEvent: db.prepare(`
-      INSERT INTO events (type, timestamp, session_id, sequence, payload, user_id)
-      VALUES (@type, @timestamp, @sessionId, @sequence, @payload, @userId)
+      INSERT INTO events (type, timestamp, session_id, sequence, payload, origin, changes, actor, annotation_id, user_id)
+      VALUES (@type, @timestamp, @sessionId, @sequence, @payload, @origin, @changes, @actor, @annotationId, @userId)
     `),
 
-    // Prune old events
-    pruneOldEvents: db.prepare(`
-      DELETE FROM events WHERE timestamp < ?
+    getEventsSinceForUser: db.prepare(`
+      SELECT * FROM events WHERE session_id = ? AND sequence > ? AND user_id = ? ORDER BY sequence
     `),
   };
 
   // Prune events older than retention period on startup
-  const retentionDays = parseInt(process.env.AGENTATION_EVENT_RETENTION_DAYS || "7", 10);
-  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
-  tenantStmts.pruneOldEvents.run(cutoff);
+  eventLog.pruneExpired();
 
   function persistEventForUser(event: AFSEvent, userId: string): void {
-    tenantStmts.insertEvent.run({
-      type: event.type,
-      timestamp: event.timestamp,
-      sessionId: event.sessionId,
-      sequence: event.sequence,
-      payload: JSON.stringify(event.payload),
-      userId,
-    });
+    tenantStmts.insertEvent.run({ ...eventToParams(event), userId });
   }
 
   return {
@@ -788,7 +2295,7 @@ export function createTenantStore(dbPath?: string): TenantStore {
         url,
         status: "active",
         createdAt: new Date().toISOString(),
-        projectId,
+        projectId: projectId ?? projects.matchForUrl(url, userId),
       };
 
       tenantStmts.insertSessionForUser.run({
@@ -801,17 +2308,75 @@ export function createTenantStore(dbPath?: string): TenantStore {
         userId,
       });
 
-      const event = eventBus.emit("session.created", session.id, session);
+      const event = userEventBus.emitForUser(userId, "session.created", session.id, session);
+      persistEventForUser(event, userId);
+
+      return session;
+    },
+
+    updateSessionStatusForUser(userId: string, sessionId: string, status: SessionStatus): Session | undefined {
+      return this.updateSessionForUser(userId, sessionId, { status });
+    },
+
+    updateSessionForUser(
+      userId: string,
+      sessionId: string,
+      data: Partial<Pick<Session, "status" | "metadata">>
+    ): Session | undefined {
+      const existing = this.getSessionForUser(userId, sessionId);
+      if (!existing) return undefined;
+
+      const session: Session = {
+        ...existing,
+        status: data.status ?? existing.status,
+        metadata: data.metadata !== undefined ? data.metadata ?? undefined : existing.metadata,
+        updatedAt: new Date().toISOString(),
+      };
+      tenantStmts.updateSession.run({
+        id: sessionId,
+        status: session.status,
+        metadata: session.metadata ? JSON.stringify(session.metadata) : null,
+        updatedAt: session.updatedAt,
+        userId,
+      });
+
+      const eventType: AFSEventType =
+        session.status === "closed" && existing.status !== "closed" ? "session.closed" : "session.updated";
+      const event = userEventBus.emitForUser(userId, eventType, sessionId, session);
       persistEventForUser(event, userId);
 
       return session;
     },
 
+    deleteSessionForUser(userId: string, sessionId: string): Session | undefined {
+      const existing = this.getSessionForUser(userId, sessionId);
+      if (!existing) return undefined;
+
+      const attachmentIds = db.transaction(() => {
+        search.removeSession(sessionId);
+        const removed = attachments.removeForSession(sessionId);
+        tenantStmts.deleteSessionAnnotations.run(sessionId);
+        tenantStmts.deleteSessionEvents.run(sessionId);
+        tenantStmts.deleteSession.run(sessionId, userId);
+        return removed;
+      })();
+      attachments.discardFiles(attachmentIds);
+
+      // Notify live subscribers; not persisted since the session's history is gone
+      userEventBus.emitForUser(userId, "session.closed", sessionId, { ...existing, status: "closed" });
+
+      return existing;
+    },
+
     listSessionsForUser(userId: string): Session[] {
       const rows = tenantStmts.listSessionsForUser.all(userId) as Record<string, unknown>[];
       return rows.map(rowToSession);
     },
 
+    querySessionsForUser(userId: string, query: SessionQuery): Page<Session> {
+      return queries.querySessions(query, userId);
+    },
+
     getSessionForUser(userId: string, sessionId: string): Session | undefined {
       const row = tenantStmts.getSessionForUser.get(sessionId, userId) as Record<string, unknown> | undefined;
       return row ? rowToSession(row) : undefined;
@@ -830,6 +2395,124 @@ export function createTenantStore(dbPath?: string): TenantStore {
     },
 
     // User-scoped annotations
+    addAnnotationForUser(
+      userId: string,
+      sessionId: string,
+      data: Omit<Annotation, "id" | "sessionId" | "status" | "createdAt">
+    ): Annotation | undefined {
+      const session = this.getSessionForUser(userId, sessionId);
+      if (!session) return undefined;
+      assertContentLength(data.comment);
+
+      const annotation: Annotation = {
+        ...withProjectDefaults(data, projects.forSession(session)),
+        id: generateId(),
+        sessionId,
+        status: "pending",
+        createdAt: new Date().toISOString(),
+        version: INITIAL_VERSION,
+      };
+
+      tenantStmts.insertAnnotation.run(annotationToParams(annotation));
+      search.index(annotation);
+
+      const event = userEventBus.emitForUser(userId, "annotation.created", sessionId, annotation);
+      persistEventForUser(event, userId);
+
+      return annotation;
+    },
+
+    getAnnotationForUser(userId: string, annotationId: string): Annotation | undefined {
+      const row = tenantStmts.getAnnotationForUser.get(annotationId, userId) as Record<string, unknown> | undefined;
+      return row ? rowToAnnotation(row) : undefined;
+    },
+
+    updateAnnotationForUser(
+      userId: string,
+      annotationId: string,
+      data: Partial<Omit<Annotation, "id" | "sessionId" | "createdAt" | "version">>,
+      options?: WriteOptions
+    ): Annotation | undefined {
+      const existing = this.getAnnotationForUser(userId, annotationId);
+      if (!existing) return undefined;
+      assertVersion(existing, options?.ifVersion);
+      assertContentLength(data.comment);
+
+      tenantStmts.updateAnnotation.run(annotationUpdateToParams(annotationId, data));
+
+      const updated = this.getAnnotationForUser(userId, annotationId);
+      if (updated) search.index(updated);
+      if (updated && existing.sessionId) {
+        const event = userEventBus.emitForUser(
+          userId,
+          "annotation.updated",
+          existing.sessionId,
+          updated,
+          diffAnnotation(existing, updated)
+        );
+        persistEventForUser(event, userId);
+      }
+      return updated;
+    },
+
+    addThreadMessageForUser(
+      userId: string,
+      annotationId: string,
+      role: "human" | "agent",
+      content: string,
+      options?: WriteOptions
+    ): Annotation | undefined {
+      const existing = this.getAnnotationForUser(userId, annotationId);
+      if (!existing) return undefined;
+      assertVersion(existing, options?.ifVersion);
+      assertThreadRoom(existing);
+      assertContentLength(content, "content");
+
+      const message: ThreadMessage = {
+        id: generateId(),
+        role,
+        content,
+        timestamp: Date.now(),
+      };
+
+      const thread = [...(existing.thread || []), message];
+      const updated = this.updateAnnotationForUser(userId, annotationId, { thread });
+
+      if (updated && existing.sessionId) {
+        const event = userEventBus.emitForUser(userId, "thread.message", existing.sessionId, {
+          ...message,
+          annotationId,
+        });
+        persistEventForUser(event, userId);
+      }
+
+      return updated;
+    },
+
+    deleteAnnotationForUser(userId: string, annotationId: string): Annotation | undefined {
+      const existing = this.getAnnotationForUser(userId, annotationId);
+      if (!existing) return undefined;
+
+      attachments.discardFiles(attachments.removeForAnnotation(annotationId));
+      tenantStmts.deleteAnnotation.run(annotationId);
+      search.remove(annotationId);
+
+      if (existing.sessionId) {
+        const event = userEventBus.emitForUser(userId, "annotation.deleted", existing.sessionId, existing);
+        persistEventForUser(event, userId);
+      }
+
+      return existing;
+    },
+
+    getSessionAnnotationsForUser(userId: string, sessionId: string): Annotation[] {
+      const session = this.getSessionForUser(userId, sessionId);
+      if (!session) return [];
+
+      const rows = tenantStmts.getAnnotationsBySession.all(sessionId) as Record<string, unknown>[];
+      return rows.map(rowToAnnotation);
+    },
+
     getPendingAnnotationsForUser(userId: string, sessionId: string): Annotation[] {
       // First verify the session belongs to the user
       const session = this.getSessionForUser(userId, sessionId);
@@ -844,6 +2527,104 @@ export function createTenantStore(dbPath?: string): TenantStore {
       return rows.map(rowToAnnotation);
     },
 
+    countAnnotationsForUser(userId: string): AnnotationCount[] {
+      return (tenantStmts.countAnnotationsForUser.all(userId) as Record<string, unknown>[]).map(rowToAnnotationCount);
+    },
+
+    queryPendingAnnotationsForUser(userId: string, query: AnnotationQuery): Page<Annotation> {
+      return queries.queryPendingAnnotations(query, userId);
+    },
+
+    searchAnnotationsForUser(userId: string, query: string, options?: SearchOptions): SearchHit[] {
+      return search.search(query, options, userId);
+    },
+
+    // User-scoped attachments
+    addAttachmentForUser(userId: string, annotationId: string, input: AttachmentInput): Attachment | undefined {
+      if (!this.getAnnotationForUser(userId, annotationId)) return undefined;
+      return attachments.add(annotationId, input);
+    },
+
+    getAttachmentForUser(userId: string, attachmentId: string): Attachment | undefined {
+      return attachments.get(attachmentId, userId);
+    },
+
+    getAttachmentContentForUser(userId: string, attachmentId: string): Uint8Array | undefined {
+      return attachments.get(attachmentId, userId) ? attachments.content(attachmentId) : undefined;
+    },
+
+    listAttachmentsForUser(userId: string, annotationId: string): Attachment[] {
+      if (!this.getAnnotationForUser(userId, annotationId)) return [];
+      return attachments.list(annotationId);
+    },
+
+    deleteAttachmentForUser(userId: string, attachmentId: string): Attachment | undefined {
+      const existing = attachments.get(attachmentId, userId);
+      if (existing) attachments.remove(attachmentId);
+      return existing;
+    },
+
+    // User-scoped import
+    importSessionForUser(userId: string, data: SessionWithAnnotations): Session | undefined {
+      const session = insertImportedSession(db, search, data, userId);
+      if (session) {
+        const event = userEventBus.emitForUser(userId, "session.created", session.id, session);
+        persistEventForUser(event, userId);
+      }
+      return session;
+    },
+
+    mergeSessionForUser(userId: string, data: SessionWithAnnotations): Session | undefined {
+      const outcome = mergeReplicatedSession(db, search, data, userId);
+      if (!outcome) return undefined;
+
+      const { session, sessionChange, annotations } = outcome;
+      if (sessionChange) {
+        const event = userEventBus.emitForUser(userId, `session.${sessionChange}`, session.id, session);
+        persistEventForUser(event, userId);
+      }
+      for (const { annotation, previous } of annotations) {
+        const event = previous
+          ? userEventBus.emitForUser(
+              userId,
+              "annotation.updated",
+              session.id,
+              annotation,
+              diffAnnotation(previous, annotation)
+            )
+          : userEventBus.emitForUser(userId, "annotation.created", session.id, annotation);
+        persistEventForUser(event, userId);
+      }
+      return session;
+    },
+
+    // Transactions
+    transaction<T>(fn: () => T): T {
+      return db.transaction(fn)();
+    },
+
+    // User-scoped events
+    getEventsSinceForUser(userId: string, sessionId: string, sequence: number): AFSEvent[] {
+      const rows = tenantStmts.getEventsSinceForUser.all(sessionId, sequence, userId) as Record<string, unknown>[];
+      return rows.map(rowToEvent);
+    },
+
+    getEventsSinceGlobalForUser(userId: string, sequence: number): AFSEvent[] {
+      return eventLog.since(sequence, userId);
+    },
+
+    getAnnotationEventsForUser(userId: string, annotationId: string): AFSEvent[] {
+      return eventLog.forAnnotation(annotationId, userId);
+    },
+
+    getPrunedSequence(): number {
+      return eventLog.prunedSequence();
+    },
+
+    getLastSequenceForUser(userId: string): number {
+      return eventLog.lastSequence(userId);
+    },
+
     // Lifecycle
     close(): void {
       db.close();
@@ -0,0 +1,358 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { AFSStore, Page } from "../types.js";
+import { createSQLiteStore } from "./sqlite.js";
+import { clearAll, getStore } from "./store.js";
+import { QueryError } from "./query.js";
+import { eventBus } from "./events.js";
+import { VersionConflictError } from "./versioning.js";
+
+process.env.AGENTATION_STORE = "memory";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const annotation = (comment: string, extra: Record<string, unknown> = {}) => ({
+  x: 10,
+  y: 20,
+  comment,
+  element: "button",
+  elementPath: "body > button",
+  timestamp: Date.now(),
+  ...extra,
+});
+
+/** Follow nextCursor until the last page, returning every page. */
+function collectPages<T>(fetchPage: (cursor?: string) => Page<T>): Page<T>[] {
+  const pages = [fetchPage()];
+  while (pages[pages.length - 1].nextCursor) {
+    pages.push(fetchPage(pages[pages.length - 1].nextCursor));
+  }
+  return pages;
+}
+
+// Every test runs against both backends
+const backends: [string, (dir: string) => AFSStore][] = [
+  [
+    "memory",
+    () => {
+      clearAll();
+      return getStore();
+    },
+  ],
+  ["sqlite", (dir) => createSQLiteStore(join(dir, "store.db"))],
+];
+
+describe.each(backends)("%s store", (_name, createStore) => {
+  let dir: string;
+  let store: AFSStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "agentation-store-"));
+    store = createStore(dir);
+  });
+
+  afterEach(() => {
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // ===========================================================================
+  // Cursor pagination
+  // ===========================================================================
+
+  describe("cursor pagination", () => {
+    it("pages through sessions newest first without repeats or gaps", () => {
+      const ids = Array.from({ length: 5 }, (_, i) => store.createSession(`http://localhost:3000/${i}`).id);
+
+      const pages = collectPages((cursor) => store.querySessions({ limit: 2, cursor }));
+
+      expect(pages.map((page) => page.items.length)).toEqual([2, 2, 1]);
+      expect(pages.every((page) => page.total === 5)).toBe(true);
+      expect(pages[2].nextCursor).toBeUndefined();
+
+      const seen = pages.flatMap((page) => page.items);
+      expect(new Set(seen.map((s) => s.id))).toEqual(new Set(ids));
+      expect(seen.map((s) => s.id)).toEqual(store.querySessions({}).items.map((s) => s.id));
+      for (let i = 1; i < seen.length; i++) {
+        expect(seen[i - 1].createdAt >= seen[i].createdAt).toBe(true);
+      }
+    });
+
+    it("follows the requested sort order", () => {
+      for (let i = 0; i < 4; i++) store.createSession(`http://localhost:3000/${i}`);
+
+      const newestFirst = store.querySessions({}).items.map((s) => s.id);
+      const pages = collectPages((cursor) => store.querySessions({ sort: "createdAt", limit: 3, cursor }));
+
+      expect(pages.flatMap((page) => page.items).map((s) => s.id)).toEqual([...newestFirst].reverse());
+    });
+
+    it("keeps its place when earlier items are deleted between pages", () => {
+      for (let i = 0; i < 5; i++) store.createSession(`http://localhost:3000/${i}`);
+      const all = store.querySessions({}).items.map((s) => s.id);
+
+      const first = store.querySessions({ limit: 2 });
+      store.deleteSession(first.items[0].id);
+      const second = store.querySessions({ limit: 2, cursor: first.nextCursor });
+
+      expect(second.items.map((s) => s.id)).toEqual(all.slice(2, 4));
+      expect(second.total).toBe(4);
+    });
+
+    it("applies filters before paginating", () => {
+      for (let i = 0; i < 3; i++) store.createSession(`http://localhost:3000/${i}`);
+      for (let i = 0; i < 3; i++) store.createSession(`http://example.com/${i}`);
+
+      const pages = collectPages((cursor) => store.querySessions({ domain: "example.com", limit: 2, cursor }));
+      const seen = pages.flatMap((page) => page.items);
+
+      expect(pages[0].total).toBe(3);
+      expect(seen).toHaveLength(3);
+      expect(seen.every((s) => s.url.startsWith("http://example.com/"))).toBe(true);
+    });
+
+    it("pages through pending annotations oldest first", () => {
+      const session = store.createSession("http://localhost:3000/");
+      const ids = Array.from({ length: 5 }, (_, i) => store.addAnnotation(session.id, annotation(`Note ${i}`))!.id);
+      store.updateAnnotationStatus(ids[0], "resolved");
+
+      const pages = collectPages((cursor) =>
+        store.queryPendingAnnotations({ sessionId: session.id, limit: 2, cursor })
+      );
+      const seen = pages.flatMap((page) => page.items);
+
+      expect(pages.map((page) => page.items.length)).toEqual([2, 2]);
+      expect(pages[0].total).toBe(4);
+      expect(new Set(seen.map((a) => a.id))).toEqual(new Set(ids.slice(1)));
+      for (let i = 1; i < seen.length; i++) {
+        expect(seen[i - 1].createdAt! <= seen[i].createdAt!).toBe(true);
+      }
+    });
+
+    it("pages through pending annotations most severe first", () => {
+      const session = store.createSession("http://localhost:3000/");
+      for (const severity of ["suggestion", "blocking", "important", "blocking", "suggestion"]) {
+        store.addAnnotation(session.id, annotation(severity, { severity }));
+      }
+
+      const pages = collectPages((cursor) =>
+        store.queryPendingAnnotations({ sessionId: session.id, sort: "severity", limit: 2, cursor })
+      );
+
+      expect(pages.flatMap((page) => page.items).map((a) => a.severity)).toEqual([
+        "blocking",
+        "blocking",
+        "important",
+        "suggestion",
+        "suggestion",
+      ]);
+    });
+
+    it("rejects a malformed cursor", () => {
+      store.createSession("http://localhost:3000/");
+
+      expect(() => store.querySessions({ cursor: "not-a-cursor" })).toThrow(QueryError);
+      expect(() => store.queryPendingAnnotations({ cursor: "not-a-cursor" })).toThrow(QueryError);
+    });
+  });
+
+  // ===========================================================================
+  // Bulk operations
+  // ===========================================================================
+
+  describe("bulk operations", () => {
+    function setup() {
+      const session = store.createSession("http://localhost:3000/");
+      const first = store.addAnnotation(session.id, annotation("First"))!;
+      const second = store.addAnnotation(session.id, annotation("Second"))!;
+      return { session, first, second };
+    }
+
+    it("rolls back every change in an atomic batch when one op fails", () => {
+      const { session, first, second } = setup();
+
+      const result = store.bulkUpdateAnnotations(
+        [
+          { op: "status", id: first.id, status: "resolved", resolvedBy: "agent" },
+          { op: "reply", id: second.id, role: "agent", content: "On it" },
+          { op: "delete", id: second.id },
+          { op: "update", id: "missing", severity: "blocking" },
+          { op: "update", id: first.id, severity: "important" },
+        ],
+        { atomic: true }
+      );
+
+      expect(result).toMatchObject({ atomic: true, committed: false, applied: 0, failed: 5 });
+      expect(result.results.map((r) => r.error)).toEqual([
+        "Rolled back",
+        "Rolled back",
+        "Rolled back",
+        "Annotation not found: missing",
+        "Skipped: batch rolled back",
+      ]);
+      expect(result.results.every((r) => r.annotation === undefined)).toBe(true);
+
+      expect(store.getAnnotation(first.id)).toMatchObject({ status: "pending", version: 1 });
+      expect(store.getAnnotation(first.id)?.resolvedBy).toBeFalsy();
+      expect(store.getAnnotation(second.id)?.thread ?? []).toEqual([]);
+      expect(store.getSessionAnnotations(session.id)).toHaveLength(2);
+    });
+
+    it("emits no events for a rolled-back batch", () => {
+      const { first } = setup();
+      const before = store.getEventsSinceGlobal(0).length;
+      const emitted: string[] = [];
+      const unsubscribe = eventBus.subscribe((event) => emitted.push(event.type));
+
+      try {
+        store.bulkUpdateAnnotations(
+          [
+            { op: "status", id: first.id, status: "acknowledged" },
+            { op: "delete", id: "missing" },
+          ],
+          { atomic: true }
+        );
+      } finally {
+        unsubscribe();
+      }
+
+      expect(emitted).toEqual([]);
+      expect(store.getEventsSinceGlobal(0)).toHaveLength(before);
+    });
+
+    it("commits the successful ops of a non-atomic batch", () => {
+      const { first, second } = setup();
+
+      const result = store.bulkUpdateAnnotations([
+        { op: "status", id: first.id, status: "acknowledged" },
+        { op: "delete", id: "missing" },
+        { op: "reply", id: second.id, role: "agent", content: "On it" },
+      ]);
+
+      expect(result).toMatchObject({ atomic: false, committed: true, applied: 2, failed: 1 });
+      expect(result.results.map((r) => r.ok)).toEqual([true, false, true]);
+      expect(store.getAnnotation(first.id)?.status).toBe("acknowledged");
+      expect(store.getAnnotation(second.id)?.thread?.map((m) => m.content)).toEqual(["On it"]);
+    });
+
+    it("commits an atomic batch in which every op succeeds", () => {
+      const { session, first, second } = setup();
+
+      const result = store.bulkUpdateAnnotations(
+        [
+          { op: "update", id: first.id, severity: "blocking", assigneeId: "claude" },
+          { op: "delete", id: second.id },
+        ],
+        { atomic: true }
+      );
+
+      expect(result).toMatchObject({ committed: true, applied: 2, failed: 0 });
+      expect(store.getAnnotation(first.id)).toMatchObject({ severity: "blocking", assigneeId: "claude" });
+      expect(store.getSessionAnnotations(session.id).map((a) => a.id)).toEqual([first.id]);
+    });
+  });
+
+  // ===========================================================================
+  // Versioning
+  // ===========================================================================
+
+  describe("annotation versions", () => {
+    function setup() {
+      const session = store.createSession("http://localhost:3000/");
+      return store.addAnnotation(session.id, annotation("Fix the padding"))!;
+    }
+
+    it("starts at 1 and bumps on every write", () => {
+      const created = setup();
+      expect(created.version).toBe(1);
+
+      expect(store.updateAnnotation(created.id, { comment: "Fix the margin" })?.version).toBe(2);
+      expect(store.updateAnnotationStatus(created.id, "acknowledged")?.version).toBe(3);
+      expect(store.addThreadMessage(created.id, "agent", "On it")?.version).toBe(4);
+      expect(store.getAnnotation(created.id)?.version).toBe(4);
+    });
+
+    it("applies a write whose ifVersion matches", () => {
+      const created = setup();
+
+      const updated = store.updateAnnotation(created.id, { comment: "Fix the margin" }, { ifVersion: 1 });
+
+      expect(updated).toMatchObject({ comment: "Fix the margin", version: 2 });
+    });
+
+    it("rejects a write whose ifVersion is stale and leaves the annotation alone", () => {
+      const created = setup();
+      store.updateAnnotation(created.id, { comment: "Fix the margin" });
+
+      let conflict: unknown;
+      try {
+        store.updateAnnotation(created.id, { comment: "Fix the border" }, { ifVersion: 1 });
+      } catch (err) {
+        conflict = err;
+      }
+
+      expect(conflict).toBeInstanceOf(VersionConflictError);
+      expect(conflict).toMatchObject({ annotationId: created.id, expectedVersion: 1, currentVersion: 2 });
+      expect(store.getAnnotation(created.id)).toMatchObject({ comment: "Fix the margin", version: 2 });
+    });
+
+    it("checks ifVersion on status changes and replies too", () => {
+      const created = setup();
+      store.updateAnnotation(created.id, { comment: "Fix the margin" });
+
+      expect(() => store.updateAnnotationStatus(created.id, "resolved", "agent", { ifVersion: 1 })).toThrow(
+        VersionConflictError
+      );
+      expect(() => store.addThreadMessage(created.id, "agent", "Done", { ifVersion: 1 })).toThrow(
+        VersionConflictError
+      );
+      expect(store.getAnnotation(created.id)).toMatchObject({ status: "pending", version: 2 });
+      expect(store.getAnnotation(created.id)?.thread ?? []).toEqual([]);
+    });
+  });
+});
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+describe("sqlite store migrations", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "agentation-migrate-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("backfills the annotation ID of events written before it had a column", () => {
+    const path = join(dir, "store.db");
+    let store = createSQLiteStore(path);
+    const session = store.createSession("http://localhost:3000/");
+    const created = store.addAnnotation(session.id, annotation("Fix the padding"))!;
+    store.addThreadMessage(created.id, "human", "Please");
+    const history = store.getAnnotationEvents(created.id).map((event) => event.sequence);
+    store.close();
+
+    // Roll the events table back to its shape before the column
+    const db = new Database(path);
+    db.exec("DROP INDEX idx_events_annotation_seq; ALTER TABLE events DROP COLUMN annotation_id;");
+    db.close();
+
+    store = createSQLiteStore(path);
+    try {
+      expect(store.getAnnotationEvents(created.id).map((event) => event.sequence)).toEqual(history);
+      expect(history).toHaveLength(3);
+      expect(store.getEventsSinceGlobal(0).map((event) => event.type)).toContain("session.created");
+    } finally {
+      store.close();
+    }
+  });
+});
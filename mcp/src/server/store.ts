@@ -9,6 +9,10 @@
  *   const session = store.createSession('http://localhost:3000');
  */
 
+import { randomUUID } from "crypto";
+import { statSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
 import type {
   AFSStore,
   AFSEvent,
@@ -16,16 +20,41 @@ import type {
   SessionStatus,
   SessionWithAnnotations,
   Annotation,
+  AnnotationCount,
   AnnotationStatus,
   ThreadMessage,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+  SessionQuery,
+  AnnotationQuery,
+  Page,
+  SearchHit,
+  SearchOptions,
+  BulkOperation,
+  BulkResult,
+  WriteOptions,
+  Attachment,
+  AttachmentInput,
+  Project,
+  ReplicationState,
 } from "../types.js";
 import { eventBus } from "./events.js";
+import { applySessionQuery, applyAnnotationQuery } from "./query.js";
+import { runBulkOperations } from "./bulk.js";
+import { INITIAL_VERSION, assertVersion, isNewerRevision } from "./versioning.js";
+import { assertAnnotationLimits, assertContentLength, assertThreadRoom } from "./limits.js";
+import { matchProject, withProjectDefaults } from "./projects.js";
+import { diffAnnotation, isAnnotationEvent } from "./history.js";
 
 // -----------------------------------------------------------------------------
 // Store Singleton
 // -----------------------------------------------------------------------------
 
 let _store: AFSStore | null = null;
+let _backend: StoreBackend = "memory";
+
+export type StoreBackend = "sqlite" | "memory";
 
 /**
  * Get the store instance. Lazily initializes on first access.
@@ -52,6 +81,7 @@ function initializeStore(): AFSStore {
     // eslint-disable-next-line @typescript-eslint/no-require-imports
     const { createSQLiteStore } = require("./sqlite.js");
     const store = createSQLiteStore();
+    _backend = "sqlite";
     console.log("[Store] Using SQLite store (~/.agentation/store.db)");
     return store;
   } catch (err) {
@@ -60,6 +90,88 @@ function initializeStore(): AFSStore {
   }
 }
 
+/**
+ * Use the given store instead of initializing one (for testing).
+ * clearAll() closes it and goes back to the default.
+ */
+export function setStore(store: AFSStore, backend: StoreBackend = "sqlite"): void {
+  _store?.close();
+  _store = store;
+  _backend = backend;
+}
+
+/**
+ * Which backend the store ended up using (SQLite can fall back to memory).
+ */
+export function getStoreBackend(): StoreBackend {
+  getStore();
+  return _backend;
+}
+
+/**
+ * Size of ~/.agentation/store.db in bytes, including its WAL and
+ * shared-memory files. 0 if it doesn't exist.
+ */
+export function getDatabaseSize(): number {
+  const dbPath = join(homedir(), ".agentation", "store.db");
+  let total = 0;
+  for (const file of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+    try {
+      total += statSync(file).size;
+    } catch {
+      // Missing file
+    }
+  }
+  return total;
+}
+
+// -----------------------------------------------------------------------------
+// Search Fallback
+// -----------------------------------------------------------------------------
+
+const SNIPPET_CONTEXT_CHARS = 40;
+
+/**
+ * Case-insensitive substring search for the memory store.
+ * Scores by the number of fields containing the query; no stemming or ranking.
+ */
+function substringSearch(candidates: Annotation[], query: string, options: SearchOptions = {}): SearchHit[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const hits: SearchHit[] = [];
+  for (const annotation of candidates) {
+    if (options.sessionId && annotation.sessionId !== options.sessionId) continue;
+
+    const fields = [
+      annotation.comment,
+      annotation.selectedText,
+      annotation.nearbyText,
+      annotation.element,
+      annotation.reactComponents,
+      ...(annotation.thread?.map((message) => message.content) ?? []),
+    ].filter((field): field is string => Boolean(field));
+
+    const matching = fields.filter((field) => field.toLowerCase().includes(needle));
+    if (matching.length === 0) continue;
+
+    const text = matching[0];
+    const start = text.toLowerCase().indexOf(needle);
+    const from = Math.max(0, start - SNIPPET_CONTEXT_CHARS);
+    const to = Math.min(text.length, start + needle.length + SNIPPET_CONTEXT_CHARS);
+    const snippet =
+      (from > 0 ? "…" : "") +
+      text.slice(from, start) +
+      `<mark>${text.slice(start, start + needle.length)}</mark>` +
+      text.slice(start + needle.length, to) +
+      (to < text.length ? "…" : "");
+
+    hits.push({ annotation, score: matching.length, snippet });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, Math.min(options.limit ?? 20, 100));
+}
+
 // -----------------------------------------------------------------------------
 // In-Memory Store (fallback)
 // -----------------------------------------------------------------------------
@@ -67,8 +179,48 @@ function initializeStore(): AFSStore {
 function createMemoryStore(): AFSStore {
   const sessions = new Map<string, Session>();
   const annotations = new Map<string, Annotation>();
+  const attachments = new Map<string, { attachment: Attachment; content: Uint8Array }>();
   const events: AFSEvent[] = [];
 
+  /**
+   * Undo annotation changes made by `fn` if it throws.
+   * Annotations are mutated in place, so the snapshot copies each one.
+   */
+  function transaction<T>(fn: () => T): T {
+    const snapshot = Array.from(annotations, ([id, a]) => [id, { ...a, thread: a.thread && [...a.thread] }] as const);
+    const attachmentSnapshot = new Map(attachments);
+    const eventCount = events.length;
+    try {
+      return fn();
+    } catch (err) {
+      annotations.clear();
+      for (const [id, annotation] of snapshot) {
+        annotations.set(id, annotation);
+      }
+      attachments.clear();
+      for (const [id, entry] of attachmentSnapshot) {
+        attachments.set(id, entry);
+      }
+      events.length = eventCount;
+      throw err;
+    }
+  }
+
+  function removeAttachments(annotationIds: Set<string>): void {
+    for (const [id, { attachment }] of attachments) {
+      if (annotationIds.has(attachment.annotationId)) attachments.delete(id);
+    }
+  }
+  const webhookDeliveries = new Map<string, WebhookDelivery>();
+  const webhookSubscriptions = new Map<string, WebhookSubscription>();
+  const projects = new Map<string, Project>();
+  const replication: ReplicationState = {
+    replicaId: randomUUID(),
+    pushedSequence: 0,
+    pulledSequence: 0,
+    pendingSessionDeletes: [],
+  };
+
   function generateId(): string {
     return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
   }
@@ -80,7 +232,7 @@ function createMemoryStore(): AFSStore {
         url,
         status: "active",
         createdAt: new Date().toISOString(),
-        projectId,
+        projectId: projectId ?? matchProject(url, this.listProjects().filter((p) => !p.userId))?.id,
       };
       sessions.set(session.id, session);
 
@@ -109,41 +261,80 @@ function createMemoryStore(): AFSStore {
     },
 
     updateSessionStatus(id: string, status: SessionStatus): Session | undefined {
+      return this.updateSession(id, { status });
+    },
+
+    updateSession(
+      id: string,
+      data: Partial<Pick<Session, "status" | "metadata">>
+    ): Session | undefined {
       const session = sessions.get(id);
       if (!session) return undefined;
 
-      session.status = status;
+      const wasClosed = session.status === "closed";
+      if (data.status !== undefined) session.status = data.status;
+      if (data.metadata !== undefined) session.metadata = data.metadata ?? undefined;
       session.updatedAt = new Date().toISOString();
 
-      const eventType = status === "closed" ? "session.closed" : "session.updated";
+      const eventType = session.status === "closed" && !wasClosed ? "session.closed" : "session.updated";
       const event = eventBus.emit(eventType, id, session);
       events.push(event);
 
       return session;
     },
 
+    deleteSession(id: string): Session | undefined {
+      const session = sessions.get(id);
+      if (!session) return undefined;
+
+      sessions.delete(id);
+      const removed = new Set<string>();
+      for (const [annotationId, annotation] of annotations) {
+        if (annotation.sessionId === id) {
+          annotations.delete(annotationId);
+          removed.add(annotationId);
+        }
+      }
+      removeAttachments(removed);
+      for (let i = events.length - 1; i >= 0; i--) {
+        if (events[i].sessionId === id) events.splice(i, 1);
+      }
+
+      // Notify live subscribers; not recorded since the session's history is gone
+      eventBus.emit("session.closed", id, { ...session, status: "closed" });
+
+      return session;
+    },
+
     listSessions(): Session[] {
       return Array.from(sessions.values());
     },
 
+    querySessions(query: SessionQuery): Page<Session> {
+      return applySessionQuery(Array.from(sessions.values()), query);
+    },
+
     addAnnotation(
       sessionId: string,
       data: Omit<Annotation, "id" | "sessionId" | "status" | "createdAt">
     ): Annotation | undefined {
       const session = sessions.get(sessionId);
       if (!session) return undefined;
+      assertContentLength(data.comment);
 
       const annotation: Annotation = {
-        ...data,
+        ...withProjectDefaults(data, session.projectId ? projects.get(session.projectId) : undefined),
         id: generateId(),
         sessionId,
         status: "pending",
         createdAt: new Date().toISOString(),
+        version: INITIAL_VERSION,
       };
 
       annotations.set(annotation.id, annotation);
 
-      const event = eventBus.emit("annotation.created", sessionId, annotation);
+      // Events keep a copy, so the log holds each version for history
+      const event = eventBus.emit("annotation.created", sessionId, { ...annotation });
       events.push(event);
 
       return annotation;
@@ -155,15 +346,27 @@ function createMemoryStore(): AFSStore {
 
     updateAnnotation(
       id: string,
-      data: Partial<Omit<Annotation, "id" | "sessionId" | "createdAt">>
+      data: Partial<Omit<Annotation, "id" | "sessionId" | "createdAt" | "version">>,
+      options?: WriteOptions
     ): Annotation | undefined {
       const annotation = annotations.get(id);
       if (!annotation) return undefined;
+      assertVersion(annotation, options?.ifVersion);
+      assertContentLength(data.comment);
 
-      Object.assign(annotation, data, { updatedAt: new Date().toISOString() });
+      const before = { ...annotation };
+      Object.assign(annotation, data, {
+        updatedAt: new Date().toISOString(),
+        version: (annotation.version ?? INITIAL_VERSION) + 1,
+      });
 
       if (annotation.sessionId) {
-        const event = eventBus.emit("annotation.updated", annotation.sessionId, annotation);
+        const event = eventBus.emit(
+          "annotation.updated",
+          annotation.sessionId,
+          { ...annotation },
+          diffAnnotation(before, annotation)
+        );
         events.push(event);
       }
 
@@ -173,13 +376,17 @@ function createMemoryStore(): AFSStore {
     updateAnnotationStatus(
       id: string,
       status: AnnotationStatus,
-      resolvedBy?: "human" | "agent"
+      resolvedBy?: "human" | "agent",
+      options?: WriteOptions
     ): Annotation | undefined {
       const annotation = annotations.get(id);
       if (!annotation) return undefined;
+      assertVersion(annotation, options?.ifVersion);
 
+      const before = { ...annotation };
       annotation.status = status;
       annotation.updatedAt = new Date().toISOString();
+      annotation.version = (annotation.version ?? INITIAL_VERSION) + 1;
 
       if (status === "resolved" || status === "dismissed") {
         annotation.resolvedAt = new Date().toISOString();
@@ -187,7 +394,12 @@ function createMemoryStore(): AFSStore {
       }
 
       if (annotation.sessionId) {
-        const event = eventBus.emit("annotation.updated", annotation.sessionId, annotation);
+        const event = eventBus.emit(
+          "annotation.updated",
+          annotation.sessionId,
+          { ...annotation },
+          diffAnnotation(before, annotation)
+        );
         events.push(event);
       }
 
@@ -197,10 +409,14 @@ function createMemoryStore(): AFSStore {
     addThreadMessage(
       annotationId: string,
       role: "human" | "agent",
-      content: string
+      content: string,
+      options?: WriteOptions
     ): Annotation | undefined {
       const annotation = annotations.get(annotationId);
       if (!annotation) return undefined;
+      assertVersion(annotation, options?.ifVersion);
+      assertThreadRoom(annotation);
+      assertContentLength(content, "content");
 
       const message: ThreadMessage = {
         id: generateId(),
@@ -209,14 +425,12 @@ function createMemoryStore(): AFSStore {
         timestamp: Date.now(),
       };
 
-      if (!annotation.thread) {
-        annotation.thread = [];
-      }
-      annotation.thread.push(message);
+      annotation.thread = [...(annotation.thread ?? []), message];
       annotation.updatedAt = new Date().toISOString();
+      annotation.version = (annotation.version ?? INITIAL_VERSION) + 1;
 
       if (annotation.sessionId) {
-        const event = eventBus.emit("thread.message", annotation.sessionId, message);
+        const event = eventBus.emit("thread.message", annotation.sessionId, { ...message, annotationId });
         events.push(event);
       }
 
@@ -229,17 +443,92 @@ function createMemoryStore(): AFSStore {
       );
     },
 
+    queryPendingAnnotations(query: AnnotationQuery): Page<Annotation> {
+      const pending = Array.from(annotations.values()).filter((a) => a.status === "pending");
+      return applyAnnotationQuery(pending, query, (id) => sessions.get(id));
+    },
+
+    searchAnnotations(query: string, options?: SearchOptions): SearchHit[] {
+      return substringSearch(Array.from(annotations.values()), query, options);
+    },
+
+    importSession(data: SessionWithAnnotations): Session | undefined {
+      data.annotations.forEach(assertAnnotationLimits);
+      if (sessions.has(data.id) || data.annotations.some((a) => annotations.has(a.id))) {
+        return undefined;
+      }
+
+      const { annotations: imported, ...session } = data;
+      sessions.set(session.id, session);
+      for (const annotation of imported) {
+        annotations.set(annotation.id, {
+          ...annotation,
+          sessionId: session.id,
+          version: annotation.version ?? INITIAL_VERSION,
+        });
+      }
+
+      const event = eventBus.emit("session.created", session.id, session);
+      events.push(event);
+
+      return session;
+    },
+
+    mergeSession(data: SessionWithAnnotations): Session | undefined {
+      data.annotations.forEach(assertAnnotationLimits);
+      const { annotations: incoming, ...session } = data;
+      const existing = sessions.get(session.id);
+      if (!existing || isNewerRevision(session, existing)) {
+        sessions.set(session.id, session);
+        const event = eventBus.emit(existing ? "session.updated" : "session.created", session.id, session);
+        events.push(event);
+      }
+
+      for (const annotation of incoming) {
+        const current = annotations.get(annotation.id);
+        // An ID from another session is a collision, not the same annotation
+        if (current && current.sessionId !== session.id) continue;
+        if (current && !isNewerRevision(annotation, current)) continue;
+
+        const merged = { ...annotation, sessionId: session.id, version: annotation.version ?? INITIAL_VERSION };
+        annotations.set(merged.id, merged);
+        const event = current
+          ? eventBus.emit("annotation.updated", session.id, merged, diffAnnotation(current, merged))
+          : eventBus.emit("annotation.created", session.id, merged);
+        events.push(event);
+      }
+
+      return sessions.get(session.id);
+    },
+
+    bulkUpdateAnnotations(operations: BulkOperation[], options?: { atomic?: boolean }): BulkResult {
+      return runBulkOperations(this, operations, options?.atomic ?? false, transaction);
+    },
+
     getSessionAnnotations(sessionId: string): Annotation[] {
       return Array.from(annotations.values()).filter(
         (a) => a.sessionId === sessionId
       );
     },
 
+    countAnnotations(): AnnotationCount[] {
+      const counts = new Map<string, AnnotationCount>();
+      for (const a of annotations.values()) {
+        const status = a.status ?? "pending";
+        const key = `${status}:${a.severity ?? ""}`;
+        const entry = counts.get(key) ?? { status, severity: a.severity, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+      }
+      return Array.from(counts.values());
+    },
+
     deleteAnnotation(id: string): Annotation | undefined {
       const annotation = annotations.get(id);
       if (!annotation) return undefined;
 
       annotations.delete(id);
+      removeAttachments(new Set([id]));
 
       if (annotation.sessionId) {
         const event = eventBus.emit("annotation.deleted", annotation.sessionId, annotation);
@@ -249,16 +538,187 @@ function createMemoryStore(): AFSStore {
       return annotation;
     },
 
+    addAttachment(annotationId: string, input: AttachmentInput): Attachment | undefined {
+      if (!annotations.has(annotationId)) return undefined;
+
+      const attachment: Attachment = {
+        id: generateId(),
+        annotationId,
+        filename: input.filename,
+        contentType: input.contentType,
+        size: input.content.byteLength,
+        createdAt: new Date().toISOString(),
+      };
+      attachments.set(attachment.id, { attachment, content: input.content });
+      return attachment;
+    },
+
+    getAttachment(id: string): Attachment | undefined {
+      return attachments.get(id)?.attachment;
+    },
+
+    getAttachmentContent(id: string): Uint8Array | undefined {
+      return attachments.get(id)?.content;
+    },
+
+    listAttachments(annotationId: string): Attachment[] {
+      return Array.from(attachments.values(), (entry) => entry.attachment).filter(
+        (attachment) => attachment.annotationId === annotationId
+      );
+    },
+
+    deleteAttachment(id: string): Attachment | undefined {
+      const entry = attachments.get(id);
+      attachments.delete(id);
+      return entry?.attachment;
+    },
+
     getEventsSince(sessionId: string, sequence: number): AFSEvent[] {
       return events.filter(
         (e) => e.sessionId === sessionId && e.sequence > sequence
       );
     },
 
+    getEventsSinceGlobal(sequence: number): AFSEvent[] {
+      return events.filter((e) => e.sequence > sequence);
+    },
+
+    getAnnotationEvents(annotationId: string): AFSEvent[] {
+      return events.filter((e) => isAnnotationEvent(e, annotationId));
+    },
+
+    getPrunedSequence(): number {
+      // In-memory events are never pruned
+      return 0;
+    },
+
+    getLastSequence(): number {
+      return events[events.length - 1]?.sequence ?? 0;
+    },
+
+    createWebhookDelivery(
+      data: Pick<WebhookDelivery, "subscriptionId" | "url" | "eventType" | "sessionId" | "payload">
+    ): WebhookDelivery {
+      const delivery: WebhookDelivery = {
+        ...data,
+        id: generateId(),
+        status: "pending",
+        attempts: 0,
+        createdAt: new Date().toISOString(),
+      };
+      webhookDeliveries.set(delivery.id, delivery);
+      return delivery;
+    },
+
+    getWebhookDelivery(id: string): WebhookDelivery | undefined {
+      return webhookDeliveries.get(id);
+    },
+
+    updateWebhookDelivery(
+      id: string,
+      data: Partial<
+        Omit<WebhookDelivery, "id" | "subscriptionId" | "url" | "eventType" | "sessionId" | "payload" | "createdAt">
+      >
+    ): WebhookDelivery | undefined {
+      const delivery = webhookDeliveries.get(id);
+      if (!delivery) return undefined;
+
+      Object.assign(delivery, data, { updatedAt: new Date().toISOString() });
+      return delivery;
+    },
+
+    listWebhookDeliveries(filter?: { status?: WebhookDeliveryStatus; limit?: number }): WebhookDelivery[] {
+      const matching = Array.from(webhookDeliveries.values())
+        .filter((d) => !filter?.status || d.status === filter.status)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      return filter?.limit ? matching.slice(0, filter.limit) : matching;
+    },
+
+    createWebhookSubscription(
+      data: Omit<WebhookSubscription, "id" | "createdAt" | "updatedAt">
+    ): WebhookSubscription {
+      const subscription: WebhookSubscription = {
+        ...data,
+        id: generateId(),
+        createdAt: new Date().toISOString(),
+      };
+      webhookSubscriptions.set(subscription.id, subscription);
+      return subscription;
+    },
+
+    getWebhookSubscription(id: string): WebhookSubscription | undefined {
+      return webhookSubscriptions.get(id);
+    },
+
+    updateWebhookSubscription(
+      id: string,
+      data: Partial<Omit<WebhookSubscription, "id" | "userId" | "createdAt" | "updatedAt">>
+    ): WebhookSubscription | undefined {
+      const subscription = webhookSubscriptions.get(id);
+      if (!subscription) return undefined;
+
+      Object.assign(subscription, data, { updatedAt: new Date().toISOString() });
+      return subscription;
+    },
+
+    deleteWebhookSubscription(id: string): WebhookSubscription | undefined {
+      const subscription = webhookSubscriptions.get(id);
+      if (!subscription) return undefined;
+
+      webhookSubscriptions.delete(id);
+      return subscription;
+    },
+
+    listWebhookSubscriptions(): WebhookSubscription[] {
+      return Array.from(webhookSubscriptions.values());
+    },
+
+    createProject(data: Omit<Project, "id" | "createdAt" | "updatedAt">): Project {
+      const project: Project = {
+        ...data,
+        id: generateId(),
+        createdAt: new Date().toISOString(),
+      };
+      projects.set(project.id, project);
+      return project;
+    },
+
+    getProject(id: string): Project | undefined {
+      return projects.get(id);
+    },
+
+    updateProject(
+      id: string,
+      data: Partial<Omit<Project, "id" | "userId" | "createdAt" | "updatedAt">>
+    ): Project | undefined {
+      const project = projects.get(id);
+      if (!project) return undefined;
+
+      Object.assign(project, data, { updatedAt: new Date().toISOString() });
+      return project;
+    },
+
+    listProjects(): Project[] {
+      return Array.from(projects.values());
+    },
+
+    getReplicationState(): ReplicationState {
+      return { ...replication, pendingSessionDeletes: [...replication.pendingSessionDeletes] };
+    },
+
+    updateReplicationState(data: Partial<Omit<ReplicationState, "replicaId">>): ReplicationState {
+      Object.assign(replication, data);
+      return this.getReplicationState();
+    },
+
     close(): void {
       sessions.clear();
       annotations.clear();
+      attachments.clear();
       events.length = 0;
+      webhookDeliveries.clear();
+      webhookSubscriptions.clear();
+      projects.clear();
     },
   };
 }
@@ -290,10 +750,25 @@ export function updateSessionStatus(id: string, status: SessionStatus): Session
   return getStore().updateSessionStatus(id, status);
 }
 
+export function updateSession(
+  id: string,
+  data: Partial<Pick<Session, "status" | "metadata">>
+): Session | undefined {
+  return getStore().updateSession(id, data);
+}
+
+export function deleteSession(id: string): Session | undefined {
+  return getStore().deleteSession(id);
+}
+
 export function listSessions(): Session[] {
   return getStore().listSessions();
 }
 
+export function querySessions(query: SessionQuery): Page<Session> {
+  return getStore().querySessions(query);
+}
+
 export function addAnnotation(
   sessionId: string,
   data: Omit<Annotation, "id" | "sessionId" | "status" | "createdAt">
@@ -307,35 +782,69 @@ export function getAnnotation(id: string): Annotation | undefined {
 
 export function updateAnnotation(
   id: string,
-  data: Partial<Omit<Annotation, "id" | "sessionId" | "createdAt">>
+  data: Partial<Omit<Annotation, "id" | "sessionId" | "createdAt" | "version">>,
+  options?: WriteOptions
 ): Annotation | undefined {
-  return getStore().updateAnnotation(id, data);
+  return getStore().updateAnnotation(id, data, options);
 }
 
 export function updateAnnotationStatus(
   id: string,
   status: AnnotationStatus,
-  resolvedBy?: "human" | "agent"
+  resolvedBy?: "human" | "agent",
+  options?: WriteOptions
 ): Annotation | undefined {
-  return getStore().updateAnnotationStatus(id, status, resolvedBy);
+  return getStore().updateAnnotationStatus(id, status, resolvedBy, options);
 }
 
 export function addThreadMessage(
   annotationId: string,
   role: "human" | "agent",
-  content: string
+  content: string,
+  options?: WriteOptions
 ): Annotation | undefined {
-  return getStore().addThreadMessage(annotationId, role, content);
+  return getStore().addThreadMessage(annotationId, role, content, options);
+}
+
+export function addAttachment(annotationId: string, input: AttachmentInput): Attachment | undefined {
+  return getStore().addAttachment(annotationId, input);
+}
+
+export function getAttachment(id: string): Attachment | undefined {
+  return getStore().getAttachment(id);
+}
+
+export function listAttachments(annotationId: string): Attachment[] {
+  return getStore().listAttachments(annotationId);
 }
 
 export function getPendingAnnotations(sessionId: string): Annotation[] {
   return getStore().getPendingAnnotations(sessionId);
 }
 
+export function queryPendingAnnotations(query: AnnotationQuery): Page<Annotation> {
+  return getStore().queryPendingAnnotations(query);
+}
+
+export function searchAnnotations(query: string, options?: SearchOptions): SearchHit[] {
+  return getStore().searchAnnotations(query, options);
+}
+
+export function bulkUpdateAnnotations(
+  operations: BulkOperation[],
+  options?: { atomic?: boolean }
+): BulkResult {
+  return getStore().bulkUpdateAnnotations(operations, options);
+}
+
 export function getSessionAnnotations(sessionId: string): Annotation[] {
   return getStore().getSessionAnnotations(sessionId);
 }
 
+export function countAnnotations(): AnnotationCount[] {
+  return getStore().countAnnotations();
+}
+
 export function deleteAnnotation(id: string): Annotation | undefined {
   return getStore().deleteAnnotation(id);
 }
@@ -344,6 +853,25 @@ export function getEventsSince(sessionId: string, sequence: number): AFSEvent[]
   return getStore().getEventsSince(sessionId, sequence);
 }
 
+export function getEventsSinceGlobal(sequence: number): AFSEvent[] {
+  return getStore().getEventsSinceGlobal(sequence);
+}
+
+export function listWebhookDeliveries(filter?: {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}): WebhookDelivery[] {
+  return getStore().listWebhookDeliveries(filter);
+}
+
+export function getWebhookDelivery(id: string): WebhookDelivery | undefined {
+  return getStore().getWebhookDelivery(id);
+}
+
+export function listWebhookSubscriptions(): WebhookSubscription[] {
+  return getStore().listWebhookSubscriptions();
+}
+
 /**
  * Clear all data and reset the store.
  */
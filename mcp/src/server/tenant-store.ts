@@ -11,13 +11,18 @@
  */
 
 import { createHash } from "crypto";
+import { getStore } from "./store.js";
+import { runBulkOperations } from "./bulk.js";
 import type {
+  AFSStore,
+  AFSEvent,
   Organization,
   User,
   UserRole,
   ApiKey,
   UserContext,
   Session,
+  SessionStatus,
   SessionWithAnnotations,
   Annotation,
 } from "../types.js";
@@ -68,6 +73,14 @@ export function resetTenantStore(): void {
   }
 }
 
+/**
+ * Use the given tenant store instead of ~/.agentation/store.db (for testing).
+ */
+export function setTenantStore(store: import("./sqlite.js").TenantStore): void {
+  resetTenantStore();
+  _tenantStore = store;
+}
+
 // -----------------------------------------------------------------------------
 // API Key Utilities
 // -----------------------------------------------------------------------------
@@ -87,6 +100,29 @@ export function isValidApiKeyFormat(key: string): boolean {
   return key.startsWith("sk_live_") && key.length > 20;
 }
 
+/**
+ * Resolve a raw API key to the user it belongs to.
+ * Returns undefined for malformed, unknown, or expired keys, or keys whose
+ * user no longer exists. Records last-used time on success.
+ */
+export function authenticateApiKey(rawKey: string): UserContext | undefined {
+  if (!isValidApiKeyFormat(rawKey)) return undefined;
+
+  const store = getTenantStore();
+  const apiKey = store.getApiKeyByHash(hashApiKey(rawKey));
+  if (!apiKey) return undefined;
+
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now()) {
+    return undefined;
+  }
+
+  const user = store.getUser(apiKey.userId);
+  if (!user) return undefined;
+
+  store.updateApiKeyLastUsed(apiKey.id);
+  return { ...createUserContext(user), apiKeyId: apiKey.id, apiKeyName: apiKey.name };
+}
+
 // -----------------------------------------------------------------------------
 // User Context Utilities
 // -----------------------------------------------------------------------------
@@ -103,6 +139,123 @@ export function createUserContext(user: User): UserContext {
   };
 }
 
+// -----------------------------------------------------------------------------
+// User-Scoped Store
+// -----------------------------------------------------------------------------
+
+/**
+ * Get an AFSStore view restricted to a single user's sessions and annotations.
+ * Lets HTTP handlers use the same code path with or without auth; anything
+ * the user doesn't own reads as "not found".
+ */
+export function getUserStore(userId: string): AFSStore {
+  const tenant = getTenantStore();
+  const ownsSession = (sessionId: string) => !!tenant.getSessionForUser(userId, sessionId);
+
+  return {
+    createSession: (url, projectId) => tenant.createSessionForUser(userId, url, projectId),
+    getSession: (id) => tenant.getSessionForUser(userId, id),
+    getSessionWithAnnotations: (id) => tenant.getSessionWithAnnotationsForUser(userId, id),
+    updateSessionStatus: (id, status: SessionStatus) =>
+      tenant.updateSessionStatusForUser(userId, id, status),
+    updateSession: (id, data) => tenant.updateSessionForUser(userId, id, data),
+    deleteSession: (id) => tenant.deleteSessionForUser(userId, id),
+    listSessions: () => tenant.listSessionsForUser(userId),
+    querySessions: (query) => tenant.querySessionsForUser(userId, query),
+
+    addAnnotation: (sessionId, data) => tenant.addAnnotationForUser(userId, sessionId, data),
+    getAnnotation: (id) => tenant.getAnnotationForUser(userId, id),
+    updateAnnotation: (id, data, options) => tenant.updateAnnotationForUser(userId, id, data, options),
+    updateAnnotationStatus(id, status, resolvedBy, options) {
+      const isResolved = status === "resolved" || status === "dismissed";
+      return tenant.updateAnnotationForUser(
+        userId,
+        id,
+        {
+          status,
+          resolvedAt: isResolved ? new Date().toISOString() : undefined,
+          resolvedBy: isResolved ? (resolvedBy || "agent") : undefined,
+        },
+        options
+      );
+    },
+    addThreadMessage: (annotationId, role, content, options) =>
+      tenant.addThreadMessageForUser(userId, annotationId, role, content, options),
+    getPendingAnnotations: (sessionId) => tenant.getPendingAnnotationsForUser(userId, sessionId),
+    queryPendingAnnotations: (query) => tenant.queryPendingAnnotationsForUser(userId, query),
+    searchAnnotations: (query, options) => tenant.searchAnnotationsForUser(userId, query, options),
+    importSession: (data) => tenant.importSessionForUser(userId, data),
+    mergeSession: (data) => tenant.mergeSessionForUser(userId, data),
+    addAttachment: (annotationId, input) => tenant.addAttachmentForUser(userId, annotationId, input),
+    getAttachment: (id) => tenant.getAttachmentForUser(userId, id),
+    getAttachmentContent: (id) => tenant.getAttachmentContentForUser(userId, id),
+    listAttachments: (annotationId) => tenant.listAttachmentsForUser(userId, annotationId),
+    deleteAttachment: (id) => tenant.deleteAttachmentForUser(userId, id),
+    bulkUpdateAnnotations(operations, options) {
+      return runBulkOperations(this, operations, options?.atomic ?? false, (fn) => tenant.transaction(fn));
+    },
+    getSessionAnnotations: (sessionId) => tenant.getSessionAnnotationsForUser(userId, sessionId),
+    countAnnotations: () => tenant.countAnnotationsForUser(userId),
+    deleteAnnotation: (id) => tenant.deleteAnnotationForUser(userId, id),
+
+    getEventsSince: (sessionId, sequence): AFSEvent[] =>
+      tenant.getEventsSinceForUser(userId, sessionId, sequence),
+    getEventsSinceGlobal: (sequence): AFSEvent[] => tenant.getEventsSinceGlobalForUser(userId, sequence),
+    getAnnotationEvents: (annotationId): AFSEvent[] => tenant.getAnnotationEventsForUser(userId, annotationId),
+    getPrunedSequence: () => tenant.getPrunedSequence(),
+    getLastSequence: () => tenant.getLastSequenceForUser(userId),
+
+    // Deliveries live in the global store; a user only sees their own sessions'
+    createWebhookDelivery: (data) => getStore().createWebhookDelivery(data),
+    getWebhookDelivery(id) {
+      const delivery = getStore().getWebhookDelivery(id);
+      return delivery && ownsSession(delivery.sessionId) ? delivery : undefined;
+    },
+    updateWebhookDelivery(id, data) {
+      return this.getWebhookDelivery(id) ? getStore().updateWebhookDelivery(id, data) : undefined;
+    },
+    listWebhookDeliveries(filter) {
+      const deliveries = getStore()
+        .listWebhookDeliveries({ status: filter?.status })
+        .filter((d) => ownsSession(d.sessionId));
+      return filter?.limit ? deliveries.slice(0, filter.limit) : deliveries;
+    },
+
+    // Subscriptions also live in the global store, tagged with their owner
+    createWebhookSubscription: (data) => getStore().createWebhookSubscription({ ...data, userId }),
+    getWebhookSubscription(id) {
+      const subscription = getStore().getWebhookSubscription(id);
+      return subscription?.userId === userId ? subscription : undefined;
+    },
+    updateWebhookSubscription(id, data) {
+      return this.getWebhookSubscription(id) ? getStore().updateWebhookSubscription(id, data) : undefined;
+    },
+    deleteWebhookSubscription(id) {
+      return this.getWebhookSubscription(id) ? getStore().deleteWebhookSubscription(id) : undefined;
+    },
+    listWebhookSubscriptions: () =>
+      getStore().listWebhookSubscriptions().filter((s) => s.userId === userId),
+
+    // Projects too; the tenant store matches sessions against its owner's
+    createProject: (data) => getStore().createProject({ ...data, userId }),
+    getProject(id) {
+      const project = getStore().getProject(id);
+      return project?.userId === userId ? project : undefined;
+    },
+    updateProject(id, data) {
+      return this.getProject(id) ? getStore().updateProject(id, data) : undefined;
+    },
+    listProjects: () => getStore().listProjects().filter((p) => p.userId === userId),
+
+    // Replication is server-wide
+    getReplicationState: () => getStore().getReplicationState(),
+    updateReplicationState: (data) => getStore().updateReplicationState(data),
+
+    // The tenant store is shared; closing a user view must not close it
+    close(): void {},
+  };
+}
+
 // -----------------------------------------------------------------------------
 // Convenience Exports (delegate to singleton)
 // -----------------------------------------------------------------------------
@@ -196,3 +349,10 @@ export function getPendingAnnotationsForUser(
 export function getAllPendingForUser(userId: string): Annotation[] {
   return getTenantStore().getAllPendingForUser(userId);
 }
+
+export function getAnnotationForUser(
+  userId: string,
+  annotationId: string
+): Annotation | undefined {
+  return getTenantStore().getAnnotationForUser(userId, annotationId);
+}
@@ -0,0 +1,205 @@
+/**
+ * TLS credentials for the HTTP server.
+ *
+ * Either PEM files supplied by the user, or a self-signed certificate
+ * generated on first use and cached under ~/.agentation/tls. The generated
+ * certificate covers localhost, this machine's hostname and its current
+ * network addresses, so phones and tablets on the LAN can connect once
+ * they trust it. It is regenerated when it nears expiry or the machine's
+ * addresses change.
+ *
+ * Node can create key pairs but not certificates, so the X.509 structure
+ * is DER-encoded here directly (ECDSA P-256, SHA-256).
+ */
+
+import { X509Certificate, createPrivateKey, generateKeyPairSync, randomBytes, sign } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { isIPv4, isIPv6 } from "net";
+import { homedir, hostname, networkInterfaces } from "os";
+import { join } from "path";
+
+export type TlsCredentials = { cert: string; key: string };
+
+const CERT_VALIDITY_DAYS = 365;
+// Regenerate a cached certificate this close to expiry
+const RENEW_BEFORE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read a user-supplied PEM certificate and private key.
+ * Throws if either file is unreadable or they are not PEM.
+ */
+export function loadTlsCredentials(certPath: string, keyPath: string): TlsCredentials {
+  const cert = readFileSync(certPath, "utf-8");
+  const key = readFileSync(keyPath, "utf-8");
+  // Fail at startup rather than on the first handshake
+  new X509Certificate(cert);
+  createPrivateKey(key);
+  return { cert, key };
+}
+
+/**
+ * Names and addresses the server can be reached at: localhost, the
+ * hostname, every non-internal interface address, and `host` when it is a
+ * specific bind address.
+ */
+export function localServerNames(host?: string): string[] {
+  const names = new Set(["localhost", hostname(), "127.0.0.1", "::1"]);
+  for (const addresses of Object.values(networkInterfaces())) {
+    for (const address of addresses ?? []) {
+      if (!address.internal && !address.address.includes("%")) names.add(address.address);
+    }
+  }
+  if (host && host !== "0.0.0.0" && host !== "::") names.add(host);
+  return Array.from(names);
+}
+
+/**
+ * Load the cached self-signed certificate, generating a new one if there
+ * is none, it is about to expire, or it doesn't cover every name in
+ * `names`.
+ */
+export function getSelfSignedCredentials(names: string[]): TlsCredentials {
+  const dir = join(homedir(), ".agentation", "tls");
+  const certPath = join(dir, "cert.pem");
+  const keyPath = join(dir, "key.pem");
+
+  if (existsSync(certPath) && existsSync(keyPath)) {
+    const cached = { cert: readFileSync(certPath, "utf-8"), key: readFileSync(keyPath, "utf-8") };
+    try {
+      const cert = new X509Certificate(cached.cert);
+      const fresh = new Date(cert.validTo).getTime() - Date.now() > RENEW_BEFORE_DAYS * DAY_MS;
+      const covered = names.every((name) =>
+        isIPv4(name) || isIPv6(name) ? cert.checkIP(name) !== undefined : cert.checkHost(name) !== undefined
+      );
+      if (fresh && covered) return cached;
+    } catch {
+      // Unreadable; replace it
+    }
+  }
+
+  const credentials = generateSelfSignedCertificate(names);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(keyPath, credentials.key, { mode: 0o600 });
+  writeFileSync(certPath, credentials.cert);
+  console.log(`[TLS] Generated self-signed certificate for ${names.join(", ")} (${certPath})`);
+  return credentials;
+}
+
+/**
+ * Create a self-signed server certificate valid for the given DNS names
+ * and IP addresses.
+ */
+export function generateSelfSignedCertificate(names: string[]): TlsCredentials {
+  const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+
+  const name = seq(set(seq(oid("2.5.4.3"), tlv(0x0c, Buffer.from("Agentation local server")))));
+  const notBefore = new Date(Date.now() - DAY_MS);
+  const notAfter = new Date(Date.now() + CERT_VALIDITY_DAYS * DAY_MS);
+
+  // Serial: positive 16-byte integer
+  const serial = randomBytes(16);
+  serial[0] &= 0x7f;
+
+  const altNames = names.flatMap((entry) => {
+    const ip = ipBytes(entry);
+    if (ip) return [tlv(0x87, ip)]; // [7] iPAddress
+    if (isIPv4(entry) || isIPv6(entry)) return [];
+    return [tlv(0x82, Buffer.from(entry, "ascii"))]; // [2] dNSName
+  });
+
+  const extensions = seq(
+    extension("2.5.29.17", seq(...altNames)), // subjectAltName
+    extension("2.5.29.37", seq(oid("1.3.6.1.5.5.7.3.1"))), // extKeyUsage: serverAuth
+    extension("2.5.29.19", seq()) // basicConstraints: not a CA
+  );
+
+  const signatureAlgorithm = seq(oid("1.2.840.10045.4.3.2")); // ecdsa-with-SHA256
+  const tbsCertificate = seq(
+    tlv(0xa0, integer(Buffer.from([2]))), // [0] version: v3
+    integer(serial),
+    signatureAlgorithm,
+    name,
+    seq(utcTime(notBefore), utcTime(notAfter)),
+    name,
+    publicKey.export({ type: "spki", format: "der" }),
+    tlv(0xa3, extensions) // [3] extensions
+  );
+  const signature = sign("sha256", tbsCertificate, privateKey);
+  const certificate = seq(tbsCertificate, signatureAlgorithm, tlv(0x03, Buffer.concat([Buffer.from([0]), signature])));
+
+  const base64 = certificate.toString("base64").replace(/.{1,64}/g, "$&\n");
+  return {
+    cert: `-----BEGIN CERTIFICATE-----\n${base64}-----END CERTIFICATE-----\n`,
+    key: privateKey.export({ type: "pkcs8", format: "pem" }) as string,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// DER Encoding
+// -----------------------------------------------------------------------------
+
+function tlv(tag: number, content: Buffer): Buffer {
+  let length: Buffer;
+  if (content.length < 0x80) {
+    length = Buffer.from([content.length]);
+  } else {
+    const bytes: number[] = [];
+    for (let n = content.length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+    length = Buffer.from([0x80 | bytes.length, ...bytes]);
+  }
+  return Buffer.concat([Buffer.from([tag]), length, content]);
+}
+
+function seq(...items: Buffer[]): Buffer {
+  return tlv(0x30, Buffer.concat(items));
+}
+
+function set(...items: Buffer[]): Buffer {
+  return tlv(0x31, Buffer.concat(items));
+}
+
+function integer(bytes: Buffer): Buffer {
+  return tlv(0x02, bytes);
+}
+
+function oid(dotted: string): Buffer {
+  const [first, second, ...rest] = dotted.split(".").map(Number);
+  const bytes = [first * 40 + second];
+  for (const part of rest) {
+    const encoded = [part & 0x7f];
+    for (let n = part >> 7; n > 0; n >>= 7) encoded.unshift((n & 0x7f) | 0x80);
+    bytes.push(...encoded);
+  }
+  return tlv(0x06, Buffer.from(bytes));
+}
+
+function utcTime(date: Date): Buffer {
+  // YYMMDDHHMMSSZ
+  const text = date.toISOString().replace(/[-:T]/g, "").slice(2, 14) + "Z";
+  return tlv(0x17, Buffer.from(text, "ascii"));
+}
+
+function extension(id: string, value: Buffer): Buffer {
+  return seq(oid(id), tlv(0x04, value));
+}
+
+function ipBytes(address: string): Buffer | undefined {
+  if (isIPv4(address)) {
+    return Buffer.from(address.split(".").map(Number));
+  }
+  // Skip IPv4-mapped forms like ::ffff:1.2.3.4
+  if (!isIPv6(address) || address.includes(".")) return undefined;
+
+  const [head, tail] = address.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill("0"), ...tailGroups];
+
+  const bytes = Buffer.alloc(16);
+  groups.forEach((group, i) => bytes.writeUInt16BE(parseInt(group, 16), i * 2));
+  return bytes;
+}
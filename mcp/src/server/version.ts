@@ -0,0 +1,7 @@
+// Replaced with package.json's version by tsup (see tsup.config.ts)
+declare const __VERSION__: string;
+
+/**
+ * Package version; "dev" when running from source without a build.
+ */
+export const VERSION: string = typeof __VERSION__ === "undefined" ? "dev" : __VERSION__;
@@ -0,0 +1,49 @@
+/**
+ * Optimistic concurrency for annotations.
+ *
+ * Every annotation carries a `version` that the stores bump on each write.
+ * Writers that pass `ifVersion` (from an HTTP If-Match header) are rejected
+ * with a VersionConflictError if someone else changed the annotation first.
+ */
+
+import type { Annotation } from "../types.js";
+
+/**
+ * Version given to new annotations, and to rows written before versioning.
+ */
+export const INITIAL_VERSION = 1;
+
+export class VersionConflictError extends Error {
+  constructor(
+    readonly annotationId: string,
+    readonly expectedVersion: number,
+    readonly currentVersion: number
+  ) {
+    super(`Annotation ${annotationId} is at version ${currentVersion}, not ${expectedVersion}`);
+    this.name = "VersionConflictError";
+  }
+}
+
+/**
+ * Throw if `expected` is set and does not match the annotation's version.
+ */
+export function assertVersion(annotation: Annotation, expected: number | undefined): void {
+  const current = annotation.version ?? INITIAL_VERSION;
+  if (expected !== undefined && expected !== current) {
+    throw new VersionConflictError(annotation.id, expected, current);
+  }
+}
+
+/**
+ * Whether `incoming` is a later revision than `current`, for merging
+ * copies of a record from another replica: by updatedAt (or createdAt),
+ * then by version. Ties keep `current`.
+ */
+export function isNewerRevision(
+  incoming: { updatedAt?: string; createdAt?: string; version?: number },
+  current: { updatedAt?: string; createdAt?: string; version?: number }
+): boolean {
+  const time = (record: typeof incoming) => Date.parse(record.updatedAt ?? record.createdAt ?? "") || 0;
+  if (time(incoming) !== time(current)) return time(incoming) > time(current);
+  return (incoming.version ?? INITIAL_VERSION) > (current.version ?? INITIAL_VERSION);
+}
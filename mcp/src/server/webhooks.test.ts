@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createHmac } from "crypto";
+import { sendWebhooks, signWebhookPayload } from "./webhooks.js";
+import { clearAll, getWebhookDelivery } from "./store.js";
+
+process.env.AGENTATION_STORE = "memory";
+
+const HOOK_URL = "https://example.com/hook";
+
+function respondWith(status: number) {
+  const fetchMock = vi.fn(async () => new Response(null, { status }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function queueDelivery(body: unknown = { type: "annotation.created" }) {
+  const [delivery] = sendWebhooks([HOOK_URL], "annotation.created", "session-1", body);
+  return delivery.id;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  clearAll();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+// =============================================================================
+// signWebhookPayload
+// =============================================================================
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", "s3cret").update('1700000000.{"a":1}').digest("hex");
+
+    expect(signWebhookPayload('{"a":1}', "1700000000", "s3cret")).toBe(`sha256=${expected}`);
+  });
+
+  it("changes when the timestamp, body or secret changes", () => {
+    const base = signWebhookPayload("{}", "1", "secret");
+
+    expect(signWebhookPayload("{}", "2", "secret")).not.toBe(base);
+    expect(signWebhookPayload("[]", "1", "secret")).not.toBe(base);
+    expect(signWebhookPayload("{}", "1", "other")).not.toBe(base);
+  });
+
+  it("is sent with each delivery when a secret is configured", async () => {
+    vi.stubEnv("AGENTATION_WEBHOOK_SECRET", "s3cret");
+    const fetchMock = respondWith(200);
+
+    const id = queueDelivery({ hello: "world" });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(init.body).toBe('{"hello":"world"}');
+    expect(headers["X-Agentation-Delivery"]).toBe(id);
+    expect(headers["X-Agentation-Signature"]).toBe(
+      signWebhookPayload('{"hello":"world"}', headers["X-Agentation-Timestamp"], "s3cret")
+    );
+  });
+
+  it("is omitted without a secret", async () => {
+    const fetchMock = respondWith(200);
+
+    queueDelivery();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.headers).not.toHaveProperty("X-Agentation-Signature");
+  });
+});
+
+// =============================================================================
+// Retry schedule
+// =============================================================================
+
+describe("webhook retries", () => {
+  it("backs off exponentially and gives up after the max attempts", async () => {
+    vi.stubEnv("AGENTATION_WEBHOOK_MAX_ATTEMPTS", "3");
+    const fetchMock = respondWith(503);
+
+    const id = queueDelivery();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(getWebhookDelivery(id)).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      lastStatusCode: 503,
+      nextAttemptAt: new Date(Date.now() + 1000).toISOString(),
+    });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(getWebhookDelivery(id)).toMatchObject({
+      status: "pending",
+      attempts: 2,
+      nextAttemptAt: new Date(Date.now() + 2000).toISOString(),
+    });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(getWebhookDelivery(id)).toMatchObject({ status: "failed", attempts: 3, nextAttemptAt: undefined });
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it.each([408, 429, 500])("retries a %i response", async (status) => {
+    const fetchMock = respondWith(status);
+
+    const id = queueDelivery();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(getWebhookDelivery(id)?.status).toBe("pending");
+  });
+
+  it("retries network errors", async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new Error("connect ECONNREFUSED");
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const id = queueDelivery();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(getWebhookDelivery(id)).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      lastError: "connect ECONNREFUSED",
+    });
+  });
+
+  it("does not retry other client errors", async () => {
+    const fetchMock = respondWith(400);
+
+    const id = queueDelivery();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(getWebhookDelivery(id)).toMatchObject({ status: "failed", attempts: 1, lastStatusCode: 400 });
+  });
+
+  it("stops retrying once a delivery succeeds", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 502 }))
+      .mockResolvedValue(new Response(null, { status: 204 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const id = queueDelivery();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(getWebhookDelivery(id)).toMatchObject({ status: "succeeded", attempts: 2, lastStatusCode: 204 });
+  });
+});
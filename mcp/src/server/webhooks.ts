@@ -0,0 +1,396 @@
+/**
+ * Webhook delivery.
+ *
+ * Webhooks come from two places: env-configured URLs (action.requested only)
+ * and subscriptions managed through the REST API, which receive any event
+ * type they list. Each delivery is recorded in the store, signed with
+ * HMAC-SHA256 when a secret is configured, and retried with exponential
+ * backoff until it succeeds or runs out of attempts.
+ */
+
+import { createHmac } from "crypto";
+import { getStore } from "./store.js";
+import { getTenantStore } from "./tenant-store.js";
+import { eventBus, userEventBus, AFS_EVENT_TYPES } from "./events.js";
+import { recordWebhookAttempt, recordWebhookDelivery } from "./metrics.js";
+import type {
+  AFSEvent,
+  AFSEventType,
+  Annotation,
+  AnnotationSeverity,
+  Session,
+  WebhookDelivery,
+  WebhookSubscription,
+} from "../types.js";
+
+// Base delay before the first retry; doubles on each subsequent attempt
+const RETRY_BASE_DELAY_MS = 1000;
+// Per-attempt request timeout
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Pending retry timers by delivery ID
+const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+// -----------------------------------------------------------------------------
+// Configuration
+// -----------------------------------------------------------------------------
+
+/**
+ * Get configured webhook URLs from environment variables.
+ *
+ * Supports:
+ * - AGENTATION_WEBHOOK_URL: Single webhook URL
+ * - AGENTATION_WEBHOOKS: Comma-separated list of webhook URLs
+ */
+export function getWebhookUrls(): string[] {
+  const urls: string[] = [];
+
+  // Single webhook URL
+  const singleUrl = process.env.AGENTATION_WEBHOOK_URL;
+  if (singleUrl) {
+    urls.push(singleUrl.trim());
+  }
+
+  // Multiple webhook URLs (comma-separated)
+  const multipleUrls = process.env.AGENTATION_WEBHOOKS;
+  if (multipleUrls) {
+    const parsed = multipleUrls
+      .split(",")
+      .map((url) => url.trim())
+      .filter((url) => url.length > 0);
+    urls.push(...parsed);
+  }
+
+  return urls;
+}
+
+function getWebhookSecret(): string | undefined {
+  return process.env.AGENTATION_WEBHOOK_SECRET || undefined;
+}
+
+function getMaxAttempts(): number {
+  const parsed = parseInt(process.env.AGENTATION_WEBHOOK_MAX_ATTEMPTS || "5", 10);
+  return isNaN(parsed) || parsed < 1 ? 5 : parsed;
+}
+
+// -----------------------------------------------------------------------------
+// Signing
+// -----------------------------------------------------------------------------
+
+/**
+ * Compute the X-Agentation-Signature header value.
+ *
+ * The signed string is `${timestamp}.${body}` so receivers can reject
+ * replays by checking X-Agentation-Timestamp against their own clock.
+ */
+export function signWebhookPayload(payload: string, timestamp: string, secret: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+// -----------------------------------------------------------------------------
+// Delivery
+// -----------------------------------------------------------------------------
+
+/**
+ * Whether a failed attempt is worth retrying.
+ * Network errors, timeouts, rate limits and server errors are; other
+ * client errors mean the receiver rejected the payload.
+ */
+function isRetryable(statusCode: number | undefined): boolean {
+  return statusCode === undefined || statusCode >= 500 || statusCode === 408 || statusCode === 429;
+}
+
+function scheduleAttempt(id: string, delayMs: number): void {
+  const existing = retryTimers.get(id);
+  if (existing) clearTimeout(existing);
+
+  const timer = setTimeout(() => {
+    retryTimers.delete(id);
+    attemptDelivery(id).catch((err) => {
+      console.error(`[Webhook] Delivery ${id} crashed:`, (err as Error).message);
+    });
+  }, delayMs);
+  // Don't keep the process alive just for retries
+  timer.unref?.();
+  retryTimers.set(id, timer);
+}
+
+/**
+ * Make one delivery attempt and record the outcome.
+ */
+async function attemptDelivery(id: string): Promise<void> {
+  const store = getStore();
+  const delivery = store.getWebhookDelivery(id);
+  if (!delivery || delivery.status !== "pending") return;
+
+  const attempts = delivery.attempts + 1;
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "Agentation-Webhook/1.0",
+    "X-Agentation-Event": delivery.eventType,
+    "X-Agentation-Delivery": delivery.id,
+    "X-Agentation-Timestamp": timestamp,
+  };
+  const subscription = delivery.subscriptionId
+    ? store.getWebhookSubscription(delivery.subscriptionId)
+    : undefined;
+  const secret = subscription?.secret ?? getWebhookSecret();
+  if (secret) {
+    headers["X-Agentation-Signature"] = signWebhookPayload(delivery.payload, timestamp, secret);
+  }
+
+  let statusCode: number | undefined;
+  let errorMessage: string | undefined;
+  try {
+    const res = await fetch(delivery.url, {
+      method: "POST",
+      headers,
+      body: delivery.payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    statusCode = res.status;
+    if (!res.ok) {
+      errorMessage = `${res.status} ${res.statusText}`;
+    }
+  } catch (err) {
+    errorMessage = (err as Error).message;
+  }
+
+  const succeeded = statusCode !== undefined && !errorMessage;
+  recordWebhookAttempt(succeeded);
+
+  if (succeeded) {
+    recordWebhookDelivery("succeeded");
+    store.updateWebhookDelivery(id, {
+      status: "succeeded",
+      attempts,
+      lastStatusCode: statusCode,
+      lastError: undefined,
+      nextAttemptAt: undefined,
+      deliveredAt: new Date().toISOString(),
+    });
+    console.log(`[Webhook] POST ${delivery.url} -> ${statusCode} (attempt ${attempts})`);
+    return;
+  }
+
+  const maxAttempts = getMaxAttempts();
+  if (isRetryable(statusCode) && attempts < maxAttempts) {
+    const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+    store.updateWebhookDelivery(id, {
+      attempts,
+      lastStatusCode: statusCode,
+      lastError: errorMessage,
+      nextAttemptAt: new Date(Date.now() + delayMs).toISOString(),
+    });
+    console.warn(
+      `[Webhook] POST ${delivery.url} failed (attempt ${attempts}/${maxAttempts}): ${errorMessage}. Retrying in ${delayMs}ms`
+    );
+    scheduleAttempt(id, delayMs);
+    return;
+  }
+
+  recordWebhookDelivery("failed");
+  store.updateWebhookDelivery(id, {
+    status: "failed",
+    attempts,
+    lastStatusCode: statusCode,
+    lastError: errorMessage,
+    nextAttemptAt: undefined,
+  });
+  console.error(`[Webhook] POST ${delivery.url} failed permanently after ${attempts} attempt(s): ${errorMessage}`);
+}
+
+/**
+ * Record and dispatch a webhook delivery to each URL.
+ * Returns immediately; attempts and retries run in the background.
+ */
+export function sendWebhooks(
+  urls: string[],
+  eventType: AFSEventType,
+  sessionId: string,
+  body: unknown
+): WebhookDelivery[] {
+  if (urls.length === 0) {
+    return [];
+  }
+
+  const store = getStore();
+  const payload = JSON.stringify(body);
+  const deliveries = urls.map((url) =>
+    store.createWebhookDelivery({ url, eventType, sessionId, payload })
+  );
+
+  for (const delivery of deliveries) {
+    scheduleAttempt(delivery.id, 0);
+  }
+
+  console.log(`[Webhook] Queued ${deliveries.length} webhook(s) for ${eventType} on session ${sessionId}`);
+  return deliveries;
+}
+
+// -----------------------------------------------------------------------------
+// Subscriptions
+// -----------------------------------------------------------------------------
+
+/**
+ * Validate subscription fields from a request body.
+ * With `partial`, only the fields present are checked (for PATCH).
+ * Returns an error message, or undefined if valid.
+ */
+export function validateSubscriptionInput(
+  data: Partial<WebhookSubscription>,
+  partial = false
+): string | undefined {
+  if (!partial || data.url !== undefined) {
+    try {
+      const { protocol } = new URL(data.url ?? "");
+      if (protocol !== "http:" && protocol !== "https:") {
+        return "url must be an http(s) URL";
+      }
+    } catch {
+      return "url must be an http(s) URL";
+    }
+  }
+
+  if (!partial || data.events !== undefined) {
+    if (!Array.isArray(data.events) || data.events.length === 0) {
+      return "events must be a non-empty array of event types";
+    }
+    const unknown = data.events.filter((type) => !AFS_EVENT_TYPES.includes(type));
+    if (unknown.length > 0) {
+      return `Unknown event type(s): ${unknown.join(", ")}`;
+    }
+  }
+
+  if (data.severities !== undefined) {
+    const valid: AnnotationSeverity[] = ["blocking", "important", "suggestion"];
+    if (!Array.isArray(data.severities) || data.severities.some((s) => !valid.includes(s))) {
+      return "severities must be an array of blocking, important, or suggestion";
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the session an event belongs to, for project/domain filtering.
+ */
+function lookupSession(event: AFSEvent, userId: string | undefined): Session | undefined {
+  if (event.type.startsWith("session.")) {
+    return event.payload as Session;
+  }
+  return userId
+    ? getTenantStore().getSessionForUser(userId, event.sessionId)
+    : getStore().getSession(event.sessionId);
+}
+
+function matchesSubscription(
+  subscription: WebhookSubscription,
+  event: AFSEvent,
+  userId: string | undefined
+): boolean {
+  if (!subscription.active) return false;
+  // Tenant events only go to their owner's subscriptions, and vice versa
+  if (subscription.userId !== userId) return false;
+  if (!subscription.events.includes(event.type)) return false;
+
+  if (subscription.severities?.length) {
+    if (!event.type.startsWith("annotation.")) return false;
+    const severity = (event.payload as Annotation).severity;
+    if (!severity || !subscription.severities.includes(severity)) return false;
+  }
+
+  if (subscription.projectId || subscription.domain) {
+    const session = lookupSession(event, userId);
+    if (!session) return false;
+    if (subscription.projectId && session.projectId !== subscription.projectId) return false;
+    if (subscription.domain) {
+      try {
+        if (new URL(session.url).host !== subscription.domain) return false;
+      } catch {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Queue a delivery of the event to every matching subscription.
+ */
+function dispatchEvent(event: AFSEvent, userId: string | undefined): void {
+  const store = getStore();
+  const matching = store
+    .listWebhookSubscriptions()
+    .filter((subscription) => matchesSubscription(subscription, event, userId));
+  if (matching.length === 0) return;
+
+  const payload = JSON.stringify(event);
+  for (const subscription of matching) {
+    const delivery = store.createWebhookDelivery({
+      subscriptionId: subscription.id,
+      url: subscription.url,
+      eventType: event.type,
+      sessionId: event.sessionId,
+      payload,
+    });
+    scheduleAttempt(delivery.id, 0);
+  }
+}
+
+/**
+ * Fan out every emitted event (global and per-user) to matching subscriptions.
+ * Returns an unsubscribe function.
+ */
+export function startWebhookDispatcher(): () => void {
+  const guard = (event: AFSEvent, userId: string | undefined) => {
+    try {
+      dispatchEvent(event, userId);
+    } catch (err) {
+      console.error("[Webhook] Dispatch failed:", (err as Error).message);
+    }
+  };
+
+  const unsubscribeGlobal = eventBus.subscribe((event) => guard(event, undefined));
+  const unsubscribeUsers = userEventBus.subscribeAllUsers((userId, event) => guard(event, userId));
+
+  return () => {
+    unsubscribeGlobal();
+    unsubscribeUsers();
+  };
+}
+
+/**
+ * Resend an existing delivery with its original payload.
+ * Restarts the retry cycle from the first attempt.
+ */
+export function redeliverWebhook(id: string): WebhookDelivery | undefined {
+  const delivery = getStore().updateWebhookDelivery(id, {
+    status: "pending",
+    attempts: 0,
+    lastError: undefined,
+    nextAttemptAt: undefined,
+    deliveredAt: undefined,
+  });
+  if (!delivery) return undefined;
+
+  scheduleAttempt(id, 0);
+  return delivery;
+}
+
+/**
+ * Reschedule deliveries that were still pending when the server stopped.
+ */
+export function resumePendingWebhooks(): void {
+  const pending = getStore().listWebhookDeliveries({ status: "pending" });
+  for (const delivery of pending) {
+    const dueAt = delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt).getTime() : Date.now();
+    scheduleAttempt(delivery.id, Math.max(0, dueAt - Date.now()));
+  }
+  if (pending.length > 0) {
+    console.log(`[Webhook] Resumed ${pending.length} pending deliver${pending.length === 1 ? "y" : "ies"}`);
+  }
+}
@@ -34,6 +34,8 @@ export type Annotation = {
   resolvedAt?: string;
   resolvedBy?: "human" | "agent";
   authorId?: string;
+  assigneeId?: string; // User ID or agent name responsible for it
+  version?: number; // Starts at 1, incremented on every server-side change
 };
 
 // -----------------------------------------------------------------------------
@@ -42,7 +44,7 @@ export type Annotation = {
 
 export type AnnotationIntent = "fix" | "change" | "question" | "approve";
 export type AnnotationSeverity = "blocking" | "important" | "suggestion";
-export type AnnotationStatus = "pending" | "acknowledged" | "resolved" | "dismissed";
+export type AnnotationStatus = "pending" | "acknowledged" | "awaiting_human" | "resolved" | "dismissed";
 
 // -----------------------------------------------------------------------------
 // Session
@@ -96,18 +98,247 @@ export type ActionRequest = {
   timestamp: string;
 };
 
+// thread.message payload: the message and the annotation it was added to
+export type ThreadMessageEvent = ThreadMessage & { annotationId: string };
+
 export type AFSEvent = {
   type: AFSEventType;
   timestamp: string; // ISO 8601
   sessionId: string;
   sequence: number; // Monotonic for ordering/dedup/replay
-  payload: Annotation | Session | ThreadMessage | ActionRequest;
+  payload: Annotation | Session | ThreadMessage | ThreadMessageEvent | ActionRequest;
+  origin?: string; // Client that caused it (X-Agentation-Origin header), if it said
+  changes?: FieldChange[]; // annotation.updated: the fields that changed
+  actor?: EventActor; // Authenticated user whose request caused it
+};
+
+export type FieldChange = {
+  field: string;
+  from?: unknown; // Omitted when the field was unset
+  to?: unknown; // Omitted when the field was cleared
+};
+
+export type EventActor = {
+  userId: string;
+  apiKeyId?: string; // Key the request authenticated with
+  apiKeyName?: string;
+};
+
+/**
+ * Server-side filter for event streams. Every set field must match.
+ */
+export type EventFilter = {
+  types?: AFSEventType[];
+  status?: AnnotationStatus[]; // Only annotation.* events can match
+  severity?: AnnotationSeverity[]; // Only annotation.* events can match
+  assignee?: string[]; // Only annotation.* events can match; "none" matches unassigned
+  projectId?: string;
+  domain?: string; // Exact host of the session URL
+  excludeOrigin?: string; // Drop events caused by this origin
 };
 
 // -----------------------------------------------------------------------------
-// Store Interface
+// Queries (filtering, sorting, cursor pagination)
+// -----------------------------------------------------------------------------
+
+export type SessionSort = "createdAt" | "-createdAt" | "updatedAt" | "-updatedAt";
+export type AnnotationSort = SessionSort | "severity" | "-severity";
+
+export type SessionQuery = {
+  status?: SessionStatus[];
+  projectId?: string;
+  url?: string; // Substring of the session URL
+  domain?: string; // Exact host of the session URL (e.g. "localhost:3000")
+  since?: string; // ISO 8601, inclusive, on createdAt
+  until?: string; // ISO 8601, exclusive, on createdAt
+  sort?: SessionSort; // Default: -createdAt
+  cursor?: string; // Opaque, from a previous page's nextCursor
+  limit?: number;
+};
+
+export type AnnotationQuery = {
+  sessionId?: string;
+  sessionStatus?: SessionStatus[];
+  projectId?: string;
+  url?: string; // Substring of the session URL
+  domain?: string; // Exact host of the session URL
+  intent?: AnnotationIntent[];
+  severity?: AnnotationSeverity[];
+  assignee?: string[]; // "none" matches unassigned
+  since?: string; // ISO 8601, inclusive, on createdAt
+  until?: string; // ISO 8601, exclusive, on createdAt
+  sort?: AnnotationSort; // Default: createdAt
+  cursor?: string;
+  limit?: number;
+};
+
+export type Page<T> = {
+  items: T[];
+  total: number; // All matches, ignoring cursor and limit
+  nextCursor?: string; // Present when more results follow
+};
+
+// -----------------------------------------------------------------------------
+// Search
+// -----------------------------------------------------------------------------
+
+export type SearchOptions = {
+  sessionId?: string;
+  limit?: number; // Default 20
+};
+
+export type SearchHit = {
+  annotation: Annotation;
+  score: number; // Higher is more relevant
+  snippet: string; // Best-matching excerpt, matches wrapped in <mark></mark>
+};
+
+export type AnnotationCount = {
+  status: AnnotationStatus;
+  severity?: AnnotationSeverity; // Undefined counts annotations without one
+  count: number;
+};
+
+// -----------------------------------------------------------------------------
+// Attachments
+// -----------------------------------------------------------------------------
+
+export type Attachment = {
+  id: string;
+  annotationId: string;
+  filename: string;
+  contentType: string; // MIME type, e.g. "image/png"
+  size: number; // Bytes
+  createdAt: string;
+};
+
+export type AttachmentInput = {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+};
+
+// -----------------------------------------------------------------------------
+// Optimistic Concurrency
+// -----------------------------------------------------------------------------
+
+export type WriteOptions = {
+  ifVersion?: number; // Reject the write unless the annotation is at this version
+};
+
+// -----------------------------------------------------------------------------
+// Bulk Operations
 // -----------------------------------------------------------------------------
 
+export type BulkOperation =
+  | { op: "status"; id: string; status: AnnotationStatus; resolvedBy?: "human" | "agent" }
+  | {
+      op: "update";
+      id: string;
+      severity?: AnnotationSeverity;
+      intent?: AnnotationIntent;
+      assigneeId?: string | null; // null unassigns
+    }
+  | { op: "reply"; id: string; role: "human" | "agent"; content: string }
+  | { op: "delete"; id: string };
+
+export type BulkOperationResult = {
+  index: number;
+  op: BulkOperation["op"];
+  id: string;
+  ok: boolean;
+  annotation?: Annotation; // After the change; the deleted annotation for "delete"
+  error?: string;
+};
+
+export type BulkResult = {
+  atomic: boolean;
+  committed: boolean; // False if an atomic batch was rolled back
+  applied: number;
+  failed: number;
+  results: BulkOperationResult[];
+};
+
+// -----------------------------------------------------------------------------
+// Webhook Deliveries
+// -----------------------------------------------------------------------------
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export type WebhookSubscription = {
+  id: string;
+  url: string;
+  events: AFSEventType[]; // Event types this subscription receives
+  projectId?: string; // Only events from sessions in this project
+  domain?: string; // Only events from sessions on this host (e.g. "localhost:3000")
+  severities?: AnnotationSeverity[]; // Only annotation events with these severities
+  secret?: string; // Overrides AGENTATION_WEBHOOK_SECRET for this subscription
+  active: boolean;
+  userId?: string; // Owner when created through an authenticated request
+  createdAt: string;
+  updatedAt?: string;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  subscriptionId?: string; // Unset for env-configured webhooks
+  url: string;
+  eventType: AFSEventType;
+  sessionId: string;
+  payload: string; // Exact JSON body that is signed and sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastStatusCode?: number;
+  lastError?: string;
+  nextAttemptAt?: string; // Set while a retry is scheduled
+  createdAt: string;
+  updatedAt?: string;
+  deliveredAt?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Projects
+// -----------------------------------------------------------------------------
+
+export type Project = {
+  id: string;
+  name: string;
+  urlPatterns: string[]; // Sessions on matching URLs join this project ("*" wildcards, e.g. "http://localhost:3000/*")
+  allowedOrigins?: string[]; // Browser origins allowed to call the server for this project
+  defaultSeverity?: AnnotationSeverity; // Applied to new annotations that don't set one
+  routing?: RoutingRule[]; // First matching rule assigns new annotations that don't name an assignee
+  repoPath?: string; // Local checkout agents should work in
+  userId?: string; // Owner when created through an authenticated request
+  createdAt: string;
+  updatedAt?: string;
+};
+
+/**
+ * Assigns a new annotation when every condition it sets matches. A rule
+ * needs at least one condition, unless it is marked as the fallback that
+ * matches everything.
+ */
+export type RoutingRule = {
+  assignee: string;
+  components?: string; // "*" glob against reactComponents, e.g. "*<Checkout*"
+  elementPath?: string; // "*" glob against elementPath
+  severity?: AnnotationSeverity[];
+  fallback?: boolean; // No conditions; matches every annotation
+};
+
+// -----------------------------------------------------------------------------
+// Replication (hybrid mode)
+// -----------------------------------------------------------------------------
+
+export type ReplicationState = {
+  replicaId: string; // Stable ID for this store, sent to the cloud as the write origin
+  pushedSequence: number; // Local events up to here are in the cloud
+  pulledSequence: number; // Cloud events up to here are merged locally
+  pendingSessionDeletes: string[]; // Sessions deleted locally but not yet in the cloud
+  lastPushAt?: string;
+  lastPullAt?: string;
+};
+
 // -----------------------------------------------------------------------------
 // Multi-Tenant Types
 // -----------------------------------------------------------------------------
@@ -146,6 +377,8 @@ export type UserContext = {
   orgId: string;
   email?: string;
   role?: UserRole;
+  apiKeyId?: string; // Set when authenticated with an API key
+  apiKeyName?: string;
 };
 
 // -----------------------------------------------------------------------------
@@ -154,11 +387,14 @@ export type UserContext = {
 
 export interface AFSStore {
   // Sessions
-  createSession(url: string, projectId?: string): Session;
+  createSession(url: string, projectId?: string): Session; // Without projectId, joins the project matching the URL
   getSession(id: string): Session | undefined;
   getSessionWithAnnotations(id: string): SessionWithAnnotations | undefined;
   updateSessionStatus(id: string, status: SessionStatus): Session | undefined;
+  updateSession(id: string, data: Partial<Pick<Session, "status" | "metadata">>): Session | undefined;
+  deleteSession(id: string): Session | undefined; // Also deletes its annotations, attachments and events
   listSessions(): Session[];
+  querySessions(query: SessionQuery): Page<Session>;
 
   // Annotations
   addAnnotation(
@@ -166,26 +402,85 @@ export interface AFSStore {
     data: Omit<Annotation, "id" | "sessionId" | "status" | "createdAt">
   ): Annotation | undefined;
   getAnnotation(id: string): Annotation | undefined;
+  // Writes throw VersionConflictError if options.ifVersion is stale
   updateAnnotation(
     id: string,
-    data: Partial<Omit<Annotation, "id" | "sessionId" | "createdAt">>
+    data: Partial<Omit<Annotation, "id" | "sessionId" | "createdAt" | "version">>,
+    options?: WriteOptions
   ): Annotation | undefined;
   updateAnnotationStatus(
     id: string,
     status: AnnotationStatus,
-    resolvedBy?: "human" | "agent"
+    resolvedBy?: "human" | "agent",
+    options?: WriteOptions
   ): Annotation | undefined;
   addThreadMessage(
     annotationId: string,
     role: "human" | "agent",
-    content: string
+    content: string,
+    options?: WriteOptions
   ): Annotation | undefined;
   getPendingAnnotations(sessionId: string): Annotation[];
+  queryPendingAnnotations(query: AnnotationQuery): Page<Annotation>;
+  searchAnnotations(query: string, options?: SearchOptions): SearchHit[];
+  bulkUpdateAnnotations(operations: BulkOperation[], options?: { atomic?: boolean }): BulkResult;
+  importSession(data: SessionWithAnnotations): Session | undefined; // Undefined if any ID exists
+  mergeSession(data: SessionWithAnnotations): Session | undefined; // Keeps the newer copy of each; undefined if not ours
   getSessionAnnotations(sessionId: string): Annotation[];
-  deleteAnnotation(id: string): Annotation | undefined;
+  countAnnotations(): AnnotationCount[]; // Grouped by status and severity
+  deleteAnnotation(id: string): Annotation | undefined; // Also deletes its attachments
+
+  // Attachments
+  addAttachment(annotationId: string, input: AttachmentInput): Attachment | undefined;
+  getAttachment(id: string): Attachment | undefined;
+  getAttachmentContent(id: string): Uint8Array | undefined;
+  listAttachments(annotationId: string): Attachment[];
+  deleteAttachment(id: string): Attachment | undefined;
 
   // Events (for replay on reconnect)
   getEventsSince(sessionId: string, sequence: number): AFSEvent[];
+  getEventsSinceGlobal(sequence: number): AFSEvent[]; // Across all sessions
+  getAnnotationEvents(annotationId: string): AFSEvent[]; // annotation.* and thread.message events for one annotation
+  getPrunedSequence(): number; // Highest sequence removed by retention pruning (0 if none)
+  getLastSequence(): number; // Highest sequence among the events this store can see (at least the pruned one)
+
+  // Webhook deliveries
+  createWebhookDelivery(
+    data: Pick<WebhookDelivery, "subscriptionId" | "url" | "eventType" | "sessionId" | "payload">
+  ): WebhookDelivery;
+  getWebhookDelivery(id: string): WebhookDelivery | undefined;
+  updateWebhookDelivery(
+    id: string,
+    data: Partial<
+      Omit<WebhookDelivery, "id" | "subscriptionId" | "url" | "eventType" | "sessionId" | "payload" | "createdAt">
+    >
+  ): WebhookDelivery | undefined;
+  listWebhookDeliveries(filter?: { status?: WebhookDeliveryStatus; limit?: number }): WebhookDelivery[];
+
+  // Webhook subscriptions
+  createWebhookSubscription(
+    data: Omit<WebhookSubscription, "id" | "createdAt" | "updatedAt">
+  ): WebhookSubscription;
+  getWebhookSubscription(id: string): WebhookSubscription | undefined;
+  updateWebhookSubscription(
+    id: string,
+    data: Partial<Omit<WebhookSubscription, "id" | "userId" | "createdAt" | "updatedAt">>
+  ): WebhookSubscription | undefined;
+  deleteWebhookSubscription(id: string): WebhookSubscription | undefined;
+  listWebhookSubscriptions(): WebhookSubscription[];
+
+  // Projects
+  createProject(data: Omit<Project, "id" | "createdAt" | "updatedAt">): Project;
+  getProject(id: string): Project | undefined;
+  updateProject(
+    id: string,
+    data: Partial<Omit<Project, "id" | "userId" | "createdAt" | "updatedAt">>
+  ): Project | undefined;
+  listProjects(): Project[];
+
+  // Replication (hybrid mode)
+  getReplicationState(): ReplicationState;
+  updateReplicationState(data: Partial<Omit<ReplicationState, "replicaId">>): ReplicationState;
 
   // Lifecycle
   close(): void;
@@ -16,6 +16,8 @@ export interface AnnotationPopupCSSProps {
   timestamp?: string;
   /** Optional selected/highlighted text */
   selectedText?: string;
+  /** Question from the agent awaiting a reply (shown above the textarea) */
+  question?: string;
   /** Placeholder text for the textarea */
   placeholder?: string;
   /** Initial value for textarea (for edit mode) */
@@ -55,6 +57,7 @@ export const AnnotationPopupCSS = forwardRef<AnnotationPopupCSSHandle, Annotatio
       element,
       timestamp,
       selectedText,
+      question,
       placeholder = "What should change?",
       initialValue = "",
       submitLabel = "Add",
@@ -236,6 +239,13 @@ export const AnnotationPopupCSS = forwardRef<AnnotationPopupCSSHandle, Annotatio
           </div>
         )}
 
+        {question && (
+          <div className={styles.question}>
+            <span className={styles.questionLabel}>Agent asks</span>
+            {question}
+          </div>
+        )}
+
         <textarea
           ref={textareaRef}
           className={styles.textarea}
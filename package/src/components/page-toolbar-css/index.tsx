@@ -51,6 +51,11 @@ import {
   getNearbyElements,
   closestCrossingShadow,
 } from "../../utils/element-identification";
+import {
+  generateOutput,
+  type OutputDetailLevel,
+  type OutputEnvironment,
+} from "../../utils/generate-output";
 import {
   loadAnnotations,
   loadAllAnnotations,
@@ -67,7 +72,11 @@ import {
   syncAnnotation,
   updateAnnotation as updateAnnotationOnServer,
   deleteAnnotation as deleteAnnotationFromServer,
+  replyToAnnotation,
   requestAction,
+  setSyncApiKey,
+  withApiKeyParam,
+  SYNC_ORIGIN,
 } from "../../utils/sync";
 import { getReactComponentName } from "../../utils/react-detection";
 import {
@@ -130,7 +139,6 @@ type HoverInfo = {
   reactComponents?: string | null;
 };
 
-type OutputDetailLevel = "compact" | "standard" | "detailed" | "forensic";
 // ReactComponentMode is now derived from outputDetail when reactEnabled is true
 type ReactComponentMode = "smart" | "filtered" | "all" | "off";
 type MarkerClickBehavior = "edit" | "delete";
@@ -289,112 +297,27 @@ function getActiveButtonStyle(
   };
 }
 
-function generateOutput(
-  annotations: Annotation[],
-  pathname: string,
-  detailLevel: OutputDetailLevel = "standard",
-  reactMode: ReactComponentMode = "filtered",
-): string {
-  if (annotations.length === 0) return "";
-
-  const viewport =
-    typeof window !== "undefined"
-      ? `${window.innerWidth}×${window.innerHeight}`
-      : "unknown";
-
-  let output = `## Page Feedback: ${pathname}\n`;
-
-  if (detailLevel === "forensic") {
-    // Full environment info for forensic mode
-    output += `\n**Environment:**\n`;
-    output += `- Viewport: ${viewport}\n`;
-    if (typeof window !== "undefined") {
-      output += `- URL: ${window.location.href}\n`;
-      output += `- User Agent: ${navigator.userAgent}\n`;
-      output += `- Timestamp: ${new Date().toISOString()}\n`;
-      output += `- Device Pixel Ratio: ${window.devicePixelRatio}\n`;
-    }
-    output += `\n---\n`;
-  } else if (detailLevel !== "compact") {
-    output += `**Viewport:** ${viewport}\n`;
-  }
-  output += "\n";
-
-  annotations.forEach((a, i) => {
-    if (detailLevel === "compact") {
-      output += `${i + 1}. **${a.element}**: ${a.comment}`;
-      if (a.selectedText) {
-        output += ` (re: "${a.selectedText.slice(0, 30)}${a.selectedText.length > 30 ? "..." : ""}")`;
-      }
-      output += "\n";
-    } else if (detailLevel === "forensic") {
-      // Forensic mode - order matches output page example
-      output += `### ${i + 1}. ${a.element}\n`;
-      if (a.isMultiSelect && a.fullPath) {
-        output += `*Forensic data shown for first element of selection*\n`;
-      }
-      if (a.fullPath) {
-        output += `**Full DOM Path:** ${a.fullPath}\n`;
-      }
-      if (a.cssClasses) {
-        output += `**CSS Classes:** ${a.cssClasses}\n`;
-      }
-      if (a.boundingBox) {
-        output += `**Position:** x:${Math.round(a.boundingBox.x)}, y:${Math.round(a.boundingBox.y)} (${Math.round(a.boundingBox.width)}×${Math.round(a.boundingBox.height)}px)\n`;
-      }
-      output += `**Annotation at:** ${a.x.toFixed(1)}% from left, ${Math.round(a.y)}px from top\n`;
-      if (a.selectedText) {
-        output += `**Selected text:** "${a.selectedText}"\n`;
-      }
-      if (a.nearbyText && !a.selectedText) {
-        output += `**Context:** ${a.nearbyText.slice(0, 100)}\n`;
-      }
-      if (a.computedStyles) {
-        output += `**Computed Styles:** ${a.computedStyles}\n`;
-      }
-      if (a.accessibility) {
-        output += `**Accessibility:** ${a.accessibility}\n`;
-      }
-      if (a.nearbyElements) {
-        output += `**Nearby Elements:** ${a.nearbyElements}\n`;
-      }
-      if (a.reactComponents) {
-        output += `**React:** ${a.reactComponents}\n`;
-      }
-      output += `**Feedback:** ${a.comment}\n\n`;
-    } else {
-      // Standard and detailed modes
-      output += `### ${i + 1}. ${a.element}\n`;
-      output += `**Location:** ${a.elementPath}\n`;
-
-      // React components in both standard and detailed
-      if (a.reactComponents) {
-        output += `**React:** ${a.reactComponents}\n`;
-      }
-
-      if (detailLevel === "detailed") {
-        if (a.cssClasses) {
-          output += `**Classes:** ${a.cssClasses}\n`;
-        }
-
-        if (a.boundingBox) {
-          output += `**Position:** ${Math.round(a.boundingBox.x)}px, ${Math.round(a.boundingBox.y)}px (${Math.round(a.boundingBox.width)}×${Math.round(a.boundingBox.height)}px)\n`;
-        }
-      }
-
-      if (a.selectedText) {
-        output += `**Selected text:** "${a.selectedText}"\n`;
-      }
-
-      if (detailLevel === "detailed" && a.nearbyText && !a.selectedText) {
-        output += `**Context:** ${a.nearbyText.slice(0, 100)}\n`;
-      }
-
-      output += `**Feedback:** ${a.comment}\n\n`;
-    }
-  });
+/**
+ * Capture the browser environment for the output header.
+ */
+function getBrowserEnvironment(): OutputEnvironment {
+  if (typeof window === "undefined") return { viewport: "unknown" };
+  return {
+    viewport: `${window.innerWidth}×${window.innerHeight}`,
+    url: window.location.href,
+    userAgent: navigator.userAgent,
+    timestamp: new Date().toISOString(),
+    devicePixelRatio: window.devicePixelRatio,
+  };
+}
 
-  return output.trim();
+/**
+ * The agent question an annotation is waiting on (see agentation_ask), if any.
+ */
+function getOpenQuestion(annotation: Annotation): string | undefined {
+  if (annotation.status !== "awaiting_human") return undefined;
+  const questions = annotation.thread?.filter((m) => m.role === "agent") ?? [];
+  return questions[questions.length - 1]?.content;
 }
 
 // =============================================================================
@@ -427,6 +350,8 @@ export type PageFeedbackToolbarCSSProps = {
   copyToClipboard?: boolean;
   /** Server URL for sync (e.g., "http://localhost:4747"). If not provided, uses localStorage only. */
   endpoint?: string;
+  /** API key for a server started with --require-auth. Sent with every sync request and on the event stream. */
+  apiKey?: string;
   /** Pre-existing session ID to join. If not provided with endpoint, creates a new session. */
   sessionId?: string;
   /** Called when a new session is created (only when endpoint is provided without sessionId). */
@@ -454,6 +379,7 @@ export function PageFeedbackToolbarCSS({
   onSubmit,
   copyToClipboard = true,
   endpoint,
+  apiKey,
   sessionId: initialSessionId,
   onSessionCreated,
   webhookUrl,
@@ -856,6 +782,11 @@ export function PageFeedbackToolbarCSS({
     }
   }, [isDraggingToolbar, toolbarPosition, mounted]);
 
+  // Authenticate sync requests (runs before the effects below that make them)
+  useEffect(() => {
+    setSyncApiKey(apiKey);
+  }, [apiKey]);
+
   // Initialize server session (when endpoint is provided)
   useEffect(() => {
     if (!endpoint || !mounted || sessionInitializedRef.current) return;
@@ -1078,8 +1009,11 @@ export function PageFeedbackToolbarCSS({
   useEffect(() => {
     if (!endpoint || !mounted || !currentSessionId) return;
 
+    // Only updates made elsewhere (e.g. by an agent); our own writes are skipped
     const eventSource = new EventSource(
-      `${endpoint}/sessions/${currentSessionId}/events`
+      withApiKeyParam(
+        `${endpoint}/sessions/${currentSessionId}/events?types=annotation.updated&excludeOrigin=${SYNC_ORIGIN}`,
+      ),
     );
 
     const removedStatuses = ["resolved", "dismissed"];
@@ -1099,6 +1033,15 @@ export function PageFeedbackToolbarCSS({
               return next;
             });
           }, 150);
+        } else if (event.payload?.id) {
+          // Still open: track the server version so edits send a fresh
+          // If-Match, and the status and thread so agent questions show
+          const { id, version, status, thread } = event.payload as Annotation;
+          setAnnotations((prev) =>
+            prev.map((a) =>
+              a.id === id ? { ...a, version, status, thread } : a,
+            ),
+          );
         }
       } catch {
         // Ignore parse errors
@@ -1111,7 +1054,7 @@ export function PageFeedbackToolbarCSS({
       eventSource.removeEventListener("annotation.updated", handler);
       eventSource.close();
     };
-  }, [endpoint, mounted, currentSessionId]);
+  }, [endpoint, apiKey, mounted, currentSessionId]);
 
   // Sync local annotations when connection is restored
   useEffect(() => {
@@ -2250,15 +2193,19 @@ export function PageFeedbackToolbarCSS({
       if (endpoint && currentSessionId) {
         syncAnnotation(endpoint, currentSessionId, newAnnotation)
           .then((serverAnnotation) => {
-            // Update local annotation with server-assigned ID
+            // Update local annotation with server-assigned ID and version
+            setAnnotations((prev) =>
+              prev.map((a) =>
+                a.id === newAnnotation.id
+                  ? {
+                      ...a,
+                      id: serverAnnotation.id,
+                      version: serverAnnotation.version,
+                    }
+                  : a,
+              ),
+            );
             if (serverAnnotation.id !== newAnnotation.id) {
-              setAnnotations((prev) =>
-                prev.map((a) =>
-                  a.id === newAnnotation.id
-                    ? { ...a, id: serverAnnotation.id }
-                    : a,
-                ),
-              );
               // Also update the animated markers set
               setAnimatedMarkers((prev) => {
                 const next = new Set(prev);
@@ -2476,14 +2423,28 @@ export function PageFeedbackToolbarCSS({
 
       // Sync update to server (non-blocking)
       if (endpoint) {
-        updateAnnotationOnServer(endpoint, editingAnnotation.id, {
-          comment: newComment,
-        }).catch((error) => {
-          console.warn(
-            "[Agentation] Failed to update annotation on server:",
-            error,
-          );
-        });
+        updateAnnotationOnServer(
+          endpoint,
+          editingAnnotation.id,
+          { comment: newComment },
+          { ifVersion: editingAnnotation.version },
+        )
+          .then((serverAnnotation) => {
+            // Track the server version so the next edit can be checked too
+            setAnnotations((prev) =>
+              prev.map((a) =>
+                a.id === serverAnnotation.id
+                  ? { ...a, version: serverAnnotation.version }
+                  : a,
+              ),
+            );
+          })
+          .catch((error) => {
+            console.warn(
+              "[Agentation] Failed to update annotation on server:",
+              error,
+            );
+          });
       }
 
       // Animate out the edit popup
@@ -2498,6 +2459,56 @@ export function PageFeedbackToolbarCSS({
     [editingAnnotation, onAnnotationUpdate, fireWebhook, endpoint],
   );
 
+  // Answer an agent's question (edit mode submit while awaiting_human)
+  const replyToQuestion = useCallback(
+    (reply: string) => {
+      if (!editingAnnotation) return;
+      const { id } = editingAnnotation;
+
+      // The server hands the annotation back to the agent once answered
+      setAnnotations((prev) =>
+        prev.map((a) =>
+          a.id === id ? { ...a, status: "acknowledged" as const } : a,
+        ),
+      );
+
+      if (endpoint) {
+        replyToAnnotation(endpoint, id, reply)
+          .then((serverAnnotation) => {
+            setAnnotations((prev) =>
+              prev.map((a) =>
+                a.id === id
+                  ? {
+                      ...a,
+                      status: serverAnnotation.status,
+                      thread: serverAnnotation.thread,
+                      version: serverAnnotation.version,
+                    }
+                  : a,
+              ),
+            );
+          })
+          .catch((error) => {
+            console.warn("[Agentation] Failed to send reply to server:", error);
+          });
+      }
+
+      // Animate out the edit popup
+      setEditExiting(true);
+      originalSetTimeout(() => {
+        setEditingAnnotation(null);
+        setEditingTargetElement(null);
+        setEditingTargetElements([]);
+        setEditExiting(false);
+      }, 150);
+    },
+    [editingAnnotation, endpoint],
+  );
+
+  const editingQuestion = editingAnnotation
+    ? getOpenQuestion(editingAnnotation)
+    : undefined;
+
   // Cancel editing with exit animation
   const cancelEditAnnotation = useCallback(() => {
     setEditExiting(true);
@@ -2558,7 +2569,7 @@ export function PageFeedbackToolbarCSS({
       annotations,
       displayUrl,
       settings.outputDetail,
-      effectiveReactMode,
+      getBrowserEnvironment(),
     );
     if (!output) return;
 
@@ -2583,7 +2594,6 @@ export function PageFeedbackToolbarCSS({
     annotations,
     pathname,
     settings.outputDetail,
-    effectiveReactMode,
     settings.autoClearAfterCopy,
     clearAll,
     copyToClipboard,
@@ -2602,7 +2612,7 @@ export function PageFeedbackToolbarCSS({
       annotations,
       displayUrl,
       settings.outputDetail,
-      effectiveReactMode,
+      getBrowserEnvironment(),
     );
     if (!output) return;
 
@@ -2634,7 +2644,6 @@ export function PageFeedbackToolbarCSS({
     annotations,
     pathname,
     settings.outputDetail,
-    effectiveReactMode,
     settings.autoClearAfterCopy,
     clearAll,
   ]);
@@ -3613,10 +3622,11 @@ export function PageFeedbackToolbarCSS({
 
               const showDeleteHover =
                 showDeleteState && settings.markerClickBehavior === "delete";
+              const question = getOpenQuestion(annotation);
               return (
                 <div
                   key={annotation.id}
-                  className={`${styles.marker} ${isMulti ? styles.multiSelect : ""} ${animClass} ${showDeleteHover ? styles.hovered : ""}`}
+                  className={`${styles.marker} ${isMulti ? styles.multiSelect : ""} ${animClass} ${showDeleteHover ? styles.hovered : ""} ${question ? styles.awaitingHuman : ""}`}
                   data-annotation-marker
                   style={{
                     left: `${annotation.x}%`,
@@ -3680,6 +3690,11 @@ export function PageFeedbackToolbarCSS({
                       <span className={styles.markerNote}>
                         {annotation.comment}
                       </span>
+                      {question && (
+                        <span className={styles.markerQuestion}>
+                          Agent asks: {question}
+                        </span>
+                      )}
                     </div>
                   )}
                 </div>
@@ -3741,10 +3756,11 @@ export function PageFeedbackToolbarCSS({
 
               const showDeleteHover =
                 showDeleteState && settings.markerClickBehavior === "delete";
+              const question = getOpenQuestion(annotation);
               return (
                 <div
                   key={annotation.id}
-                  className={`${styles.marker} ${styles.fixed} ${isMulti ? styles.multiSelect : ""} ${animClass} ${showDeleteHover ? styles.hovered : ""}`}
+                  className={`${styles.marker} ${styles.fixed} ${isMulti ? styles.multiSelect : ""} ${animClass} ${showDeleteHover ? styles.hovered : ""} ${question ? styles.awaitingHuman : ""}`}
                   data-annotation-marker
                   style={{
                     left: `${annotation.x}%`,
@@ -3808,6 +3824,11 @@ export function PageFeedbackToolbarCSS({
                       <span className={styles.markerNote}>
                         {annotation.comment}
                       </span>
+                      {question && (
+                        <span className={styles.markerQuestion}>
+                          Agent asks: {question}
+                        </span>
+                      )}
                     </div>
                   )}
                 </div>
@@ -4230,10 +4251,15 @@ export function PageFeedbackToolbarCSS({
                 computedStyles={parseComputedStylesString(
                   editingAnnotation.computedStyles,
                 )}
-                placeholder="Edit your feedback..."
-                initialValue={editingAnnotation.comment}
-                submitLabel="Save"
-                onSubmit={updateAnnotation}
+                question={editingQuestion}
+                placeholder={
+                  editingQuestion
+                    ? "Reply to the agent..."
+                    : "Edit your feedback..."
+                }
+                initialValue={editingQuestion ? "" : editingAnnotation.comment}
+                submitLabel={editingQuestion ? "Reply" : "Save"}
+                onSubmit={editingQuestion ? replyToQuestion : updateAnnotation}
                 onCancel={cancelEditAnnotation}
                 onDelete={() => deleteAnnotation(editingAnnotation.id)}
                 isExiting={editExiting}
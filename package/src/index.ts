@@ -46,5 +46,8 @@ export {
   getStorageKey,
 } from "./utils/storage";
 
+export { generateOutput, OUTPUT_DETAIL_LEVELS } from "./utils/generate-output";
+export type { OutputDetailLevel, OutputEnvironment } from "./utils/generate-output";
+
 // Types
 export type { Annotation } from "./types";
@@ -40,6 +40,7 @@ export type Annotation = {
   resolvedAt?: string;
   resolvedBy?: "human" | "agent";
   authorId?: string;
+  version?: number; // Starts at 1, incremented on every server-side change
 
   // Local-only sync tracking (not sent to server)
   _syncedTo?: string; // Session ID this annotation was synced to
@@ -51,7 +52,12 @@ export type Annotation = {
 
 export type AnnotationIntent = "fix" | "change" | "question" | "approve";
 export type AnnotationSeverity = "blocking" | "important" | "suggestion";
-export type AnnotationStatus = "pending" | "acknowledged" | "resolved" | "dismissed";
+export type AnnotationStatus =
+  | "pending"
+  | "acknowledged"
+  | "awaiting_human" // An agent asked a question in the thread
+  | "resolved"
+  | "dismissed";
 
 // -----------------------------------------------------------------------------
 // Session
@@ -84,3 +90,16 @@ export type ThreadMessage = {
   timestamp: number;
 };
 
+
+// -----------------------------------------------------------------------------
+// Attachments
+// -----------------------------------------------------------------------------
+
+export type Attachment = {
+  id: string;
+  annotationId: string;
+  filename: string;
+  contentType: string; // MIME type, e.g. "image/png"
+  size: number; // Bytes
+  createdAt: string;
+};
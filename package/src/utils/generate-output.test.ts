@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { generateOutput } from "./generate-output";
+import type { Annotation } from "../types";
+
+function createAnnotation(overrides: Partial<Annotation> = {}): Annotation {
+  return {
+    id: "a1",
+    x: 12.34,
+    y: 250.6,
+    comment: "Button padding is too tight",
+    element: "button.checkout",
+    elementPath: "main > form > button.checkout",
+    timestamp: 0,
+    ...overrides,
+  };
+}
+
+describe("generateOutput", () => {
+  it("returns an empty string when there are no annotations", () => {
+    expect(generateOutput([], "/checkout")).toBe("");
+  });
+
+  it("renders compact output as a numbered list", () => {
+    const output = generateOutput(
+      [createAnnotation({ selectedText: "Proceed to checkout and pay now" })],
+      "/checkout",
+      "compact",
+      { viewport: "1440×900" },
+    );
+
+    expect(output).toBe(
+      "## Page Feedback: /checkout\n\n" +
+        '1. **button.checkout**: Button padding is too tight (re: "Proceed to checkout and pay no...")',
+    );
+  });
+
+  it("includes location, React components and viewport in standard output", () => {
+    const output = generateOutput(
+      [createAnnotation({ reactComponents: "<App> <Checkout>" })],
+      "/checkout",
+      "standard",
+      { viewport: "1440×900" },
+    );
+
+    expect(output).toContain("**Viewport:** 1440×900");
+    expect(output).toContain("### 1. button.checkout");
+    expect(output).toContain("**Location:** main > form > button.checkout");
+    expect(output).toContain("**React:** <App> <Checkout>");
+    expect(output).toContain("**Feedback:** Button padding is too tight");
+  });
+
+  it("omits the viewport line when no environment is given", () => {
+    const output = generateOutput([createAnnotation()], "/checkout");
+    expect(output).not.toContain("Viewport");
+  });
+
+  it("adds classes, position and context in detailed output", () => {
+    const output = generateOutput(
+      [
+        createAnnotation({
+          cssClasses: "btn primary",
+          boundingBox: { x: 10.4, y: 20.6, width: 100, height: 40 },
+          nearbyText: "Order summary",
+        }),
+      ],
+      "/checkout",
+      "detailed",
+    );
+
+    expect(output).toContain("**Classes:** btn primary");
+    expect(output).toContain("**Position:** 10px, 21px (100×40px)");
+    expect(output).toContain("**Context:** Order summary");
+  });
+
+  it("lists only the provided environment fields in forensic output", () => {
+    const output = generateOutput(
+      [createAnnotation({ fullPath: "html > body > main > form > button" })],
+      "/checkout",
+      "forensic",
+      { url: "http://localhost:3000/checkout", timestamp: "2026-01-01T00:00:00.000Z" },
+    );
+
+    expect(output).toContain("- URL: http://localhost:3000/checkout");
+    expect(output).toContain("- Timestamp: 2026-01-01T00:00:00.000Z");
+    expect(output).not.toContain("- Viewport:");
+    expect(output).not.toContain("- User Agent:");
+    expect(output).toContain("**Full DOM Path:** html > body > main > form > button");
+    expect(output).toContain("**Annotation at:** 12.3% from left, 251px from top");
+  });
+});
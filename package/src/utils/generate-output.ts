@@ -0,0 +1,155 @@
+// =============================================================================
+// Agent Output Formatting
+// =============================================================================
+//
+// Renders annotations as the markdown handed to AI agents. Used by the toolbar
+// (copy / send) and bundled into the MCP server (mcp/src/server/output.ts),
+// which renders the same output server-side.
+//
+// Pure: no DOM access. Browser details (viewport, user agent) are passed in
+// through `environment`, so the same output can be produced server-side.
+//
+// =============================================================================
+
+import type { Annotation } from "../types";
+
+export type OutputDetailLevel = "compact" | "standard" | "detailed" | "forensic";
+
+export const OUTPUT_DETAIL_LEVELS: OutputDetailLevel[] = [
+  "compact",
+  "standard",
+  "detailed",
+  "forensic",
+];
+
+/**
+ * Page environment shown in the output header. Fields that are omitted are
+ * left out of the output (server-side rendering has no viewport).
+ */
+export type OutputEnvironment = {
+  viewport?: string; // e.g. "1440×900"
+  url?: string;
+  userAgent?: string;
+  timestamp?: string; // ISO 8601
+  devicePixelRatio?: number;
+};
+
+/**
+ * Format annotations as agent-facing markdown.
+ *
+ * @param annotations - Annotations to include, in order
+ * @param pathname - Page path shown in the heading
+ * @param detailLevel - How much element context to include
+ * @param environment - Page environment for the header
+ * @returns Markdown, or an empty string when there are no annotations
+ */
+export function generateOutput(
+  annotations: Annotation[],
+  pathname: string,
+  detailLevel: OutputDetailLevel = "standard",
+  environment: OutputEnvironment = {},
+): string {
+  if (annotations.length === 0) return "";
+
+  let output = `## Page Feedback: ${pathname}\n`;
+
+  if (detailLevel === "forensic") {
+    // Full environment info for forensic mode
+    output += `\n**Environment:**\n`;
+    if (environment.viewport) {
+      output += `- Viewport: ${environment.viewport}\n`;
+    }
+    if (environment.url) {
+      output += `- URL: ${environment.url}\n`;
+    }
+    if (environment.userAgent) {
+      output += `- User Agent: ${environment.userAgent}\n`;
+    }
+    if (environment.timestamp) {
+      output += `- Timestamp: ${environment.timestamp}\n`;
+    }
+    if (environment.devicePixelRatio !== undefined) {
+      output += `- Device Pixel Ratio: ${environment.devicePixelRatio}\n`;
+    }
+    output += `\n---\n`;
+  } else if (detailLevel !== "compact" && environment.viewport) {
+    output += `**Viewport:** ${environment.viewport}\n`;
+  }
+  output += "\n";
+
+  annotations.forEach((a, i) => {
+    if (detailLevel === "compact") {
+      output += `${i + 1}. **${a.element}**: ${a.comment}`;
+      if (a.selectedText) {
+        output += ` (re: "${a.selectedText.slice(0, 30)}${a.selectedText.length > 30 ? "..." : ""}")`;
+      }
+      output += "\n";
+    } else if (detailLevel === "forensic") {
+      // Forensic mode - order matches output page example
+      output += `### ${i + 1}. ${a.element}\n`;
+      if (a.isMultiSelect && a.fullPath) {
+        output += `*Forensic data shown for first element of selection*\n`;
+      }
+      if (a.fullPath) {
+        output += `**Full DOM Path:** ${a.fullPath}\n`;
+      }
+      if (a.cssClasses) {
+        output += `**CSS Classes:** ${a.cssClasses}\n`;
+      }
+      if (a.boundingBox) {
+        output += `**Position:** x:${Math.round(a.boundingBox.x)}, y:${Math.round(a.boundingBox.y)} (${Math.round(a.boundingBox.width)}×${Math.round(a.boundingBox.height)}px)\n`;
+      }
+      output += `**Annotation at:** ${a.x.toFixed(1)}% from left, ${Math.round(a.y)}px from top\n`;
+      if (a.selectedText) {
+        output += `**Selected text:** "${a.selectedText}"\n`;
+      }
+      if (a.nearbyText && !a.selectedText) {
+        output += `**Context:** ${a.nearbyText.slice(0, 100)}\n`;
+      }
+      if (a.computedStyles) {
+        output += `**Computed Styles:** ${a.computedStyles}\n`;
+      }
+      if (a.accessibility) {
+        output += `**Accessibility:** ${a.accessibility}\n`;
+      }
+      if (a.nearbyElements) {
+        output += `**Nearby Elements:** ${a.nearbyElements}\n`;
+      }
+      if (a.reactComponents) {
+        output += `**React:** ${a.reactComponents}\n`;
+      }
+      output += `**Feedback:** ${a.comment}\n\n`;
+    } else {
+      // Standard and detailed modes
+      output += `### ${i + 1}. ${a.element}\n`;
+      output += `**Location:** ${a.elementPath}\n`;
+
+      // React components in both standard and detailed
+      if (a.reactComponents) {
+        output += `**React:** ${a.reactComponents}\n`;
+      }
+
+      if (detailLevel === "detailed") {
+        if (a.cssClasses) {
+          output += `**Classes:** ${a.cssClasses}\n`;
+        }
+
+        if (a.boundingBox) {
+          output += `**Position:** ${Math.round(a.boundingBox.x)}px, ${Math.round(a.boundingBox.y)}px (${Math.round(a.boundingBox.width)}×${Math.round(a.boundingBox.height)}px)\n`;
+        }
+      }
+
+      if (a.selectedText) {
+        output += `**Selected text:** "${a.selectedText}"\n`;
+      }
+
+      if (detailLevel === "detailed" && a.nearbyText && !a.selectedText) {
+        output += `**Context:** ${a.nearbyText.slice(0, 100)}\n`;
+      }
+
+      output += `**Feedback:** ${a.comment}\n\n`;
+    }
+  });
+
+  return output.trim();
+}
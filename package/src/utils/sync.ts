@@ -7,13 +7,56 @@
 // Falls back gracefully to local-only mode on network errors.
 //
 
-import type { Annotation, Session, SessionWithAnnotations } from "../types";
+import type {
+  Annotation,
+  Attachment,
+  Session,
+  SessionStatus,
+  SessionWithAnnotations,
+} from "../types";
+
+/**
+ * Identifies this page's writes to the server (one per page load), so its
+ * event stream can ask the server to leave out their echoes.
+ */
+export const SYNC_ORIGIN = `toolbar-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Tag a write with SYNC_ORIGIN. It goes in the query rather than the
+ * X-Agentation-Origin header, which would need a CORS preflight that
+ * servers predating it reject.
+ */
+function withOrigin(url: string): string {
+  return `${url}${url.includes("?") ? "&" : "?"}origin=${SYNC_ORIGIN}`;
+}
+
+let apiKey: string | undefined;
+
+/**
+ * Set the API key sent with every request, for a server started with
+ * --require-auth. Pass undefined to stop sending one.
+ */
+export function setSyncApiKey(key: string | undefined): void {
+  apiKey = key;
+}
+
+function authHeaders(): Record<string, string> {
+  return apiKey ? { "x-api-key": apiKey } : {};
+}
+
+/**
+ * Add the API key to an event stream URL; EventSource can't send headers.
+ */
+export function withApiKeyParam(url: string): string {
+  if (!apiKey) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}api_key=${encodeURIComponent(apiKey)}`;
+}
 
 /**
  * List all sessions from the server.
  */
 export async function listSessions(endpoint: string): Promise<Session[]> {
-  const response = await fetch(`${endpoint}/sessions`);
+  const response = await fetch(`${endpoint}/sessions`, { headers: authHeaders() });
   if (!response.ok) {
     throw new Error(`Failed to list sessions: ${response.status}`);
   }
@@ -27,9 +70,9 @@ export async function createSession(
   endpoint: string,
   url: string
 ): Promise<Session> {
-  const response = await fetch(`${endpoint}/sessions`, {
+  const response = await fetch(withOrigin(`${endpoint}/sessions`), {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...authHeaders() },
     body: JSON.stringify({ url }),
   });
 
@@ -47,7 +90,9 @@ export async function getSession(
   endpoint: string,
   sessionId: string
 ): Promise<SessionWithAnnotations> {
-  const response = await fetch(`${endpoint}/sessions/${sessionId}`);
+  const response = await fetch(`${endpoint}/sessions/${sessionId}`, {
+    headers: authHeaders(),
+  });
 
   if (!response.ok) {
     throw new Error(`Failed to get session: ${response.status}`);
@@ -56,6 +101,45 @@ export async function getSession(
   return response.json();
 }
 
+/**
+ * Update a session's status and/or metadata on the server.
+ * Metadata replaces the existing value; pass null to clear it.
+ */
+export async function updateSession(
+  endpoint: string,
+  sessionId: string,
+  data: { status?: SessionStatus; metadata?: Record<string, unknown> | null }
+): Promise<Session> {
+  const response = await fetch(withOrigin(`${endpoint}/sessions/${sessionId}`), {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to update session: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Delete a session and all of its annotations from the server.
+ */
+export async function deleteSession(
+  endpoint: string,
+  sessionId: string
+): Promise<void> {
+  const response = await fetch(withOrigin(`${endpoint}/sessions/${sessionId}`), {
+    method: "DELETE",
+    headers: authHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to delete session: ${response.status}`);
+  }
+}
+
 /**
  * Sync a new annotation to the server.
  * Returns the annotation with any server-assigned fields.
@@ -65,9 +149,9 @@ export async function syncAnnotation(
   sessionId: string,
   annotation: Annotation
 ): Promise<Annotation> {
-  const response = await fetch(`${endpoint}/sessions/${sessionId}/annotations`, {
+  const response = await fetch(withOrigin(`${endpoint}/sessions/${sessionId}/annotations`), {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...authHeaders() },
     body: JSON.stringify(annotation),
   });
 
@@ -80,18 +164,29 @@ export async function syncAnnotation(
 
 /**
  * Update an annotation on the server.
+ * With `ifVersion`, the update is rejected (412) if the annotation has
+ * changed on the server since that version.
  */
 export async function updateAnnotation(
   endpoint: string,
   annotationId: string,
-  data: Partial<Annotation>
+  data: Partial<Annotation>,
+  options: { ifVersion?: number } = {}
 ): Promise<Annotation> {
-  const response = await fetch(`${endpoint}/annotations/${annotationId}`, {
+  const headers: Record<string, string> = { "Content-Type": "application/json", ...authHeaders() };
+  if (options.ifVersion !== undefined) {
+    headers["If-Match"] = `"${options.ifVersion}"`;
+  }
+
+  const response = await fetch(withOrigin(`${endpoint}/annotations/${annotationId}`), {
     method: "PATCH",
-    headers: { "Content-Type": "application/json" },
+    headers,
     body: JSON.stringify(data),
   });
 
+  if (response.status === 412) {
+    throw new Error("Annotation was changed on the server; reload to see the latest version");
+  }
   if (!response.ok) {
     throw new Error(`Failed to update annotation: ${response.status}`);
   }
@@ -106,8 +201,9 @@ export async function deleteAnnotation(
   endpoint: string,
   annotationId: string
 ): Promise<void> {
-  const response = await fetch(`${endpoint}/annotations/${annotationId}`, {
+  const response = await fetch(withOrigin(`${endpoint}/annotations/${annotationId}`), {
     method: "DELETE",
+    headers: authHeaders(),
   });
 
   if (!response.ok) {
@@ -115,6 +211,54 @@ export async function deleteAnnotation(
   }
 }
 
+/**
+ * Reply to an annotation's thread as the human, e.g. to answer an agent's
+ * question. Returns the updated annotation.
+ */
+export async function replyToAnnotation(
+  endpoint: string,
+  annotationId: string,
+  content: string
+): Promise<Annotation> {
+  const response = await fetch(withOrigin(`${endpoint}/annotations/${annotationId}/thread`), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({ role: "human", content }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to reply to annotation: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Attach a file (e.g. an element screenshot) to an annotation on the server.
+ * The blob's type is sent as the Content-Type; servers accept up to 10 MB.
+ */
+export async function uploadAttachment(
+  endpoint: string,
+  annotationId: string,
+  file: Blob,
+  filename: string
+): Promise<Attachment> {
+  const response = await fetch(
+    withOrigin(`${endpoint}/annotations/${annotationId}/attachments?filename=${encodeURIComponent(filename)}`),
+    {
+      method: "POST",
+      headers: { "Content-Type": file.type || "application/octet-stream", ...authHeaders() },
+      body: file,
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to upload attachment: ${response.status}`);
+  }
+
+  return response.json();
+}
+
 export type ActionResponse = {
   success: boolean;
   annotationCount: number;
@@ -135,9 +279,9 @@ export async function requestAction(
   sessionId: string,
   output: string
 ): Promise<ActionResponse> {
-  const response = await fetch(`${endpoint}/sessions/${sessionId}/action`, {
+  const response = await fetch(withOrigin(`${endpoint}/sessions/${sessionId}/action`), {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...authHeaders() },
     body: JSON.stringify({ output }),
   });
 